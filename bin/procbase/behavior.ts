@@ -0,0 +1,84 @@
+import { addBehaviorTool } from '../../server/tools/add-behavior';
+import { updateBehaviorTool } from '../../server/tools/update-behavior';
+import { removeBehaviorTool } from '../../server/tools/remove-behavior';
+import { searchBehaviorsTool } from '../../server/tools/search-behaviors';
+import type { BehaviorRun } from '../../server/tools/run-behaviors';
+
+type AddBehaviorOptions = {
+  name?: string;
+};
+
+type SearchBehaviorsOptions = {
+  semantic?: boolean;
+};
+
+export const printFailedRuns = (runs: BehaviorRun[] = []) => {
+  runs.filter(run => !run.passed).forEach(run => {
+    console.error(`  ❌ ${run.instanceName} › ${run.behaviorName}`);
+    run.output.split('\n').forEach(line => console.error(`     ${line}`));
+  });
+};
+
+export const addBehaviorCommand = (sourceDir: string, options: AddBehaviorOptions = {}) => {
+  const result = addBehaviorTool.addBehavior(sourceDir, options.name);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+  console.log(`📝 Test files: ${result.testFiles?.join(', ')}`);
+};
+
+export const updateBehaviorCommand = (behaviorName: string, sourceDir: string) => {
+  const result = updateBehaviorTool.updateBehavior(behaviorName, sourceDir);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    printFailedRuns(result.runs);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+};
+
+export const removeBehaviorCommand = (behaviorName: string) => {
+  const result = removeBehaviorTool.removeBehavior(behaviorName);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+  if (result.unboundInstances && result.unboundInstances.length > 0) {
+    console.log(`🔗 Unbound from: ${result.unboundInstances.join(', ')}`);
+  }
+};
+
+export const searchBehaviorsCommand = async (query: string, options: SearchBehaviorsOptions = {}) => {
+  const result = options.semantic
+    ? await searchBehaviorsTool.searchBehaviorsSemantic(query)
+    : searchBehaviorsTool.searchBehaviors(query);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  const matches = result.matches ?? [];
+  if (matches.length === 0) {
+    console.log(`No behaviors found matching '${query}'.`);
+    return;
+  }
+
+  console.log(`🔍 ${result.message}:`);
+  matches.forEach(match => {
+    console.log(`  ${match.behaviorName} (${match.testFiles.join(', ')})`);
+    match.matchedTests.forEach(title => console.log(`    🔹 ${title}`));
+    if (match.boundInstances.length > 0) {
+      console.log(`    🔗 bound to: ${match.boundInstances.join(', ')}`);
+    }
+  });
+};
@@ -3,6 +3,7 @@ import path from 'node:path';
 import os from 'node:os';
 import { execSync } from 'node:child_process';
 import { getProcbaseRoot } from '../../common/paths';
+import { DEFAULT_PROCBASE_CONFIG } from '../../common/config';
 
 const createPackageJson = (procbaseName: string): string => {
     const content = {
@@ -13,7 +14,8 @@ const createPackageJson = (procbaseName: string): string => {
         devDependencies: {
             "typescript": "^5",
             "@types/bun": "latest"
-        }
+        },
+        procbase: DEFAULT_PROCBASE_CONFIG
     };
     return JSON.stringify(content, null, 2);
 }
@@ -69,6 +71,7 @@ export const createProcbase = (name: string) => {
     fs.mkdirSync(procbasePath, { recursive: true });
     fs.mkdirSync(path.join(procbasePath, 'instances'), { recursive: true });
     fs.mkdirSync(path.join(procbasePath, 'types'), { recursive: true });
+    fs.mkdirSync(path.join(procbasePath, 'behaviors'), { recursive: true });
     fs.mkdirSync(path.join(procbasePath, 'lancedb'), { recursive: true });
 
     // Create files
@@ -0,0 +1,57 @@
+import { dependencyGraphTool } from '../../server/tools/dependency-graph';
+
+type DepsOptions = {
+  transitive?: boolean;
+  reverse?: boolean;
+  depth?: string;
+  runtimeOnly?: boolean;
+};
+
+type WhyOptions = {
+  runtimeOnly?: boolean;
+};
+
+const parseDepth = (depth: string): number => {
+  const maxDepth = Number(depth);
+  if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+    console.error(`❌ --depth must be a positive integer: ${depth}`);
+    process.exit(1);
+  }
+  return maxDepth;
+};
+
+export const depsCommand = (symbol: string, options: DepsOptions = {}) => {
+  const direction = options.reverse ? 'dependents' : 'dependencies';
+  const result = dependencyGraphTool.getDependencies(symbol, direction, {
+    // A depth limit only makes sense when following edges transitively
+    transitive: options.transitive || options.depth !== undefined,
+    maxDepth: options.depth === undefined ? undefined : parseDepth(options.depth),
+    runtimeOnly: options.runtimeOnly
+  });
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+  // Indent by depth so the layers of a transitive closure stand out
+  result.symbols?.forEach(reached => console.log(`${'  '.repeat(reached.depth)}${reached.id}`));
+};
+
+export const whyCommand = (from: string, to: string, options: WhyOptions = {}) => {
+  const result = dependencyGraphTool.findPath(from, to, options);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  if (!result.path) {
+    console.log(`🔹 ${result.message}`);
+    return;
+  }
+
+  console.log(`✅ ${result.message}`);
+  result.path.forEach((id, index) => console.log(index === 0 ? `  ${id}` : `  ${'  '.repeat(index - 1)}└─ ${id}`));
+};
@@ -0,0 +1,8 @@
+import type { ValidationIssue } from '../../types/validation/ValidationIssue';
+
+/**
+ * Render a validation issue as an indented `file:line:column - message [rule]` line
+ */
+export const formatIssue = (issue: ValidationIssue): string => {
+  return `  ${issue.fileName}:${issue.line}:${issue.column} - ${issue.message} [${issue.rule}]`;
+};
@@ -9,6 +9,11 @@ import { startServer } from './server/start';
 import { stopServer } from './server/stop';
 import { restartServer } from './server/restart';
 import { analyzeFileCommand } from './analysis';
+import { lintCommand } from './lint';
+import { depsCommand, whyCommand } from './deps';
+import { addTypeCommand, searchTypesCommand } from './type';
+import { addInstanceCommand, bindBehaviorCommand, searchInstancesCommand, unbindBehaviorCommand, updateInstanceCommand } from './instance';
+import { addBehaviorCommand, removeBehaviorCommand, searchBehaviorsCommand, updateBehaviorCommand } from './behavior';
 
 const program = new Command();
 
@@ -80,8 +85,41 @@ program
     .command('analysis')
     .description('Analyze a TypeScript file and output top-level symbols')
     .argument('<file>', 'Path to the TypeScript file to analyze')
-    .action((file) => {
-        analyzeFileCommand(file);
+    .option('--json', 'Print the analysis as JSON instead of a text report')
+    .option('--local', 'Analyze in this process, even if the server is running')
+    .option('--server', 'Ask the server, starting it if needed')
+    .action(async (file, options) => {
+        await analyzeFileCommand(file, options);
+    });
+
+program
+    .command('lint')
+    .description('Check the current procbase against the procbase structure rules')
+    .option('--fix', 'Apply mechanical fixes for the issues that have them')
+    .action((options) => {
+        lintCommand(options);
+    });
+
+program
+    .command('deps')
+    .description('List the dependencies of a symbol')
+    .argument('<symbol>', 'Symbol id such as types/Geo/Vec.ts#Vec:type, or a bare name')
+    .option('-t, --transitive', 'Include indirect dependencies')
+    .option('-r, --reverse', 'List the symbols depending on it instead')
+    .option('-d, --depth <number>', 'Follow at most this many edges (implies --transitive)')
+    .option('--runtime-only', 'Ignore edges that only exist in type positions')
+    .action((symbol, options) => {
+        depsCommand(symbol, options);
+    });
+
+program
+    .command('why')
+    .description('Show a shortest dependency chain from one symbol to another')
+    .argument('<from>', 'The depending symbol')
+    .argument('<to>', 'The symbol it depends on')
+    .option('--runtime-only', 'Ignore edges that only exist in type positions')
+    .action((from, to, options) => {
+        whyCommand(from, to, options);
     });
 
 const typeCommand = program.command('type').description('Manage types');
@@ -90,9 +128,9 @@ typeCommand
     .command('add')
     .description('Adds a new type')
     .argument('<path>', 'Path to the type file')
-    .action((path) => {
-        // TODO: Implement adding a type
-        console.log(`Adding type from ${path}`);
+    .option('-n, --namespace <namespace>', 'Dot-separated namespace for the type (defaults to the file name)')
+    .action(async (path, options) => {
+        await addTypeCommand(path, options);
     });
 
 typeCommand
@@ -100,9 +138,8 @@ typeCommand
     .description('Searches for types')
     .argument('<query>', 'Search query')
     .option('--semantic', 'Perform a semantic search')
-    .action((query, options) => {
-        // TODO: Implement searching for types
-        console.log(`Searching for type: ${query}`, options.semantic ? 'with semantic search' : '');
+    .action(async (query, options) => {
+        await searchTypesCommand(query, options);
     });
 
 const instanceCommand = program.command('instance').description('Manage instances');
@@ -110,10 +147,11 @@ const instanceCommand = program.command('instance').description('Manage instance
 instanceCommand
     .command('add')
     .description('Adds a new instance')
-    .argument('<path>', 'Path to the instance file')
-    .action((path) => {
-        // TODO: Implement adding an instance
-        console.log(`Adding instance from ${path}`);
+    .argument('<path>', 'Path to the instance file or folder')
+    .requiredOption('-t, --type <namespace>', 'Namespace of the type the instance is bound to')
+    .option('-n, --name <name>', 'Name of the instance (defaults to the file or folder name)')
+    .action(async (path, options) => {
+        await addInstanceCommand(path, options);
     });
 
 instanceCommand
@@ -121,19 +159,17 @@ instanceCommand
     .description('Searches for instances')
     .argument('<query>', 'Search query')
     .option('--semantic', 'Perform a semantic search')
-    .action((query, options) => {
-        // TODO: Implement searching for instances
-        console.log(`Searching for instance: ${query}`, options.semantic ? 'with semantic search' : '');
+    .action(async (query, options) => {
+        await searchInstancesCommand(query, options);
     });
 
 instanceCommand
     .command('update')
     .description('Updates an instance')
     .argument('<name>', 'Name of the instance to update')
-    .argument('<path>', 'Path to the new instance file')
-    .action((name, path) => {
-        // TODO: Implement updating an instance
-        console.log(`Updating instance ${name} with ${path}`);
+    .argument('<path>', 'Path to the new instance file or folder')
+    .action(async (name, path) => {
+        await updateInstanceCommand(name, path);
     });
 
 instanceCommand
@@ -142,8 +178,7 @@ instanceCommand
     .argument('<instance-name>', 'Name of the instance')
     .argument('<behavior-name>', 'Name of the behavior')
     .action((instanceName, behaviorName) => {
-        // TODO: Implement binding an instance to a behavior
-        console.log(`Binding instance ${instanceName} to behavior ${behaviorName}`);
+        bindBehaviorCommand(instanceName, behaviorName);
     });
 
 instanceCommand
@@ -152,8 +187,7 @@ instanceCommand
     .argument('<instance-name>', 'Name of the instance')
     .argument('<behavior-name>', 'Name of the behavior')
     .action((instanceName, behaviorName) => {
-        // TODO: Implement unbinding an instance from a behavior
-        console.log(`Unbinding instance ${instanceName} from behavior ${behaviorName}`);
+        unbindBehaviorCommand(instanceName, behaviorName);
     });
 
 const behaviorCommand = program.command('behavior').description('Manage behaviors');
@@ -162,9 +196,9 @@ behaviorCommand
     .command('add')
     .description('Adds a new behavior')
     .argument('<path>', 'Path to the behavior directory')
-    .action((path) => {
-        // TODO: Implement adding a behavior
-        console.log(`Adding behavior from ${path}`);
+    .option('-n, --name <name>', 'Name of the behavior (defaults to the directory name)')
+    .action((path, options) => {
+        addBehaviorCommand(path, options);
     });
 
 behaviorCommand
@@ -172,9 +206,8 @@ behaviorCommand
     .description('Searches for behaviors')
     .argument('<query>', 'Search query')
     .option('--semantic', 'Perform a semantic search')
-    .action((query, options) => {
-        // TODO: Implement searching for behaviors
-        console.log(`Searching for behavior: ${query}`, options.semantic ? 'with semantic search' : '');
+    .action(async (query, options) => {
+        await searchBehaviorsCommand(query, options);
     });
 
 behaviorCommand
@@ -183,8 +216,7 @@ behaviorCommand
     .argument('<name>', 'Name of the behavior to update')
     .argument('<path>', 'Path to the new behavior directory')
     .action((name, path) => {
-        // TODO: Implement updating a behavior
-        console.log(`Updating behavior ${name} with ${path}`);
+        updateBehaviorCommand(name, path);
     });
 
 behaviorCommand
@@ -192,8 +224,7 @@ behaviorCommand
     .description('Deletes a behavior')
     .argument('<name>', 'Name of the behavior to delete')
     .action((name) => {
-        // TODO: Implement deleting a behavior
-        console.log(`Deleting behavior: ${name}`);
+        removeBehaviorCommand(name);
     });
 
-program.parse(process.argv); 
\ No newline at end of file
+program.parseAsync(process.argv); 
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { addInstanceTool } from '../../server/tools/add-instance';
+import { updateInstanceTool } from '../../server/tools/update-instance';
+import { searchInstancesTool } from '../../server/tools/search-instances';
+import { bindBehaviorTool } from '../../server/tools/bind-behavior';
+import { formatIssue } from './format';
+import { printFailedRuns } from './behavior';
+
+type AddInstanceOptions = {
+  type: string;
+  name?: string;
+};
+
+type SearchInstancesOptions = {
+  semantic?: boolean;
+};
+
+export const addInstanceCommand = async (sourcePath: string, options: AddInstanceOptions) => {
+  const result = await addInstanceTool.addInstance(sourcePath, options.type, options.name);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    result.issues?.forEach(issue => console.error(formatIssue(issue)));
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+  console.log(`📁 Entry point: ${result.filePath}`);
+};
+
+export const updateInstanceCommand = async (instanceName: string, sourcePath: string) => {
+  const result = await updateInstanceTool.updateInstance(instanceName, sourcePath);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    result.issues?.forEach(issue => console.error(formatIssue(issue)));
+    printFailedRuns(result.runs);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+};
+
+export const bindBehaviorCommand = (instanceName: string, behaviorName: string) => {
+  const result = bindBehaviorTool.bindBehavior(instanceName, behaviorName);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    printFailedRuns(result.runs);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+};
+
+export const unbindBehaviorCommand = (instanceName: string, behaviorName: string) => {
+  const result = bindBehaviorTool.unbindBehavior(instanceName, behaviorName);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+};
+
+export const searchInstancesCommand = async (query: string, options: SearchInstancesOptions = {}) => {
+  const result = options.semantic
+    ? await searchInstancesTool.searchInstancesSemantic(query)
+    : searchInstancesTool.searchInstances(query);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  const matches = result.matches ?? [];
+  if (matches.length === 0) {
+    console.log(`No instances found matching '${query}'.`);
+    return;
+  }
+
+  console.log(`🔍 ${result.message}:`);
+  matches.forEach(match => {
+    const binding = match.typeNamespace ? ` : ${match.typeNamespace}` : ' (unbound)';
+    console.log(`  ${match.instanceName}${binding}`);
+    if (match.matchedSymbols.length > 0) {
+      console.log(`    🔗 matching symbols: ${match.matchedSymbols.join(', ')}`);
+    }
+  });
+};
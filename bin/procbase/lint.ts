@@ -0,0 +1,26 @@
+import { lintProcbaseTool } from '../../server/tools/lint-procbase';
+import { formatIssue } from './format';
+
+type LintOptions = {
+  fix?: boolean;
+};
+
+export const lintCommand = (options: LintOptions = {}) => {
+  const result = lintProcbaseTool.lintProcbase(options);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  result.fixedFiles?.forEach(file => console.log(`📝 Fixed ${file}`));
+
+  const issues = result.issues ?? [];
+  if (issues.length > 0) {
+    console.error(`❌ ${result.message}`);
+    issues.forEach(issue => console.error(`${formatIssue(issue)}${issue.fix ? ' (fixable)' : ''}`));
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+};
@@ -0,0 +1,94 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { addTypeTool } from '../../server/tools/add-type';
+import { getTypeTool } from '../../server/tools/get-type';
+import { searchTypesTool } from '../../server/tools/search-types';
+import { formatIssue } from './format';
+
+type AddTypeOptions = {
+  namespace?: string;
+};
+
+type SearchTypesOptions = {
+  semantic?: boolean;
+};
+
+export const addTypeCommand = async (filePath: string, options: AddTypeOptions = {}) => {
+  const absolutePath = path.resolve(filePath);
+
+  if (!fs.existsSync(absolutePath)) {
+    console.error(`Error: File not found: ${filePath}`);
+    process.exit(1);
+  }
+
+  const code = fs.readFileSync(absolutePath, 'utf8');
+  const namespace = options.namespace ?? path.basename(absolutePath, path.extname(absolutePath));
+
+  // addType validates the code before writing anything
+  const result = await addTypeTool.addType(code, namespace);
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    result.issues?.forEach(issue => console.error(formatIssue(issue)));
+    process.exit(1);
+  }
+
+  console.log(`✅ ${result.message}`);
+
+  const added = getTypeTool.getType(namespace);
+  if (added.exports && added.exports.length > 0) {
+    console.log(`🔹 Indexed exports: ${added.exports.join(', ')}`);
+  }
+};
+
+const searchTypesSemanticCommand = async (query: string) => {
+  const result = await searchTypesTool.searchTypesSemantic(query);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  const matches = result.matches ?? [];
+  if (matches.length === 0) {
+    console.log(`No types found related to '${query}'.`);
+    return;
+  }
+
+  console.log(`🔍 ${result.message}:`);
+  matches.forEach(match => {
+    const subtype = match.subtype ? `: ${match.subtype}` : '';
+    console.log(`  ${match.namespace} › ${match.name} (${match.kind})${subtype} [${match.relevance.toFixed(2)}]`);
+    if (match.description) {
+      console.log(`    📝 ${match.description}`);
+    }
+  });
+};
+
+export const searchTypesCommand = async (query: string, options: SearchTypesOptions = {}) => {
+  if (options.semantic) {
+    await searchTypesSemanticCommand(query);
+    return;
+  }
+
+  const result = searchTypesTool.searchTypes(query);
+
+  if (!result.success) {
+    console.error(`❌ ${result.message}`);
+    process.exit(1);
+  }
+
+  const matches = result.matches ?? [];
+  if (matches.length === 0) {
+    console.log(`No types found matching '${query}'.`);
+    return;
+  }
+
+  console.log(`🔍 ${result.message}:`);
+  matches.forEach(match => {
+    const location = `[${match.sourceLocation.line}:${match.sourceLocation.column}]`;
+    console.log(`  ${match.namespace} › ${match.name}: ${match.symbolType} ${location}`);
+    if (match.documentation) {
+      console.log(`    📝 ${match.documentation}`);
+    }
+  });
+};
@@ -4,6 +4,7 @@ import type { SymbolInfo } from '@t/project/SymbolInfo';
 import getSymbol from '@f/createProjectSymbolTable/getSymbol';
 import getAllFiles from '@f/createProjectSymbolTable/getAllFiles';
 import getFileSymbols from '@f/createProjectSymbolTable/getFileSymbols';
+import parseSymbolId from '@f/extractSymbols/parseSymbolId';
 
 /**
  * 依赖图选项
@@ -25,13 +26,25 @@ export type ImpactAnalysis = {
 };
 
 /**
- * 从符号全名中提取符号名称（不包含文件路径）
- * @param fullSymbolName - 完整的符号名称（格式：file:path:symbol）
+ * 从符号标识中提取符号名称（不包含模块路径和声明种类）
+ * @param fullSymbolName - 符号标识（格式：模块路径#名称:声明种类）
  * @returns 符号名称
  */
 const extractSymbolName = (fullSymbolName: string): string => {
-  const lastColonIndex = fullSymbolName.lastIndexOf(':');
-  return lastColonIndex !== -1 ? fullSymbolName.slice(lastColonIndex + 1) : fullSymbolName;
+  return parseSymbolId(fullSymbolName)?.name ?? fullSymbolName;
+};
+
+/**
+ * 按文件和名称查找符号，返回附在名称后的类型说明
+ * @param symbolTable - 符号表
+ * @param fileName - 文件名
+ * @param name - 符号名称
+ * @returns 形如 ` (类型)` 的说明，找不到符号时为空字符串
+ */
+const describeSymbolType = (symbolTable: ProjectSymbolTableState, fileName: string, name: string): string => {
+  const symbols = getFileSymbols(symbolTable, fileName)?.symbols;
+  const symbolInfo = symbols?.exports.get(name) ?? symbols?.internal.get(name);
+  return symbolInfo ? ` (${symbolInfo.type})` : '';
 };
 
 /**
@@ -67,9 +80,7 @@ export const generateDetailedReport = (result: TreeShakingResult): string => {
   result.includedByFile.forEach((symbols, fileName) => {
     lines.push(`  📁 ${fileName}:`);
     symbols.forEach(symbol => {
-      const fullName = `${fileName}:${symbol}`;
-      const symbolInfo = getSymbol(result.symbolTable, fullName);
-      const typeInfo = symbolInfo ? ` (${symbolInfo.type})` : '';
+      const typeInfo = describeSymbolType(result.symbolTable, fileName, symbol);
       lines.push(`    - ${symbol}${typeInfo}`);
     });
     lines.push('');
@@ -80,9 +91,7 @@ export const generateDetailedReport = (result: TreeShakingResult): string => {
   result.unusedByFile.forEach((symbols, fileName) => {
     lines.push(`  📁 ${fileName}:`);
     symbols.forEach(symbol => {
-      const fullName = `${fileName}:${symbol}`;
-      const symbolInfo = getSymbol(result.symbolTable, fullName);
-      const typeInfo = symbolInfo ? ` (${symbolInfo.type})` : '';
+      const typeInfo = describeSymbolType(result.symbolTable, fileName, symbol);
       lines.push(`    - ${symbol}${typeInfo}`);
     });
     lines.push('');
@@ -252,9 +261,7 @@ export const generateMarkdownReport = (result: TreeShakingResult): string => {
     lines.push(`### 📁 ${fileName}`);
     lines.push('');
     symbols.forEach(symbol => {
-      const fullName = `${fileName}:${symbol}`;
-      const symbolInfo = getSymbol(result.symbolTable, fullName);
-      const typeInfo = symbolInfo ? ` (${symbolInfo.type})` : '';
+      const typeInfo = describeSymbolType(result.symbolTable, fileName, symbol);
       lines.push(`- \`${symbol}\`${typeInfo}`);
     });
     lines.push('');
@@ -267,9 +274,7 @@ export const generateMarkdownReport = (result: TreeShakingResult): string => {
     lines.push(`### 📁 ${fileName}`);
     lines.push('');
     symbols.forEach(symbol => {
-      const fullName = `${fileName}:${symbol}`;
-      const symbolInfo = getSymbol(result.symbolTable, fullName);
-      const typeInfo = symbolInfo ? ` (${symbolInfo.type})` : '';
+      const typeInfo = describeSymbolType(result.symbolTable, fileName, symbol);
       lines.push(`- \`${symbol}\`${typeInfo}`);
     });
     lines.push('');
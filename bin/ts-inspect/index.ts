@@ -2,6 +2,7 @@ import { join, dirname, basename, extname } from 'path';
 import { existsSync, readdirSync, writeFileSync, unlinkSync } from 'fs';
 import analyzeProject from '@f/analyzeProject';
 import performTreeShaking from '@f/performTreeShaking';
+import parseSymbolId from '@f/extractSymbols/parseSymbolId';
 import createDefaultOptions from '@f/createProjectContext/createDefaultOptions';
 import fromConfig from '@f/createProjectContext/fromConfig';
 import fromFiles from '@f/createProjectContext/fromFiles';
@@ -32,6 +33,7 @@ export type CLIOptions = {
   graph: boolean;
   includeNodeModules: boolean;  // 是否包含 node_modules 中的依赖
   includeSystemSymbols: boolean;  // 是否包含系统符号（如内置类型）
+  runtimeOnly?: boolean;  // 是否只保留运行时依赖，忽略仅类型引用
   compilerOptions?: any;
 };
 
@@ -87,7 +89,7 @@ export const runAnalysis = async (options: CLIOptions): Promise<void> => {
     // 执行 Tree Shaking 分析
     const result = performTreeShaking(analysisResult, options.entryPoints, {
       includeInternalSymbols: options.includeNodeModules,
-      followTypeOnlyImports: options.includeSystemSymbols
+      followTypeOnlyImports: !options.runtimeOnly
     });
     
     console.log('✅ 分析完成!');
@@ -127,7 +129,7 @@ export const runAnalysis = async (options: CLIOptions): Promise<void> => {
       const largest = findLargestSymbols(result.symbolTable, 5);
       console.log('📊 依赖最多的符号:');
       largest.forEach((item, index) => {
-        console.log(`  ${index + 1}. ${item.symbol.split(':')[1]} (${item.dependencyCount} 个依赖)`);
+        console.log(`  ${index + 1}. ${parseSymbolId(item.symbol)?.name ?? item.symbol} (${item.dependencyCount} 个依赖)`);
       });
       console.log('');
     }
@@ -276,6 +278,9 @@ export const parseArgs = (args: string[]): CLIOptions => {
       case '--include-system-symbols':
         options.includeSystemSymbols = true;
         break;
+      case '--runtime-only':
+        options.runtimeOnly = true;
+        break;
       case '--help':
       case '-h':
         printHelp();
@@ -309,6 +314,7 @@ export const printHelp = (): void => {
   --graph                      输出依赖关系邻接表
   --include-node-modules       包含 node_modules 中的依赖
   --include-system-symbols     包含系统符号（如内置类型）
+  --runtime-only               只沿运行时依赖计算闭包，忽略仅类型引用
   -h, --help                   显示帮助信息
 
 示例:
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { checkEmbeddingConfig, loadProcbaseConfig, DEFAULT_PROCBASE_CONFIG } from '../config';
+
+describe('checkEmbeddingConfig', () => {
+  it('应该接受 hashed 和 http 配置', () => {
+    expect(checkEmbeddingConfig({ provider: 'hashed', dimensions: 256 })).toEqual({ provider: 'hashed', dimensions: 256 });
+    expect(checkEmbeddingConfig({
+      provider: 'http',
+      url: 'http://localhost:11434/v1/embeddings',
+      model: 'nomic-embed-text',
+      timeoutMs: 5000
+    })).toEqual({
+      provider: 'http',
+      url: 'http://localhost:11434/v1/embeddings',
+      model: 'nomic-embed-text',
+      timeoutMs: 5000
+    });
+  });
+
+  it('应该拒绝非正整数的维度', () => {
+    [0, -8, 1.5, '512'].forEach(dimensions => {
+      expect(() => checkEmbeddingConfig({ provider: 'hashed', dimensions })).toThrow('dimensions');
+    });
+  });
+
+  it('应该拒绝缺少 url 或 model 的 http 配置', () => {
+    expect(() => checkEmbeddingConfig({ provider: 'http', model: 'm' })).toThrow('url');
+    expect(() => checkEmbeddingConfig({ provider: 'http', url: 'http://localhost/v1/embeddings' })).toThrow('model');
+    expect(() => checkEmbeddingConfig({ provider: 'http', url: 'not a url', model: 'm' })).toThrow('url');
+  });
+
+  it('应该拒绝未知的提供者和非对象的配置', () => {
+    expect(() => checkEmbeddingConfig({ provider: 'lancedb' })).toThrow(`expected 'hashed' or 'http'`);
+    expect(() => checkEmbeddingConfig('hashed')).toThrow('Invalid embedding config');
+    expect(() => checkEmbeddingConfig(null)).toThrow('Invalid embedding config');
+  });
+});
+
+describe('loadProcbaseConfig', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'procbase-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const writePackageJson = (content: unknown) => {
+    fs.writeFileSync(path.join(root, 'package.json'), JSON.stringify(content));
+  };
+
+  it('没有 package.json 或 procbase 配置时应该使用默认值', () => {
+    expect(loadProcbaseConfig(root)).toEqual(DEFAULT_PROCBASE_CONFIG);
+    writePackageJson({ name: 'demo' });
+    expect(loadProcbaseConfig(root)).toEqual(DEFAULT_PROCBASE_CONFIG);
+  });
+
+  it('应该读取并校验 procbase.embedding', () => {
+    writePackageJson({ procbase: { embedding: { provider: 'hashed', dimensions: 64 } } });
+    expect(loadProcbaseConfig(root).embedding).toEqual({ provider: 'hashed', dimensions: 64 });
+
+    writePackageJson({ procbase: { embedding: { provider: 'hashed', dimensions: 0 } } });
+    expect(() => loadProcbaseConfig(root)).toThrow('dimensions');
+  });
+});
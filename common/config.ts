@@ -0,0 +1,76 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+
+export type EmbeddingConfig =
+  | {
+      provider: 'hashed';
+      dimensions?: number;
+    }
+  | {
+      provider: 'http';
+      // OpenAI-compatible embeddings endpoint, e.g. http://localhost:11434/v1/embeddings
+      url: string;
+      model: string;
+      // Name of the environment variable holding the API key, never the key itself
+      apiKeyEnv?: string;
+      batchSize?: number;
+      // Abort a request that takes longer, so a hung endpoint cannot stall re-indexing
+      timeoutMs?: number;
+    };
+
+export type ProcbaseConfig = {
+  embedding: EmbeddingConfig;
+};
+
+export const DEFAULT_PROCBASE_CONFIG: ProcbaseConfig = {
+  embedding: { provider: 'hashed' }
+};
+
+const positiveInteger = z.number().int().positive();
+
+const embeddingConfigSchema: z.ZodType<EmbeddingConfig> = z.discriminatedUnion('provider', [
+  z.object({
+    provider: z.literal('hashed'),
+    dimensions: positiveInteger.optional()
+  }),
+  z.object({
+    provider: z.literal('http'),
+    url: z.string().url(),
+    model: z.string().min(1),
+    apiKeyEnv: z.string().min(1).optional(),
+    batchSize: positiveInteger.optional(),
+    timeoutMs: positiveInteger.optional()
+  })
+], {
+  errorMap: (issue, ctx) => issue.code === 'invalid_union_discriminator'
+    ? { message: `Unknown embedding provider; expected 'hashed' or 'http'` }
+    : { message: ctx.defaultError }
+});
+
+export const checkEmbeddingConfig = (embedding: unknown): EmbeddingConfig => {
+  const result = embeddingConfigSchema.safeParse(embedding);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => `${issue.path.join('.') || 'embedding'}: ${issue.message}`);
+    throw new Error(`Invalid embedding config: ${problems.join('; ')}`);
+  }
+  return result.data;
+};
+
+/**
+ * Load the procbase settings kept under the "procbase" key of its package.json,
+ * falling back to the defaults for anything left out
+ */
+export const loadProcbaseConfig = (procbaseRoot: string): ProcbaseConfig => {
+  const packageJsonPath = path.join(procbaseRoot, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) {
+    return DEFAULT_PROCBASE_CONFIG;
+  }
+
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+  const config = packageJson.procbase ?? {};
+
+  return {
+    embedding: config.embedding ? checkEmbeddingConfig(config.embedding) : DEFAULT_PROCBASE_CONFIG.embedding
+  };
+};
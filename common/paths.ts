@@ -55,4 +55,70 @@ export const hasCurrentProcbase = (): boolean => {
   } catch {
     return false;
   }
-}; 
\ No newline at end of file
+}; 
+/**
+ * Resolve a dot-separated type namespace (e.g. `Procbase.TypeScriptProject`)
+ * to its file under the `types/` directory of the given procbase
+ */
+export const getTypeFilePath = (procbaseRoot: string, namespace: string): string => {
+  const namespaceParts = namespace.split('.');
+  const fileName = namespaceParts.pop() + '.ts';
+  return path.join(procbaseRoot, 'types', ...namespaceParts, fileName);
+};
+
+/**
+ * Convert a file under the `types/` directory back to its dot-separated namespace
+ */
+export const getTypeNamespace = (procbaseRoot: string, filePath: string): string => {
+  const relativePath = path.relative(path.join(procbaseRoot, 'types'), filePath);
+  return relativePath.replace(/\.tsx?$/, '').split(path.sep).join('.');
+};
+
+// A plain folder name: no separators, no `.` or `..`
+const FOLDER_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * Check that an instance or behavior name is safe to use as its folder under the procbase
+ */
+export const checkFolderName = (kind: 'instance' | 'behavior', name: string): string | null => {
+  if (!FOLDER_NAME_PATTERN.test(name)) {
+    return `Invalid ${kind} name '${name}'. Use letters, digits, '-' and '_' only.`;
+  }
+  return null;
+};
+
+/**
+ * Get the folder of a named instance under the `instances/` directory of the given procbase
+ */
+export const getInstanceDirPath = (procbaseRoot: string, instanceName: string): string => {
+  return path.join(procbaseRoot, 'instances', instanceName);
+};
+
+/**
+ * Get the folder holding the canonical copy of a named behavior in the given procbase
+ */
+export const getBehaviorDirPath = (procbaseRoot: string, behaviorName: string): string => {
+  return path.join(procbaseRoot, 'behaviors', behaviorName);
+};
+
+/**
+ * Get the folder a behavior is installed into when it is bound to an instance
+ */
+export const getInstalledBehaviorDirPath = (procbaseRoot: string, instanceName: string, behaviorName: string): string => {
+  return path.join(getInstanceDirPath(procbaseRoot, instanceName), '__tests__', behaviorName);
+};
+
+/**
+ * Whether a file lies in the `__tests__` folder of an instance, where bound behavior suites are installed
+ */
+export const isInstanceTestPath = (procbaseRoot: string, filePath: string): boolean => {
+  const [area, instanceName, folder] = path.relative(procbaseRoot, filePath).split(path.sep);
+  return area === 'instances' && instanceName !== undefined && folder === '__tests__';
+};
+
+/**
+ * Get the file backing a named semantic vector index in the given procbase
+ */
+export const getSemanticIndexPath = (procbaseRoot: string, indexName: string): string => {
+  return path.join(procbaseRoot, 'lancedb', `${indexName}.vectors`);
+};
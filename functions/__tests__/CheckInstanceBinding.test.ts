@@ -0,0 +1,57 @@
+import { describe, it, expect } from "bun:test";
+import checkInstanceBinding from '../checkInstanceBinding';
+import { createMultiFileProgram } from './helpers/TestProgram';
+
+const typeFile = `
+  export type Vec = { x: number; y: number };
+`;
+
+/**
+ * 检查 index.ts 的默认导出是否满足 vec.ts 中的 Vec 类型，返回违反的规则
+ */
+const checkRules = (instanceSource: string, typeName = 'Vec'): string[] => {
+  const program = createMultiFileProgram({
+    files: {
+      'vec.ts': typeFile,
+      'index.ts': instanceSource
+    }
+  });
+  return checkInstanceBinding(program, 'index.ts', 'vec.ts', typeName).map(issue => issue.rule);
+};
+
+describe('checkInstanceBinding', () => {
+  it('应该接受可以赋值给绑定类型的默认导出', () => {
+    expect(checkRules(`
+      import type { Vec } from './vec.ts';
+      const origin: Vec = { x: 0, y: 0 };
+      export default origin;
+    `)).toEqual([]);
+
+    expect(checkRules(`
+      export default { x: 1, y: 2 };
+    `)).toEqual([]);
+  });
+
+  it('应该拒绝不能赋值给绑定类型的默认导出', () => {
+    expect(checkRules(`
+      export default { x: 1 };
+    `)).toEqual(['bound-type']);
+  });
+
+  it('应该要求单一默认导出', () => {
+    expect(checkRules(`
+      export const helper = 1;
+      export default { x: 1, y: 2 };
+    `)).toEqual(['single-default-export']);
+
+    expect(checkRules(`
+      const origin = { x: 0, y: 0 };
+    `)).toEqual(['single-default-export']);
+  });
+
+  it('应该拒绝不存在的绑定类型', () => {
+    expect(checkRules(`
+      export default { x: 1, y: 2 };
+    `, 'Missing')).toEqual(['bound-type']);
+  });
+});
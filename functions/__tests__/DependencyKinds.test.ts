@@ -0,0 +1,68 @@
+import { describe, it, expect } from "bun:test";
+import extractSymbolsFromFile from '../extractSymbols';
+import { createProjectSymbolTable, addFileSymbols, calculateClosure } from '../index';
+import { createSingleFileProgram } from './helpers/TestProgram';
+
+const sourceCode = `
+  interface Shape { area(): number }
+  interface Solid extends Shape { volume(): number }
+  class Base {}
+  const unit = 1;
+  const measure = (shape: Shape) => shape.area() * unit;
+  class Square extends Base implements Shape {
+    area() { return unit; }
+  }
+  export function main(): Shape {
+    const sample: typeof unit = unit;
+    measure(new Square());
+    return new Square();
+  }
+`;
+
+// 未指定根目录提取时，符号标识以文件名为模块路径
+const id = (name: string, declarationKind: string) => `main.ts#${name}:${declarationKind}`;
+
+/**
+ * 提取 main.ts 的符号并建立符号表
+ */
+const analyze = () => {
+  const program = createSingleFileProgram({ sourceCode, fileName: 'main.ts' });
+  const symbols = extractSymbolsFromFile(program.getSourceFile('main.ts')!, program.getTypeChecker());
+  const symbolTable = createProjectSymbolTable();
+  addFileSymbols(symbolTable, { fileName: 'main.ts', symbols });
+  return { symbols, symbolTable };
+};
+
+describe('依赖边的种类', () => {
+  it('应该区分类型引用、读取、调用和构造', () => {
+    const { symbols } = analyze();
+    const kinds = (name: string, dependency: string) => {
+      const symbol = symbols.exports.get(name) ?? symbols.internal.get(name);
+      return Array.from(symbol?.dependencyKinds?.get(dependency) ?? []).sort();
+    };
+
+    expect(kinds('main', id('Shape', 'interface'))).toEqual(['type']);
+    expect(kinds('main', id('unit', 'variable'))).toEqual(['read', 'typeof']);
+    expect(kinds('main', id('measure', 'variable'))).toEqual(['call']);
+    expect(kinds('main', id('Square', 'class'))).toEqual(['new']);
+    expect(kinds('Square', id('Base', 'class'))).toEqual(['extends']);
+    expect(kinds('Square', id('Shape', 'interface'))).toEqual(['implements']);
+    expect(kinds('Solid', id('Shape', 'interface'))).toEqual(['type']);
+  });
+
+  it('不跟踪仅类型导入时应该只沿运行时依赖计算闭包', () => {
+    const { symbolTable } = analyze();
+
+    const full = calculateClosure(symbolTable, [id('main', 'function')]);
+    expect(full.has(id('Shape', 'interface'))).toBe(true);
+
+    const runtime = calculateClosure(symbolTable, [id('main', 'function')], { followTypeOnlyImports: false });
+    expect(Array.from(runtime).sort()).toEqual([
+      id('Base', 'class'),
+      id('Square', 'class'),
+      id('main', 'function'),
+      id('measure', 'variable'),
+      id('unit', 'variable')
+    ]);
+  });
+});
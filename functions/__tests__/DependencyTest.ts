@@ -41,7 +41,7 @@ describe('Dependency Analysis', () => {
       {
         name: '应该正确检测跨文件依赖',
         files: {
-          'user.ts': `
+          '/user.ts': `
             export interface User {
               id: string;
               name: string;
@@ -53,7 +53,7 @@ describe('Dependency Analysis', () => {
               }
             }
           `,
-          'config.ts': `
+          '/config.ts': `
             export interface Config {
               apiUrl: string;
               timeout: number;
@@ -64,7 +64,7 @@ describe('Dependency Analysis', () => {
               timeout: 5000
             };
           `,
-          'main.ts': `
+          '/main.ts': `
             import { User, UserService } from './user.ts';
             import { Config, defaultConfig } from './config.ts';
             
@@ -79,7 +79,7 @@ describe('Dependency Analysis', () => {
           `
         },
         assertions: (_, symbolTable) => {
-          const mainSymbols = symbolTable.fileSymbols.get('main.ts');
+          const mainSymbols = symbolTable.fileSymbols.get('/main.ts');
           expect(mainSymbols).toBeDefined();
 
           const createUserSymbol = mainSymbols!.symbols.exports.get('createUser');
@@ -90,12 +90,12 @@ describe('Dependency Analysis', () => {
           console.log(`createUser 的依赖: ${dependencies.join(', ')}`);
 
           // 测试符号闭包计算
-          const closure = calculateClosure(symbolTable, ['main.ts:createUser']);
+          const closure = calculateClosure(symbolTable, ['/main.ts#createUser:function']);
           console.log(`符号闭包大小: ${closure.size}`);
           console.log(`闭包内容: ${Array.from(closure).join(', ')}`);
 
           // 验证闭包包含必要的符号
-          expect(closure.has('main.ts:createUser')).toBe(true);
+          expect(closure.has('/main.ts#createUser:function')).toBe(true);
           expect(closure.size).toBeGreaterThan(1);
         }
       }
@@ -111,14 +111,14 @@ describe('Dependency Analysis', () => {
       {
         name: '应该检测循环依赖',
         files: {
-          'a.ts': `
+          '/a.ts': `
             import { b } from './b.ts';
             
             export function a(): string {
               return 'a' + b();
             }
           `,
-          'b.ts': `
+          '/b.ts': `
             import { a } from './a.ts';
             
             export function b(): string {
@@ -127,8 +127,8 @@ describe('Dependency Analysis', () => {
           `
         },
         assertions: (_, symbolTable) => {
-          const aSymbols = symbolTable.fileSymbols.get('a.ts');
-          const bSymbols = symbolTable.fileSymbols.get('b.ts');
+          const aSymbols = symbolTable.fileSymbols.get('/a.ts');
+          const bSymbols = symbolTable.fileSymbols.get('/b.ts');
 
           expect(aSymbols).toBeDefined();
           expect(bSymbols).toBeDefined();
@@ -159,7 +159,7 @@ describe('Dependency Analysis', () => {
       {
         name: '应该正确处理复杂的依赖关系',
         files: {
-          'types.ts': `
+          '/types.ts': `
             export type UserRole = 'admin' | 'user' | 'guest';
             
             export interface User {
@@ -174,7 +174,7 @@ describe('Dependency Analysis', () => {
               message?: string;
             }
           `,
-          'utils.ts': `
+          '/utils.ts': `
             import { UserRole } from './types.ts';
             
             export function validateRole(role: UserRole): boolean {
@@ -185,7 +185,7 @@ describe('Dependency Analysis', () => {
               return name.trim().toUpperCase();
             }
           `,
-          'api.ts': `
+          '/api.ts': `
             import { User, ApiResponse } from './types.ts';
             import { validateRole, formatUserName } from './utils.ts';
             
@@ -208,7 +208,7 @@ describe('Dependency Analysis', () => {
               };
             }
           `,
-          'index.ts': `
+          '/index.ts': `
             import { fetchUser, processUser } from './api.ts';
             import { User } from './types.ts';
             
@@ -223,26 +223,26 @@ describe('Dependency Analysis', () => {
         },
         assertions: (_, symbolTable) => {
           // 验证类型定义
-          const typesSymbols = symbolTable.fileSymbols.get('types.ts');
+          const typesSymbols = symbolTable.fileSymbols.get('/types.ts');
           expect(typesSymbols).toBeDefined();
           expect(typesSymbols!.symbols.exports.has('UserRole')).toBe(true);
           expect(typesSymbols!.symbols.exports.has('User')).toBe(true);
           expect(typesSymbols!.symbols.exports.has('ApiResponse')).toBe(true);
 
           // 验证工具函数
-          const utilsSymbols = symbolTable.fileSymbols.get('utils.ts');
+          const utilsSymbols = symbolTable.fileSymbols.get('/utils.ts');
           expect(utilsSymbols).toBeDefined();
           expect(utilsSymbols!.symbols.exports.has('validateRole')).toBe(true);
           expect(utilsSymbols!.symbols.exports.has('formatUserName')).toBe(true);
 
           // 验证 API 函数
-          const apiSymbols = symbolTable.fileSymbols.get('api.ts');
+          const apiSymbols = symbolTable.fileSymbols.get('/api.ts');
           expect(apiSymbols).toBeDefined();
           expect(apiSymbols!.symbols.exports.has('fetchUser')).toBe(true);
           expect(apiSymbols!.symbols.exports.has('processUser')).toBe(true);
 
           // 验证主函数
-          const indexSymbols = symbolTable.fileSymbols.get('index.ts');
+          const indexSymbols = symbolTable.fileSymbols.get('/index.ts');
           expect(indexSymbols).toBeDefined();
           expect(indexSymbols!.symbols.exports.has('main')).toBe(true);
 
@@ -252,14 +252,14 @@ describe('Dependency Analysis', () => {
           expect(mainSymbol!.dependencies.size).toBeGreaterThan(0);
 
           // 计算主函数的依赖闭包
-          const closure = calculateClosure(symbolTable, ['index.ts:main']);
+          const closure = calculateClosure(symbolTable, ['/index.ts#main:function']);
           console.log(`主函数依赖闭包大小: ${closure.size}`);
           console.log(`闭包内容: ${Array.from(closure).join(', ')}`);
 
           // 验证闭包包含所有必要的依赖
-          expect(closure.has('index.ts:main')).toBe(true);
-          expect(closure.has('api.ts:fetchUser')).toBe(true);
-          expect(closure.has('api.ts:processUser')).toBe(true);
+          expect(closure.has('/index.ts#main:function')).toBe(true);
+          expect(closure.has('/api.ts#fetchUser:function')).toBe(true);
+          expect(closure.has('/api.ts#processUser:function')).toBe(true);
           expect(closure.size).toBeGreaterThan(5);
         }
       }
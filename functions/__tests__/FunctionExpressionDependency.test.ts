@@ -41,11 +41,11 @@ describe('Function Expression Dependencies', () => {
       {
         name: '应该正确分析箭头函数中的依赖',
         files: {
-          'utils.ts': `
+          '/utils.ts': `
             export const add = (a: number, b: number) => a + b;
             export const multiply = (a: number, b: number) => a * b;
           `,
-          'math.ts': `
+          '/math.ts': `
             import { add, multiply } from './utils.ts';
             
             // 箭头函数使用外部依赖
@@ -63,15 +63,15 @@ describe('Function Expression Dependencies', () => {
           `
         },
         assertions: (_, symbolTable) => {
-          const mathSymbols = symbolTable.fileSymbols.get('math.ts');
+          const mathSymbols = symbolTable.fileSymbols.get('/math.ts');
           expect(mathSymbols).toBeDefined();
 
           // 测试 calculate 函数的依赖
           const calculateSymbol = mathSymbols!.symbols.exports.get('calculate');
           expect(calculateSymbol).toBeDefined();
           const calculateDeps = Array.from(calculateSymbol!.dependencies);
-          expect(calculateDeps).toContain('utils.ts:add');
-          expect(calculateDeps).toContain('utils.ts:multiply');
+          expect(calculateDeps).toContain('/utils.ts#add:variable');
+          expect(calculateDeps).toContain('/utils.ts#multiply:variable');
 
           // 测试 processNumbers 函数的依赖
           const processNumbersSymbol = mathSymbols!.symbols.exports.get('processNumbers');
@@ -93,10 +93,10 @@ describe('Function Expression Dependencies', () => {
       {
         name: '应该正确分析函数表达式中的依赖',
         files: {
-          'logger.ts': `
+          '/logger.ts': `
             export const log = (message: string) => console.log(message);
           `,
-          'service.ts': `
+          '/service.ts': `
             import { log } from './logger.ts';
             
             // 普通函数表达式使用外部依赖
@@ -127,20 +127,20 @@ describe('Function Expression Dependencies', () => {
           `
         },
         assertions: (_, symbolTable) => {
-          const serviceSymbols = symbolTable.fileSymbols.get('service.ts');
+          const serviceSymbols = symbolTable.fileSymbols.get('/service.ts');
           expect(serviceSymbols).toBeDefined();
 
           // 测试 createService 函数的依赖
           const createServiceSymbol = serviceSymbols!.symbols.exports.get('createService');
           expect(createServiceSymbol).toBeDefined();
           const createServiceDeps = Array.from(createServiceSymbol!.dependencies);
-          expect(createServiceDeps).toContain('logger.ts:log');
+          expect(createServiceDeps).toContain('/logger.ts#log:variable');
 
           // 测试 processData 函数的依赖
           const processDataSymbol = serviceSymbols!.symbols.exports.get('processData');
           expect(processDataSymbol).toBeDefined();
           const processDataDeps = Array.from(processDataSymbol!.dependencies);
-          expect(processDataDeps).toContain('logger.ts:log');
+          expect(processDataDeps).toContain('/logger.ts#log:variable');
         }
       }
     ];
@@ -155,12 +155,12 @@ describe('Function Expression Dependencies', () => {
       {
         name: '应该正确分析混合函数定义中的依赖',
         files: {
-          'helpers.ts': `
+          '/helpers.ts': `
             export function helper1(x: number) { return x * 2; }
             export const helper2 = (x: number) => x * 3;
             export const helper3 = function(x: number) { return x * 4; };
           `,
-          'main.ts': `
+          '/main.ts': `
             import { helper1, helper2, helper3 } from './helpers.ts';
             
             // 普通函数声明
@@ -188,7 +188,7 @@ describe('Function Expression Dependencies', () => {
           `
         },
         assertions: (_, symbolTable) => {
-          const mainSymbols = symbolTable.fileSymbols.get('main.ts');
+          const mainSymbols = symbolTable.fileSymbols.get('/main.ts');
           expect(mainSymbols).toBeDefined();
 
           // 测试各种函数定义的依赖
@@ -203,14 +203,14 @@ describe('Function Expression Dependencies', () => {
           expect(complexProcessSymbol).toBeDefined();
 
           // 检查依赖
-          expect(Array.from(process1Symbol!.dependencies)).toContain('helpers.ts:helper1');
-          expect(Array.from(process2Symbol!.dependencies)).toContain('helpers.ts:helper2');
-          expect(Array.from(process3Symbol!.dependencies)).toContain('helpers.ts:helper3');
+          expect(Array.from(process1Symbol!.dependencies)).toContain('/helpers.ts#helper1:function');
+          expect(Array.from(process2Symbol!.dependencies)).toContain('/helpers.ts#helper2:variable');
+          expect(Array.from(process3Symbol!.dependencies)).toContain('/helpers.ts#helper3:variable');
 
           const complexProcessDeps = Array.from(complexProcessSymbol!.dependencies);
-          expect(complexProcessDeps).toContain('main.ts:process1');
-          expect(complexProcessDeps).toContain('main.ts:process2');
-          expect(complexProcessDeps).toContain('main.ts:process3');
+          expect(complexProcessDeps).toContain('/main.ts#process1:function');
+          expect(complexProcessDeps).toContain('/main.ts#process2:variable');
+          expect(complexProcessDeps).toContain('/main.ts#process3:variable');
         }
       }
     ];
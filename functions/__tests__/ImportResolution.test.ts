@@ -0,0 +1,98 @@
+import { describe, it, expect } from "bun:test";
+import * as ts from 'typescript';
+import extractSymbolsFromFile from '../extractSymbols';
+import { createMultiFileProgram } from './helpers/TestProgram';
+import type { ImportInfo } from '@t/project/ImportInfo';
+
+/**
+ * 提取 /procbase/instances/demo/index.ts 的导入信息
+ */
+const getImports = (source: string): Map<string, ImportInfo> => {
+  const program = createMultiFileProgram({
+    files: {
+      '/procbase/types/Geometry.ts': 'export type Vec = { x: number; y: number };',
+      '/procbase/instances/origin/index.ts': 'export default { x: 0, y: 0 };',
+      '/procbase/instances/demo/helper.ts': 'export const scale = 2;',
+      '/procbase/node_modules/shapes/package.json': JSON.stringify({
+        name: 'shapes',
+        exports: { './circle': { types: './dist/circle.d.ts' } }
+      }),
+      '/procbase/node_modules/shapes/dist/circle.d.ts': 'export declare const radius: number;',
+      '/procbase/instances/demo/index.ts': source
+    },
+    compilerOptions: {
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      baseUrl: '/procbase',
+      paths: {
+        '@t/*': ['types/*'],
+        '@i/*': ['instances/*']
+      }
+    }
+  });
+  const sourceFile = program.getSourceFile('/procbase/instances/demo/index.ts')!;
+  return extractSymbolsFromFile(sourceFile, program.getTypeChecker()).imports;
+};
+
+describe('导入解析', () => {
+  it('应该按 paths 解析 @t/ 和 @i/ 别名并保留原始说明符', () => {
+    const imports = getImports(`
+      import type { Vec } from '@t/Geometry';
+      import origin from '@i/origin';
+    `);
+
+    expect(imports.get('Vec')).toMatchObject({
+      specifier: '@t/Geometry',
+      resolvedFile: '/procbase/types/Geometry.ts',
+      fromModule: '/procbase/types/Geometry.ts'
+    });
+    expect(imports.get('Vec')?.packageName).toBeUndefined();
+    expect(imports.get('origin')).toMatchObject({
+      specifier: '@i/origin',
+      resolvedFile: '/procbase/instances/origin/index.ts'
+    });
+  });
+
+  it('应该把相对导入解析为完整文件路径', () => {
+    const imports = getImports(`import { scale } from './helper';`);
+
+    expect(imports.get('scale')).toMatchObject({
+      specifier: './helper',
+      resolvedFile: '/procbase/instances/demo/helper.ts',
+      fromModule: '/procbase/instances/demo/helper.ts'
+    });
+  });
+
+  it('应该按包的 exports 映射解析并记录包名', () => {
+    const imports = getImports(`import { radius } from 'shapes/circle';`);
+
+    expect(imports.get('radius')).toMatchObject({
+      specifier: 'shapes/circle',
+      resolvedFile: '/procbase/node_modules/shapes/dist/circle.d.ts',
+      packageName: 'shapes'
+    });
+  });
+
+  it('应该把内置模块统一为 node: 包名', () => {
+    const imports = getImports(`
+      import { readFileSync } from 'fs';
+      import path from 'node:path';
+      import { Database } from 'bun:sqlite';
+    `);
+
+    expect(imports.get('readFileSync')).toMatchObject({ specifier: 'fs', packageName: 'node:fs', fromModule: 'node:fs' });
+    expect(imports.get('path')).toMatchObject({ specifier: 'node:path', packageName: 'node:path' });
+    expect(imports.get('Database')).toMatchObject({ specifier: 'bun:sqlite', packageName: 'bun:sqlite' });
+  });
+
+  it('应该把无法解析的裸说明符记为外部包', () => {
+    const imports = getImports(`import { z } from '@scope/missing/sub';`);
+
+    expect(imports.get('z')).toMatchObject({
+      specifier: '@scope/missing/sub',
+      packageName: '@scope/missing',
+      fromModule: '@scope/missing'
+    });
+    expect(imports.get('z')?.resolvedFile).toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "bun:test";
+import lintProcbaseFile from '../lintProcbaseFile';
+import applyValidationFixes from '../applyValidationFixes';
+import { createMultiFileProgram } from './helpers/TestProgram';
+
+const procbaseRoot = '/pb';
+
+const baseFiles: Record<string, string> = {
+  '/pb/types/Geo/Vec.ts': `export type Vec = { x: number; y: number };\nexport type Unit = 'm' | 'cm';`,
+  '/pb/instances/origin/index.ts': `export default { x: 0, y: 0 };`,
+  '/pb/instances/origin/helpers.ts': `export const zero = 0;\nexport type Zero = typeof zero;`
+};
+
+/**
+ * 对 /pb/instances/probe/index.ts 运行检查，返回问题及修复后的源码
+ */
+const lintProbe = (sourceCode: string, fileName = '/pb/instances/probe/index.ts') => {
+  const program = createMultiFileProgram({ files: { ...baseFiles, [fileName]: sourceCode } });
+  const issues = lintProcbaseFile(program, fileName, procbaseRoot);
+  const fixed = applyValidationFixes(sourceCode, issues.flatMap(issue => issue.fix ? [issue.fix] : []));
+  return { rules: issues.map(issue => issue.rule), issues, fixed: fixed.code };
+};
+
+describe('lintProcbaseFile', () => {
+  it('应该接受符合规则的文件', () => {
+    const { rules } = lintProbe(`
+      import fs from 'node:fs';
+      import type { Vec } from '@t/Geo/Vec';
+      import origin from '@i/origin';
+      import { zero } from './local';
+    `);
+    expect(rules).toEqual([]);
+  });
+
+  it('应该要求 Node 内置模块使用 node: 前缀并自动修复', () => {
+    const { rules, fixed } = lintProbe(`import fs from 'fs';\nimport { readFile } from "fs/promises";`);
+    expect(rules).toEqual(['node-protocol', 'node-protocol']);
+    expect(fixed).toBe(`import fs from 'node:fs';\nimport { readFile } from "node:fs/promises";`);
+  });
+
+  it('应该要求跨目录导入使用别名并自动修复', () => {
+    const { rules, fixed } = lintProbe(`import origin from '../origin';\nimport { zero } from '../origin/helpers';`);
+    expect(rules).toEqual(['alias-import', 'alias-import']);
+    expect(fixed).toBe(`import origin from '@i/origin';\nimport { zero } from '@i/origin/helpers';`);
+  });
+
+  it('应该要求纯类型使用 import type 并自动修复', () => {
+    const { rules, fixed } = lintProbe(`import { Vec } from '../../types/Geo/Vec';`);
+    expect(rules).toEqual(['type-only-import', 'alias-import']);
+    expect(fixed).toBe(`import type { Vec } from '@t/Geo/Vec';`);
+
+    expect(lintProbe(`import { type Vec } from '../../types/Geo/Vec';`).rules).toEqual(['alias-import']);
+    expect(lintProbe(`import { zero } from '../origin/helpers';`).rules).toEqual(['alias-import']);
+  });
+
+  it('全部说明符都只有类型时应该整体改写为 import type', () => {
+    const both = lintProbe(`import { Vec, Unit as Length } from '../../types/Geo/Vec';`);
+    expect(both.rules).toEqual(['type-only-import', 'type-only-import', 'alias-import']);
+    expect(both.fixed).toBe(`import type { Vec, Unit as Length } from '@t/Geo/Vec';`);
+
+    // Modifiers already on a specifier are not allowed inside import type
+    expect(lintProbe(`import { type Vec, Unit } from '../../types/Geo/Vec';`).fixed).toBe(`import type { Vec, Unit } from '@t/Geo/Vec';`);
+  });
+
+  it('值和类型混用时应该只给类型说明符加 type 修饰', () => {
+    const { rules, fixed } = lintProbe(`import { zero, Zero } from '../origin/helpers';`);
+    expect(rules).toEqual(['type-only-import', 'alias-import']);
+    expect(fixed).toBe(`import { zero, type Zero } from '@i/origin/helpers';`);
+  });
+
+  it('应该拒绝星号导入和 types 目录中的 index.ts', () => {
+    expect(lintProbe(`import * as helpers from './helpers';`).rules).toEqual(['no-star-import']);
+
+    const { issues } = lintProbe(`export type Shape = {};`, '/pb/types/Geo/index.ts');
+    expect(issues.map(issue => issue.rule)).toEqual(['no-index-in-types']);
+    expect(issues[0]?.fix).toBeUndefined();
+  });
+
+  it('应该允许类型文件相对导入同目录的类型', () => {
+    const { rules } = lintProbe(`import type { Vec } from './Vec';\nimport type { Other } from '../Other/Thing';`, '/pb/types/Geo/Line.ts');
+    expect(rules).toEqual(['alias-import']);
+  });
+});
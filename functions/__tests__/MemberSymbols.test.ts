@@ -0,0 +1,80 @@
+import { describe, it, expect } from "bun:test";
+import extractSymbolsFromFile from '../extractSymbols';
+import { createMultiFileProgram } from './helpers/TestProgram';
+
+const shapeFile = `
+  export interface Shape {
+    /** 面积 */
+    area(): number;
+    readonly name: string;
+  }
+  export class Base {
+    id = 0;
+  }
+`;
+
+const squareFile = `
+  import { type Shape, Base } from './shape';
+
+  const DEFAULT_SIDE = 1;
+
+  export enum Unit { Meter = 'm', Foot = 'ft' }
+
+  export class Square extends Base implements Shape {
+    readonly name = 'square';
+    constructor(private side: number = DEFAULT_SIDE) {
+      super();
+    }
+    /** 正方形的面积 */
+    area(): number {
+      return this.side * this.side;
+    }
+  }
+`;
+
+/**
+ * 提取 square.ts 的符号
+ */
+const extractSquare = (includeMembers: boolean) => {
+  const program = createMultiFileProgram({
+    files: {
+      '/shape.ts': shapeFile,
+      '/square.ts': squareFile
+    }
+  });
+  return extractSymbolsFromFile(program.getSourceFile('/square.ts')!, program.getTypeChecker(), {
+    includeNodeModules: false,
+    includeSystemSymbols: false,
+    includeMembers
+  });
+};
+
+describe('成员符号', () => {
+  it('默认不提取成员', () => {
+    const result = extractSquare(false);
+    expect(Array.from(result.exports.keys()).sort()).toEqual(['Square', 'Unit']);
+  });
+
+  it('应该提取类和枚举的成员', () => {
+    const result = extractSquare(true);
+
+    const area = result.exports.get('Square.area');
+    expect(area?.memberOf).toBe('Square');
+    expect(area?.type).toBe('() => number');
+    expect(area?.documentation).toBe('正方形的面积');
+    expect(area?.sourceLocation.line).toBe(13);
+
+    expect(result.exports.get('Square.name')?.type).toBe('"square"');
+    expect(result.exports.get('Unit.Meter')?.memberOf).toBe('Unit');
+    expect(result.exports.get('Unit.Foot')?.type).toBe('Unit.Foot');
+  });
+
+  it('应该记录 extends 和 implements 关系', () => {
+    const result = extractSquare(false);
+
+    const square = result.exports.get('Square');
+    expect(square?.extends).toEqual(new Set(['/shape.ts#Base:class']));
+    expect(square?.implements).toEqual(new Set(['/shape.ts#Shape:interface']));
+    expect(result.exports.get('Unit')?.extends).toBeUndefined();
+  });
+});
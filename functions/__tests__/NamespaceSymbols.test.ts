@@ -0,0 +1,91 @@
+import { describe, it, expect } from "bun:test";
+import extractSymbolsFromFile from '../extractSymbols';
+import { createMultiFileProgram } from './helpers/TestProgram';
+
+/**
+ * 提取 main.ts 的符号，vec.ts 作为被增强的模块
+ */
+const extractMain = (mainSource: string, rootDir?: string) => {
+  const program = createMultiFileProgram({
+    files: {
+      '/vec.ts': 'export interface Vec { x: number }',
+      '/main.ts': mainSource
+    }
+  });
+  return extractSymbolsFromFile(program.getSourceFile('/main.ts')!, program.getTypeChecker(), {
+    includeNodeModules: false,
+    includeSystemSymbols: false,
+    rootDir
+  });
+};
+
+describe('命名空间与模块声明', () => {
+  it('应该递归提取命名空间中的声明', () => {
+    const result = extractMain(`
+      const scale = 2;
+      export namespace Geo {
+        /** 默认缩放 */
+        export const factor = scale;
+        export namespace Units {
+          export type Meter = number;
+        }
+        const hidden = 1;
+      }
+      namespace Local {
+        export function helper() {}
+      }
+    `);
+
+    expect(result.exports.has('Geo')).toBe(true);
+    expect(result.exports.get('Geo.factor')?.memberOf).toBe('Geo');
+    expect(result.exports.get('Geo.factor')?.documentation).toBe('默认缩放');
+    expect(result.exports.get('Geo.factor')?.dependencies.has('/main.ts#scale:variable')).toBe(true);
+    expect(result.exports.get('Geo.Units.Meter')?.memberOf).toBe('Geo.Units');
+    expect(result.internal.has('Geo.hidden')).toBe(true);
+    expect(result.internal.has('Local.helper')).toBe(true);
+  });
+
+  it('应该展开点号分隔的命名空间', () => {
+    const result = extractMain(`
+      export namespace App.Config {
+        export const port = 8080;
+      }
+    `);
+
+    expect(result.exports.has('App.Config')).toBe(true);
+    expect(result.exports.get('App.Config.port')?.memberOf).toBe('App.Config');
+  });
+
+  it('应该记录模块增强与全局声明', () => {
+    const result = extractMain(`
+      import './vec';
+      declare module './vec' {
+        interface Vec { y: number }
+      }
+      declare module 'left-pad' {
+        export function pad(text: string): string;
+      }
+      declare global {
+        interface Window { procbase: string }
+      }
+    `);
+
+    expect(result.exports.get('"./vec"')?.augments).toBe('/vec.ts');
+    expect(result.exports.get('"./vec".Vec')?.memberOf).toBe('"./vec"');
+    expect(result.exports.get('"left-pad"')?.augments).toBe('left-pad');
+    expect(result.exports.has('"left-pad".pad')).toBe(true);
+    expect(result.exports.get('global')?.augments).toBe('global');
+    expect(result.exports.has('global.Window')).toBe(true);
+  });
+
+  it('增强的目标应该使用与符号标识相同的模块路径', () => {
+    const result = extractMain(`
+      import './vec';
+      declare module './vec' {
+        interface Vec { y: number }
+      }
+    `, '/');
+
+    expect(result.exports.get('"./vec"')?.augments).toBe('vec.ts');
+  });
+});
@@ -157,11 +157,11 @@ describe('Property Access Dependency Analysis', () => {
     // 验证 main 函数依赖 helper
     console.log('main 的依赖:', Array.from(mainSymbol!.dependencies));
     expect(mainSymbol!.dependencies.size).toBe(1);
-    expect(mainSymbol!.dependencies.has('test.ts:helper')).toBe(true);
+    expect(mainSymbol!.dependencies.has('test.ts#helper:function')).toBe(true);
 
     // 验证 getConfig 函数依赖 config
     console.log('getConfig 的依赖:', Array.from(getConfigSymbol!.dependencies));
     expect(getConfigSymbol!.dependencies.size).toBe(1);
-    expect(getConfigSymbol!.dependencies.has('test.ts:config')).toBe(true);
+    expect(getConfigSymbol!.dependencies.has('test.ts#config:variable')).toBe(true);
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "bun:test";
+import extractSymbolsFromFile from '../extractSymbols';
+import { createMultiFileProgram } from './helpers/TestProgram';
+
+const vecFile = `
+  /** 二维向量 */
+  export type Vec = { x: number; y: number };
+  /** 向量相加 */
+  export const add = (a: Vec, b: Vec): Vec => ({ x: a.x + b.x, y: a.y + b.y });
+  export default add;
+`;
+
+/**
+ * 提取 index.ts 的符号，vec.ts 作为被重新导出的模块
+ */
+const extractIndex = (indexSource: string) => {
+  const program = createMultiFileProgram({
+    files: {
+      '/vec.ts': vecFile,
+      '/index.ts': indexSource
+    }
+  });
+  return extractSymbolsFromFile(program.getSourceFile('/index.ts')!, program.getTypeChecker());
+};
+
+describe('重新导出', () => {
+  it('导出列表应该把本地声明标记为导出', () => {
+    const result = extractIndex(`
+      const scale = 2;
+      function double(n: number) { return n * scale; }
+      export { double };
+    `);
+
+    expect(result.exports.get('double')?.isExported).toBe(true);
+    expect(result.internal.has('double')).toBe(false);
+    expect(result.internal.has('scale')).toBe(true);
+    expect(result.exports.get('double')?.dependencies.has('/index.ts#scale:variable')).toBe(true);
+  });
+
+  it('重命名导出应该创建指向本地声明的别名符号', () => {
+    const result = extractIndex(`
+      const scale = 2;
+      export { scale as factor };
+    `);
+
+    const factor = result.exports.get('factor');
+    expect(factor?.aliasOf).toBe('/index.ts#scale:variable');
+    expect(factor?.dependencies).toEqual(new Set(['/index.ts#scale:variable']));
+    expect(result.internal.has('scale')).toBe(true);
+  });
+
+  it('从其他模块重新导出应该解析到源声明', () => {
+    const result = extractIndex(`
+      export { add as plus, type Vec } from './vec';
+    `);
+
+    const plus = result.exports.get('plus');
+    expect(plus?.aliasOf).toBe('/vec.ts#add:variable');
+    expect(plus?.documentation).toBe('向量相加');
+    expect(plus?.type).toContain('Vec');
+
+    const vec = result.exports.get('Vec');
+    expect(vec?.aliasOf).toBe('/vec.ts#Vec:type');
+    expect(vec?.type).toBe('Vec');
+  });
+
+  it('星号重新导出应该展开目标模块的导出', () => {
+    const result = extractIndex(`
+      export * from './vec';
+      export const add = 1;
+    `);
+
+    expect(result.exports.get('Vec')?.aliasOf).toBe('/vec.ts#Vec:type');
+    // 本文件自己的导出优先，默认导出不参与星号导出
+    expect(result.exports.get('add')?.aliasOf).toBeUndefined();
+    expect(result.exports.has('default')).toBe(false);
+  });
+
+  it('命名空间重新导出应该指向整个模块', () => {
+    const result = extractIndex(`
+      export * as vec from './vec';
+    `);
+
+    expect(result.exports.get('vec')?.aliasOf).toBe('/vec.ts#*:namespace');
+  });
+});
@@ -93,6 +93,25 @@ describe('SymbolExtractor', () => {
           expect(result.internal.has('INTERNAL_CONFIG')).toBe(true);
         }
       },
+      {
+        name: '应该提取解构声明中的每个名称',
+        sourceCode: `
+          const point = { x: 1, label: 'origin', nested: { depth: 2 } };
+          const pair: [number, string] = [1, 'one'];
+          const fallback = 'none';
+          export const { x, label: name, nested: { depth } } = point;
+          const [first, second = fallback] = pair;
+        `,
+        assertions: (result) => {
+          expect(result.exports.get('x')?.type).toBe('number');
+          expect(result.exports.get('name')?.type).toBe('string');
+          expect(result.exports.get('depth')?.type).toBe('number');
+          expect(result.exports.get('x')?.dependencies).toEqual(new Set(['test.ts#point:variable']));
+          expect(result.internal.get('first')?.type).toBe('number');
+          expect(result.internal.get('second')?.type).toBe('string');
+          expect(result.internal.get('second')?.dependencies).toEqual(new Set(['test.ts#fallback:variable', 'test.ts#pair:variable']));
+        }
+      },
       {
         name: '应该提取导入声明',
         sourceCode: `
@@ -106,6 +125,41 @@ describe('SymbolExtractor', () => {
           expect(result.imports.has('defaultExport')).toBe(true);
           expect(result.imports.size).toBe(3);
         }
+      },
+      {
+        name: '应该把默认导出表达式提取为 default 符号',
+        sourceCode: `
+          const base = { x: 1, y: 2 };
+          export default { ...base, z: 3 };
+        `,
+        assertions: (result) => {
+          const defaultExport = result.exports.get('default');
+          expect(defaultExport?.isExported).toBe(true);
+          expect(defaultExport?.type).toBe('{ z: number; x: number; y: number; }');
+          expect(defaultExport?.dependencies.has('test.ts#base:variable')).toBe(true);
+        }
+      },
+      {
+        name: '应该把 export = 提取为 default 符号',
+        sourceCode: `
+          function create() { return 42; }
+          export = create();
+        `,
+        assertions: (result) => {
+          expect(result.exports.get('default')?.type).toBe('number');
+          expect(result.exports.get('default')?.dependencies.has('test.ts#create:function')).toBe(true);
+        }
+      },
+      {
+        name: '应该把匿名默认导出函数提取为 default 符号',
+        sourceCode: `
+          export default function (name: string): string {
+            return name;
+          }
+        `,
+        assertions: (result) => {
+          expect(result.exports.get('default')?.type).toBe('(name: string) => string');
+        }
       }
     ];
 
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "bun:test";
+import extractSymbolsFromFile from '../extractSymbols';
+import { createProjectSymbolTable, addFileSymbols, calculateClosure } from '../index';
+import { createMultiFileProgram } from './helpers/TestProgram';
+
+const files = {
+  '/geo/utils.ts': `
+    export const distance = (a: number, b: number) => Math.abs(a - b);
+  `,
+  '/text/utils.ts': `
+    export const distance = (a: string, b: string) => a.length - b.length;
+  `,
+  '/geo/index.ts': `
+    export { distance as geoDistance } from './utils';
+  `,
+  '/main.ts': `
+    import { geoDistance } from './geo/index';
+    import { distance } from './text/utils';
+    import * as geo from './geo/utils';
+    namespace Units {
+      export const meter = 1;
+    }
+    export const total = geoDistance(1, 2) + distance('a', 'b') + geo.distance(3, 4) * Units.meter;
+  `
+};
+
+/**
+ * 提取所有文件的符号并建立符号表
+ */
+const analyze = () => {
+  const program = createMultiFileProgram({ files });
+  const typeChecker = program.getTypeChecker();
+  const symbolTable = createProjectSymbolTable();
+  Object.keys(files).forEach(fileName => {
+    const symbols = extractSymbolsFromFile(program.getSourceFile(fileName)!, typeChecker);
+    addFileSymbols(symbolTable, { fileName, symbols });
+  });
+  return symbolTable;
+};
+
+describe('规范符号标识', () => {
+  it('导入应该解析到原始声明所在的文件', () => {
+    const symbolTable = analyze();
+    const total = symbolTable.globalSymbols.get('/main.ts#total:variable');
+
+    expect(Array.from(total?.dependencies ?? []).sort()).toEqual([
+      '/geo/utils.ts#*:namespace',
+      '/geo/utils.ts#distance:variable',
+      '/main.ts#Units:namespace',
+      '/text/utils.ts#distance:variable'
+    ]);
+  });
+
+  it('指定根目录时模块路径应该相对于根目录', () => {
+    const program = createMultiFileProgram({ files });
+    const symbols = extractSymbolsFromFile(program.getSourceFile('/main.ts')!, program.getTypeChecker(), {
+      includeNodeModules: false,
+      includeSystemSymbols: false,
+      rootDir: '/'
+    });
+
+    expect(Array.from(symbols.exports.get('total')?.dependencies ?? []).sort()).toEqual([
+      'geo/utils.ts#*:namespace',
+      'geo/utils.ts#distance:variable',
+      'main.ts#Units:namespace',
+      'text/utils.ts#distance:variable'
+    ]);
+  });
+
+  it('同名文件中的符号不应该混淆', () => {
+    const symbolTable = analyze();
+
+    const closure = calculateClosure(symbolTable, ['/main.ts#total:variable']);
+    expect(closure.has('/geo/utils.ts#distance:variable')).toBe(true);
+    expect(closure.has('/text/utils.ts#distance:variable')).toBe(true);
+  });
+
+  it('命名空间中的符号应该使用限定名称', () => {
+    const program = createMultiFileProgram({
+      files: {
+        '/ns.ts': `
+          namespace Geo {
+            export const unit = 1;
+            export const double = () => unit * 2;
+          }
+        `
+      }
+    });
+    const symbols = extractSymbolsFromFile(program.getSourceFile('/ns.ts')!, program.getTypeChecker());
+
+    expect(symbols.internal.get('Geo.double')?.dependencies).toEqual(new Set(['/ns.ts#Geo.unit:variable']));
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "bun:test";
+import validateTypeFile from '../validateTypeFile';
+
+/**
+ * 创建一个测试用例
+ */
+type TestCase = {
+  name: string;
+  fileName?: string;
+  sourceCode: string;
+  expectedRules: string[];
+};
+
+/**
+ * 运行单个测试用例
+ */
+const runTestCase = (testCase: TestCase) => {
+  const issues = validateTypeFile(testCase.fileName ?? '/procbase/types/Shape/Point.ts', testCase.sourceCode);
+  expect(issues.map(issue => issue.rule)).toEqual(testCase.expectedRules);
+};
+
+describe('validateTypeFile', () => {
+  const testCases: TestCase[] = [
+    {
+      name: '应该接受只包含类型声明的文件',
+      sourceCode: `
+        import type { Unit } from '@t/Shape/Unit';
+
+        /** 二维点 */
+        export type Point = { x: number; y: number; unit: Unit };
+
+        export interface Named {
+          name: string;
+        }
+      `,
+      expectedRules: []
+    },
+    {
+      name: '应该拒绝运行时声明',
+      sourceCode: `
+        export type Point = { x: number; y: number };
+        export const origin: Point = { x: 0, y: 0 };
+      `,
+      expectedRules: ['type-only-declarations']
+    },
+    {
+      name: '应该要求使用 import type 并禁止星号导入',
+      sourceCode: `
+        import { Unit } from '@t/Shape/Unit';
+        import type * as Shapes from '@t/Shape/All';
+        export type Point = { x: number; unit: Unit };
+      `,
+      expectedRules: ['type-only-import', 'no-star-import']
+    },
+    {
+      name: '应该拒绝 index.ts 和没有导出的文件',
+      fileName: '/procbase/types/Shape/index.ts',
+      sourceCode: `
+        type Hidden = string;
+      `,
+      expectedRules: ['no-index-in-types', 'exported-type']
+    },
+    {
+      name: '应该接受通过导出子句导出的本地类型、导入的类型和重新导出',
+      sourceCode: `
+        import type { Unit } from '@t/Shape/Unit';
+        type Point = { x: number; y: number };
+        export type { Point as Vertex, Unit };
+        export type { Size } from '@t/Shape/Size';
+      `,
+      expectedRules: []
+    },
+    {
+      name: '导出子句没有指向任何类型时应该视为没有导出',
+      sourceCode: `
+        type Hidden = string;
+        export type {};
+        export type { Missing };
+      `,
+      expectedRules: ['exported-type']
+    },
+    {
+      name: '值导出子句既不允许也不算导出类型',
+      sourceCode: `
+        export {};
+      `,
+      expectedRules: ['type-only-declarations', 'exported-type']
+    },
+    {
+      name: '应该报告语法错误',
+      sourceCode: `
+        export type Point = { x: number;
+      `,
+      expectedRules: ['syntax']
+    }
+  ];
+
+  testCases.forEach(testCase => {
+    it(testCase.name, () => runTestCase(testCase));
+  });
+
+  it('应该报告从 1 开始的行列位置', () => {
+    const issues = validateTypeFile('/procbase/types/Shape/Point.ts', 'export type Point = string;\nexport function make() {}\n');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]!.line).toBe(2);
+    expect(issues[0]!.column).toBe(1);
+  });
+});
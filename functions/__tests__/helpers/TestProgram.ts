@@ -13,6 +13,7 @@ export type SingleFileTestOptions = {
  */
 export type MultiFileTestOptions = {
   files: Record<string, string>;
+  compilerOptions?: ts.CompilerOptions;
 };
 
 /**
@@ -48,7 +49,8 @@ export const createSingleFileProgram = ({
  * 创建多文件测试用的 TypeScript 程序
  */
 export const createMultiFileProgram = ({
-  files
+  files,
+  compilerOptions = {}
 }: MultiFileTestOptions): ts.Program => {
   const compilerHost: ts.CompilerHost = {
     getSourceFile: (name: string) => {
@@ -70,5 +72,5 @@ export const createMultiFileProgram = ({
     realpath: (name: string) => name
   };
 
-  return ts.createProgram(Object.keys(files), {}, compilerHost);
+  return ts.createProgram(Object.keys(files), compilerOptions, compilerHost);
 }; 
\ No newline at end of file
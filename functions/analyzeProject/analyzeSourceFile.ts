@@ -18,7 +18,8 @@ const analyzeSourceFile = (
   console.log(`正在分析文件: ${sourceFile.fileName}`);
   const symbols = extractSymbolsFromFile(sourceFile, typeChecker, {
     includeNodeModules: options.includeNodeModules ?? false,
-    includeSystemSymbols: options.includeSystemSymbols ?? false
+    includeSystemSymbols: options.includeSystemSymbols ?? false,
+    includeMembers: options.includeMembers ?? false
   });
   
   return {
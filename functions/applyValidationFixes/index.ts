@@ -0,0 +1,32 @@
+import type { ValidationFix } from '@t/validation/ValidationFix';
+
+/**
+ * 将自动修复应用到源码
+ *
+ * 修复按位置从后向前应用，与已应用修复重叠的修复会被跳过，
+ * 可以在下一轮检查后再次修复。
+ *
+ * @param code - 源码
+ * @param fixes - 自动修复列表
+ * @returns 修复后的源码及实际应用的修复数量
+ */
+const applyValidationFixes = (code: string, fixes: ValidationFix[]): { code: string; applied: number } => {
+  const sorted = [...fixes].sort((a, b) => b.start - a.start || b.end - a.end);
+
+  let result = code;
+  let applied = 0;
+  let lowerBound = Infinity;
+
+  sorted.forEach(fix => {
+    if (fix.end > lowerBound) {
+      return;
+    }
+    result = result.slice(0, fix.start) + fix.newText + result.slice(fix.end);
+    lowerBound = fix.start;
+    applied++;
+  });
+
+  return { code: result, applied };
+};
+
+export default applyValidationFixes;
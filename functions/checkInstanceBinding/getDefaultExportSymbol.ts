@@ -0,0 +1,28 @@
+import ts from 'typescript';
+
+/**
+ * 获取模块的默认导出符号，别名导出（如 `export default value`）会被解析到原始符号
+ * @param sourceFile - 源文件
+ * @param typeChecker - 类型检查器
+ * @returns 默认导出符号或undefined
+ */
+const getDefaultExportSymbol = (
+  sourceFile: ts.SourceFile,
+  typeChecker: ts.TypeChecker
+): ts.Symbol | undefined => {
+  const moduleSymbol = typeChecker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) {
+    return undefined;
+  }
+
+  const defaultSymbol = typeChecker
+    .getExportsOfModule(moduleSymbol)
+    .find(symbol => symbol.escapedName === ts.InternalSymbolName.Default);
+
+  if (defaultSymbol && defaultSymbol.flags & ts.SymbolFlags.Alias) {
+    return typeChecker.getAliasedSymbol(defaultSymbol);
+  }
+  return defaultSymbol;
+};
+
+export default getDefaultExportSymbol;
@@ -0,0 +1,77 @@
+import ts from 'typescript';
+import type { ValidationIssue } from '@t/validation/ValidationIssue';
+import createValidationIssue from '@f/validateTypeFile/createValidationIssue';
+import getDefaultExportSymbol from './getDefaultExportSymbol';
+
+/**
+ * 检查实例入口文件的默认导出是否可以赋值给绑定的类型
+ *
+ * 实例入口文件必须只有一个默认导出；绑定类型必须是类型文件中
+ * 导出的类型别名或接口。
+ *
+ * @param program - 同时包含实例文件和类型文件的 TypeScript 程序
+ * @param instanceFileName - 实例入口文件（`instances/<name>/index.ts`）
+ * @param typeFileName - 绑定类型所在的类型文件
+ * @param typeName - 绑定类型在类型文件中的导出名称
+ * @returns 校验问题列表，为空表示绑定成立
+ */
+const checkInstanceBinding = (
+  program: ts.Program,
+  instanceFileName: string,
+  typeFileName: string,
+  typeName: string
+): ValidationIssue[] => {
+  const typeChecker = program.getTypeChecker();
+  const instanceFile = program.getSourceFile(instanceFileName);
+  const typeFile = program.getSourceFile(typeFileName);
+
+  if (!instanceFile) {
+    throw new Error(`无法解析实例文件: ${instanceFileName}`);
+  }
+  if (!typeFile) {
+    throw new Error(`无法解析类型文件: ${typeFileName}`);
+  }
+
+  const moduleSymbol = typeChecker.getSymbolAtLocation(instanceFile);
+  const exportNames = moduleSymbol
+    ? typeChecker.getExportsOfModule(moduleSymbol).map(symbol => symbol.name)
+    : [];
+  const extraExports = exportNames.filter(name => name !== ts.InternalSymbolName.Default);
+  if (extraExports.length > 0) {
+    return [createValidationIssue(
+      'single-default-export',
+      `实例入口文件只能有一个默认导出，发现额外导出: ${extraExports.join(', ')}`,
+      instanceFile,
+      0
+    )];
+  }
+
+  const instanceSymbol = getDefaultExportSymbol(instanceFile, typeChecker);
+  if (!instanceSymbol) {
+    return [createValidationIssue('single-default-export', '实例入口文件缺少默认导出', instanceFile, 0)];
+  }
+
+  const typeModuleSymbol = typeChecker.getSymbolAtLocation(typeFile);
+  const boundSymbol = typeModuleSymbol && typeChecker
+    .getExportsOfModule(typeModuleSymbol)
+    .find(symbol => symbol.name === typeName);
+  if (!boundSymbol || !(boundSymbol.flags & (ts.SymbolFlags.TypeAlias | ts.SymbolFlags.Interface))) {
+    return [createValidationIssue('bound-type', `类型文件没有导出类型 ${typeName}`, typeFile, 0)];
+  }
+
+  const instanceType = typeChecker.getTypeOfSymbol(instanceSymbol);
+  const boundType = typeChecker.getDeclaredTypeOfSymbol(boundSymbol);
+  if (typeChecker.isTypeAssignableTo(instanceType, boundType)) {
+    return [];
+  }
+
+  const declaration = instanceSymbol.valueDeclaration ?? instanceSymbol.declarations?.[0];
+  return [createValidationIssue(
+    'bound-type',
+    `默认导出的类型 '${typeChecker.typeToString(instanceType)}' 不能赋值给绑定类型 '${typeChecker.typeToString(boundType)}'`,
+    instanceFile,
+    declaration && declaration.getSourceFile() === instanceFile ? declaration.getStart() : 0
+  )];
+};
+
+export default checkInstanceBinding;
@@ -1,5 +1,7 @@
 import type { ProjectSymbolTableState } from '@t/project/ProjectSymbolTableState';
 import type { FileSymbols } from '@t/project/FileSymbols';
+import formatSymbolId from '@f/extractSymbols/formatSymbolId';
+import getDeclarationKind from '@f/extractSymbols/getDeclarationKind';
 
 /**
  * 添加文件符号到符号表
@@ -16,7 +18,8 @@ const addFileSymbols = (
   // 添加到全局符号表
   Array.from(fileSymbols.symbols.exports.values()).concat(Array.from(fileSymbols.symbols.internal.values()))
     .forEach(symbol => {
-      const fullName = `${fileSymbols.fileName}:${symbol.name}`;
+      // 与未指定根目录提取时生成的依赖标识一致，依赖边因此能直接对应到符号
+      const fullName = formatSymbolId(fileSymbols.fileName, symbol.name, getDeclarationKind(symbol.kind));
       symbolTable.globalSymbols.set(fullName, symbol);
       
       // 建立依赖关系
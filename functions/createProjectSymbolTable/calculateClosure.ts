@@ -1,16 +1,21 @@
 import type { ProjectSymbolTableState } from '@t/project/ProjectSymbolTableState';
+import type { TreeShakingOptions } from '@t/tree-shaking/TreeShakingOptions';
 import getDependencies from './getDependencies';
+import getRuntimeDependencies from './getRuntimeDependencies';
 
 /**
  * 计算符号闭包 - 给定根符号，计算所有需要包含的符号
  * @param symbolTable - 符号表状态
  * @param rootSymbols - 根符号列表
+ * @param options - Tree Shaking 选项，不跟踪仅类型导入时只沿运行时依赖展开
  * @returns 符号闭包集合
  */
 const calculateClosure = (
   symbolTable: ProjectSymbolTableState,
-  rootSymbols: string[]
+  rootSymbols: string[],
+  options: TreeShakingOptions = {}
 ): Set<string> => {
+  const runtimeOnly = options.followTypeOnlyImports === false;
   const closure = new Set<string>();
   const visited = new Set<string>();
   const queue = [...rootSymbols];
@@ -26,7 +31,9 @@ const calculateClosure = (
     closure.add(current);
 
     // 添加所有依赖到队列
-    const deps = getDependencies(symbolTable, current);
+    const deps = runtimeOnly
+      ? getRuntimeDependencies(symbolTable, current)
+      : getDependencies(symbolTable, current);
     deps.forEach(dep => {
       if (!visited.has(dep)) {
         queue.push(dep);
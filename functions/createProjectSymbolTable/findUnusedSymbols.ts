@@ -1,17 +1,20 @@
 import type { ProjectSymbolTableState } from '@t/project/ProjectSymbolTableState';
+import type { TreeShakingOptions } from '@t/tree-shaking/TreeShakingOptions';
 import calculateClosure from './calculateClosure';
 
 /**
  * 查找未使用的符号
  * @param symbolTable - 符号表状态
  * @param exportedSymbols - 导出的符号列表
+ * @param options - Tree Shaking 选项
  * @returns 未使用的符号集合
  */
 const findUnusedSymbols = (
   symbolTable: ProjectSymbolTableState,
-  exportedSymbols: string[]
+  exportedSymbols: string[],
+  options: TreeShakingOptions = {}
 ): Set<string> => {
-  const usedSymbols = calculateClosure(symbolTable, exportedSymbols);
+  const usedSymbols = calculateClosure(symbolTable, exportedSymbols, options);
   const allSymbols = new Set(symbolTable.globalSymbols.keys());
   
   const unusedSymbols = new Set<string>();
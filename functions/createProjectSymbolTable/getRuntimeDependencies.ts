@@ -0,0 +1,32 @@
+import type { ProjectSymbolTableState } from '@t/project/ProjectSymbolTableState';
+import type { DependencyKind } from '@t/project/DependencyKind';
+import getDependencies from './getDependencies';
+
+// 只存在于类型层面的引用方式，编译后不会留下依赖
+const TYPE_ONLY_KINDS: ReadonlySet<DependencyKind> = new Set(['type', 'typeof', 'implements']);
+
+/**
+ * 获取符号在运行时需要的直接依赖，忽略只在类型位置出现的引用
+ * @param symbolTable - 符号表状态
+ * @param symbolName - 符号名称
+ * @returns 运行时依赖符号集合
+ */
+const getRuntimeDependencies = (
+  symbolTable: ProjectSymbolTableState,
+  symbolName: string
+): Set<string> => {
+  const dependencyKinds = symbolTable.globalSymbols.get(symbolName)?.dependencyKinds;
+  const runtimeDependencies = new Set<string>();
+
+  getDependencies(symbolTable, symbolName).forEach(dep => {
+    const kinds = dependencyKinds?.get(dep);
+    // 没有记录引用方式的依赖按运行时依赖处理
+    if (!kinds || Array.from(kinds).some(kind => !TYPE_ONLY_KINDS.has(kind))) {
+      runtimeDependencies.add(dep);
+    }
+  });
+
+  return runtimeDependencies;
+};
+
+export default getRuntimeDependencies;
@@ -0,0 +1,54 @@
+import ts from 'typescript';
+import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
+import createSymbolInfo from './createSymbolInfo';
+import addSymbol from './addSymbol';
+
+type MemberNode = ts.ClassElement | ts.TypeElement | ts.EnumMember;
+
+/**
+ * 获取成员的名称节点，构造函数、索引签名和计算属性名没有可用的名称
+ * @param member - 成员节点
+ * @returns 名称节点或undefined
+ */
+const getMemberNameNode = (member: MemberNode): ts.Node | undefined => {
+  const name = member.name;
+  if (name && (ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name))) {
+    return name;
+  }
+  return undefined;
+};
+
+/**
+ * 将类、接口或枚举的成员添加为子符号，名称以所属符号限定，如 `Shape.area`
+ * @param parentName - 所属符号的名称
+ * @param members - 成员节点
+ * @param isExported - 所属符号是否导出
+ * @param symbols - 符号集合
+ * @param typeChecker - 类型检查器
+ * @param sourceFile - 源文件
+ */
+const addMemberSymbols = (
+  parentName: string,
+  members: readonly MemberNode[],
+  isExported: boolean,
+  symbols: ExtractedSymbols,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile
+): void => {
+  members.forEach(member => {
+    const nameNode = getMemberNameNode(member);
+    const symbol = nameNode ? typeChecker.getSymbolAtLocation(nameNode) : undefined;
+    if (!symbol) {
+      return;
+    }
+    const symbolInfo = createSymbolInfo(symbol, member, typeChecker, sourceFile);
+    addSymbol({
+      ...symbolInfo,
+      name: `${parentName}.${symbol.name}`,
+      isExported,
+      memberOf: parentName
+    }, isExported, symbols);
+  });
+};
+
+export default addMemberSymbols;
@@ -2,7 +2,10 @@ import ts from 'typescript';
 import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
 import type { SymbolInfo } from '@t/project/SymbolInfo';
 import type { SymbolExtractionOptions } from '@t/analysis/ExtractSymbolOptions';
-import findSymbolDependencies from './findSymbolDependencies';
+import type { DependencyKind } from '@t/project/DependencyKind';
+import findTypedDependencies from './findTypedDependencies';
+import getDependencyRoots from './getDependencyRoots';
+import getHeritageReferences from './getHeritageReferences';
 
 /**
  * 计算符号依赖关系
@@ -19,14 +22,35 @@ const calculateDependencies = (
 ): void => {
   const processSymbols = (symbolMap: Map<string, SymbolInfo>) => {
     symbolMap.forEach(symbolInfo => {
-      if (symbolInfo.declaration) {
-        symbolInfo.dependencies = findSymbolDependencies(
-          symbolInfo.declaration,
-          symbols,
-          typeChecker,
-          sourceFile,
-          options
+      // 别名符号只依赖其源符号，已在创建时确定
+      if (symbolInfo.declaration && !symbolInfo.aliasOf) {
+        const dependencyKinds = new Map<string, Set<DependencyKind>>();
+        getDependencyRoots(symbolInfo.declaration).forEach(root => {
+          findTypedDependencies(root, symbols, typeChecker, sourceFile, options).forEach((kinds, reference) => {
+            const merged = dependencyKinds.get(reference) ?? new Set<DependencyKind>();
+            kinds.forEach(kind => merged.add(kind));
+            dependencyKinds.set(reference, merged);
+          });
+        });
+        symbolInfo.dependencies = new Set(dependencyKinds.keys());
+        symbolInfo.dependencyKinds = dependencyKinds;
+      }
+
+      // 继承关系单独记录，用于回答“谁实现了某个接口”
+      const declaration = symbolInfo.declaration;
+      if (declaration && (ts.isClassLike(declaration) || ts.isInterfaceDeclaration(declaration))) {
+        const extendsRefs = getHeritageReferences(
+          declaration, ts.SyntaxKind.ExtendsKeyword, symbols, typeChecker, sourceFile, options
+        );
+        const implementsRefs = getHeritageReferences(
+          declaration, ts.SyntaxKind.ImplementsKeyword, symbols, typeChecker, sourceFile, options
         );
+        if (extendsRefs.size > 0) {
+          symbolInfo.extends = extendsRefs;
+        }
+        if (implementsRefs.size > 0) {
+          symbolInfo.implements = implementsRefs;
+        }
       }
     });
   };
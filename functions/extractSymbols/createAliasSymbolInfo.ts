@@ -0,0 +1,53 @@
+import ts from 'typescript';
+import path from 'node:path';
+import type { SymbolInfo } from '@t/project/SymbolInfo';
+import type { SymbolExtractionOptions } from '@t/analysis/ExtractSymbolOptions';
+import getSourceLocation from './getSourceLocation';
+import getSymbolReference from './getSymbolReference';
+
+/**
+ * 创建别名符号信息，用于重新导出的符号
+ * @param name - 导出名称
+ * @param origin - 源符号，需已解析别名
+ * @param declaration - 当前文件中的导出说明符或导出声明
+ * @param typeChecker - 类型检查器
+ * @param sourceFile - 源文件
+ * @param options - 符号提取选项
+ * @returns 别名符号信息，源符号无法定位时返回 undefined
+ */
+const createAliasSymbolInfo = (
+  name: string,
+  origin: ts.Symbol,
+  declaration: ts.Declaration,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  options: SymbolExtractionOptions
+): SymbolInfo | undefined => {
+  const aliasOf = getSymbolReference(origin, options.rootDir);
+  if (!aliasOf) {
+    return undefined;
+  }
+
+  // 纯类型没有值类型，取其声明的类型
+  const type = origin.flags & ts.SymbolFlags.Value
+    ? typeChecker.getTypeOfSymbol(origin)
+    : typeChecker.getDeclaredTypeOfSymbol(origin);
+
+  return {
+    name,
+    kind: ts.SymbolFlags.Alias,
+    type: typeChecker.typeToString(type),
+    declaration,
+    isExported: true,
+    documentation: ts.displayPartsToString(origin.getDocumentationComment(typeChecker)),
+    sourceLocation: getSourceLocation(declaration, sourceFile),
+    fileName: path.basename(sourceFile.fileName),
+    dependencies: new Set([aliasOf]),
+    dependents: new Set(),
+    // 重新导出纯类型不会在运行时留下引用
+    dependencyKinds: new Map([[aliasOf, new Set([origin.flags & ts.SymbolFlags.Value ? 'read' : 'type'])]]),
+    aliasOf
+  };
+};
+
+export default createAliasSymbolInfo;
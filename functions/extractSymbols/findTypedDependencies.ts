@@ -0,0 +1,128 @@
+import ts from 'typescript';
+import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
+import type { SymbolExtractionOptions } from '@t/analysis/ExtractSymbolOptions';
+import type { DependencyKind } from '@t/project/DependencyKind';
+import getDependencyKind from './getDependencyKind';
+import getSymbolReference from './getSymbolReference';
+
+/**
+ * 查找符号依赖，并记录每个依赖被引用的方式
+ * @param node - AST节点
+ * @param symbols - 符号集合
+ * @param typeChecker - 类型检查器
+ * @param sourceFile - 源文件
+ * @param options - 符号提取选项
+ * @returns 依赖的符号标识到引用方式的映射
+ */
+const findTypedDependencies = (
+  node: ts.Node,
+  symbols: ExtractedSymbols,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  options: SymbolExtractionOptions
+): Map<string, Set<DependencyKind>> => {
+  const dependencies = new Map<string, Set<DependencyKind>>();
+  const visited = new Set<ts.Node>();
+  const localFunctions = new Set<string>();
+  const localVariables = new Set<string>();
+
+  // 首先收集所有局部函数和变量
+  const collectLocals = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node)) {
+      if (node.initializer) {
+        if (ts.isFunctionExpression(node.initializer) || ts.isArrowFunction(node.initializer)) {
+          if (ts.isIdentifier(node.name)) {
+            localFunctions.add(node.name.text);
+          }
+        }
+      }
+      if (ts.isIdentifier(node.name)) {
+        localVariables.add(node.name.text);
+      }
+    } else if (ts.isFunctionDeclaration(node) && node.name) {
+      localFunctions.add(node.name.text);
+    }
+    node.forEachChild(child => collectLocals(child));
+  };
+
+  collectLocals(node);
+
+  const collectDependencies = (node: ts.Node) => {
+    if (visited.has(node)) return;
+    visited.add(node);
+
+    if (ts.isIdentifier(node)) {
+      // 如果标识符是属性访问的一部分，不添加为依赖
+      if (ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) {
+        return;
+      }
+
+      const symbol = typeChecker.getSymbolAtLocation(node);
+      if (symbol) {
+        const declaration = symbol.declarations?.[0];
+        if (declaration) {
+          const declSourceFile = declaration.getSourceFile();
+          const symbolName = symbol.name;
+
+          // 如果是局部函数或变量，不添加为依赖
+          if (localFunctions.has(symbolName) || localVariables.has(symbolName)) {
+            return;
+          }
+
+          // 导入的符号解析到其原始声明；解析不到声明的导入（找不到的模块）不记为依赖
+          const target = symbol.flags & ts.SymbolFlags.Alias ? typeChecker.getAliasedSymbol(symbol) : symbol;
+          const symbolId = getSymbolReference(target, options.rootDir);
+          if (!symbolId) {
+            return;
+          }
+          const targetFileName = target.declarations?.[0]?.getSourceFile().fileName ?? declSourceFile.fileName;
+
+          // 检查是否是系统符号
+          const isSystemSymbol = targetFileName.includes('node_modules/typescript/lib/');
+          if (isSystemSymbol && !options.includeSystemSymbols) {
+            return;
+          }
+
+          // 检查是否是 node_modules 中的符号
+          const isNodeModuleSymbol = targetFileName.includes('node_modules/') && 
+            !targetFileName.includes('node_modules/typescript/lib/');
+          if (isNodeModuleSymbol && !options.includeNodeModules) {
+            return;
+          }
+
+          // 如果是参数声明，不添加为依赖
+          if (ts.isParameter(declaration)) {
+            return;
+          }
+
+          // 如果是当前符号的声明，不添加为依赖
+          // 对于函数表达式，需要检查父级变量声明
+          let currentNode: ts.Node | undefined = node;
+          while (currentNode) {
+            if (currentNode === declaration || 
+                (ts.isVariableDeclaration(currentNode) && currentNode.name === node)) {
+              return;
+            }
+            currentNode = currentNode.parent;
+          }
+
+          // 如果是接口或类型的属性，不添加为依赖
+          if (ts.isPropertySignature(declaration) || ts.isPropertyDeclaration(declaration)) {
+            return;
+          }
+
+          const kinds = dependencies.get(symbolId) ?? new Set<DependencyKind>();
+          kinds.add(getDependencyKind(node));
+          dependencies.set(symbolId, kinds);
+        }
+      }
+    }
+
+    node.forEachChild(child => collectDependencies(child));
+  };
+
+  collectDependencies(node);
+  return dependencies;
+};
+
+export default findTypedDependencies; 
\ No newline at end of file
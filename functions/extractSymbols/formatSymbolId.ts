@@ -0,0 +1,15 @@
+/**
+ * 组合符号标识：`模块路径#名称:声明种类`，如 `types/Geo/Vec.ts#Vec:type`
+ *
+ * 提取的依赖、继承与别名，以及符号数据库中的主键都使用这一格式。
+ *
+ * @param modulePath - 模块路径，见 getModulePath
+ * @param name - 限定名称，如 `Geo.Units.Meter`、`Shape.area`
+ * @param declarationKind - 声明种类，见 getDeclarationKind
+ * @returns 符号标识
+ */
+const formatSymbolId = (modulePath: string, name: string, declarationKind: string): string => {
+  return `${modulePath}#${name}:${declarationKind}`;
+};
+
+export default formatSymbolId;
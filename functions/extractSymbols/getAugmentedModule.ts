@@ -0,0 +1,33 @@
+import ts from 'typescript';
+import getModulePath from './getModulePath';
+
+/**
+ * 获取模块声明所增强的目标模块
+ *
+ * `declare global` 增强全局作用域；模块文件中的 `declare module './x'` 增强被解析到的模块，
+ * 以其模块路径标识，与符号标识中的模块路径一致；无法解析到源文件的目标保留原始模块名。
+ *
+ * @param decl - 模块声明
+ * @param symbol - 模块声明的符号
+ * @param sourceFile - 源文件
+ * @param rootDir - 项目根目录，见 getModulePath
+ * @returns 目标模块标识，`global` 表示全局作用域；不是增强时返回 undefined
+ */
+const getAugmentedModule = (
+  decl: ts.ModuleDeclaration,
+  symbol: ts.Symbol,
+  sourceFile: ts.SourceFile,
+  rootDir?: string
+): string | undefined => {
+  if (decl.flags & ts.NodeFlags.GlobalAugmentation) {
+    return 'global';
+  }
+  // 脚本文件中的 declare module 'x' 是环境模块声明，而不是增强
+  if (!ts.isStringLiteral(decl.name) || !ts.isExternalModule(sourceFile)) {
+    return undefined;
+  }
+  const target = symbol.declarations?.find(ts.isSourceFile);
+  return target ? getModulePath(target.fileName, rootDir) : decl.name.text;
+};
+
+export default getAugmentedModule;
@@ -0,0 +1,28 @@
+import ts from 'typescript';
+
+/**
+ * 获取符号的声明种类，作为符号标识的一部分
+ *
+ * 合并声明（同名的接口与常量）带有多个标志，按固定顺序取第一个，
+ * 因此声明方与引用方从同一个符号得到同一个种类。
+ *
+ * @param flags - 符号标志
+ * @returns 声明种类，如 `type`、`variable`、`method`
+ */
+const getDeclarationKind = (flags: ts.SymbolFlags): string => {
+  if (flags & ts.SymbolFlags.Method) return 'method';
+  if (flags & ts.SymbolFlags.Accessor) return 'accessor';
+  if (flags & ts.SymbolFlags.EnumMember) return 'enum-member';
+  if (flags & ts.SymbolFlags.Class) return 'class';
+  if (flags & ts.SymbolFlags.Enum) return 'enum';
+  if (flags & ts.SymbolFlags.Function) return 'function';
+  if (flags & ts.SymbolFlags.Interface) return 'interface';
+  if (flags & ts.SymbolFlags.TypeAlias) return 'type';
+  if (flags & ts.SymbolFlags.Module) return 'namespace';
+  if (flags & ts.SymbolFlags.Variable) return 'variable';
+  if (flags & ts.SymbolFlags.Alias) return 'alias';
+  if (flags & ts.SymbolFlags.Property) return 'property';
+  return 'symbol';
+};
+
+export default getDeclarationKind;
@@ -0,0 +1,41 @@
+import ts from 'typescript';
+import type { DependencyKind } from '@t/project/DependencyKind';
+
+/**
+ * 判断标识符以何种方式引用其符号
+ * @param node - 引用符号的标识符
+ * @returns 依赖边的种类
+ */
+const getDependencyKind = (node: ts.Identifier): DependencyKind => {
+  const parent = node.parent;
+  if (ts.isCallExpression(parent) && parent.expression === node) {
+    return 'call';
+  }
+  if (ts.isNewExpression(parent) && parent.expression === node) {
+    return 'new';
+  }
+
+  // 向上查找所在的类型位置，遇到语句或值表达式的边界即停止
+  for (let current: ts.Node = parent; current && !ts.isSourceFile(current); current = current.parent) {
+    if (ts.isTypeQueryNode(current)) {
+      return 'typeof';
+    }
+    if (ts.isExpressionWithTypeArguments(current) && ts.isHeritageClause(current.parent)) {
+      const clause = current.parent;
+      if (clause.token === ts.SyntaxKind.ImplementsKeyword) {
+        return 'implements';
+      }
+      // 接口之间的继承只存在于类型层面
+      return ts.isInterfaceDeclaration(clause.parent) ? 'type' : 'extends';
+    }
+    if (ts.isTypeNode(current)) {
+      return 'type';
+    }
+    if (ts.isStatement(current) || ts.isFunctionLike(current) || ts.isClassLike(current)) {
+      break;
+    }
+  }
+  return 'read';
+};
+
+export default getDependencyKind;
@@ -0,0 +1,39 @@
+import ts from 'typescript';
+
+/**
+ * 获取计算符号依赖时需要遍历的节点
+ *
+ * 解构元素本身只包含名称和默认值，它依赖的是整个解构声明的初始化表达式；
+ * 遍历整个变量声明则会把同一模式中的其他绑定误认为依赖。
+ *
+ * @param declaration - 符号的声明
+ * @returns 需要遍历的节点列表
+ */
+const getDependencyRoots = (declaration: ts.Declaration): ts.Node[] => {
+  if (!ts.isBindingElement(declaration)) {
+    return [declaration];
+  }
+
+  const roots: ts.Node[] = [];
+  if (declaration.initializer) {
+    roots.push(declaration.initializer);
+  }
+  if (declaration.propertyName && ts.isComputedPropertyName(declaration.propertyName)) {
+    roots.push(declaration.propertyName.expression);
+  }
+
+  // 向上找到最外层的变量声明，途经的嵌套解构默认值同样是依赖
+  let node: ts.Node = declaration.parent;
+  while (ts.isObjectBindingPattern(node) || ts.isArrayBindingPattern(node) || ts.isBindingElement(node)) {
+    if (ts.isBindingElement(node) && node.initializer) {
+      roots.push(node.initializer);
+    }
+    node = node.parent;
+  }
+  if (ts.isVariableDeclaration(node) && node.initializer) {
+    roots.push(node.initializer);
+  }
+  return roots;
+};
+
+export default getDependencyRoots;
@@ -0,0 +1,37 @@
+import ts from 'typescript';
+import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
+import type { SymbolExtractionOptions } from '@t/analysis/ExtractSymbolOptions';
+import findSymbolDependencies from './findSymbolDependencies';
+
+/**
+ * 获取类或接口在 extends 或 implements 子句中引用的符号标识
+ * @param declaration - 类或接口声明
+ * @param token - 子句关键字，`ts.SyntaxKind.ExtendsKeyword` 或 `ts.SyntaxKind.ImplementsKeyword`
+ * @param symbols - 符号集合
+ * @param typeChecker - 类型检查器
+ * @param sourceFile - 源文件
+ * @param options - 符号提取选项
+ * @returns 引用的符号标识集合，与依赖标识格式一致
+ */
+const getHeritageReferences = (
+  declaration: ts.ClassLikeDeclaration | ts.InterfaceDeclaration,
+  token: ts.SyntaxKind.ExtendsKeyword | ts.SyntaxKind.ImplementsKeyword,
+  symbols: ExtractedSymbols,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  options: SymbolExtractionOptions
+): Set<string> => {
+  const references = new Set<string>();
+  declaration.heritageClauses
+    ?.filter(clause => clause.token === token)
+    .forEach(clause => {
+      clause.types.forEach(type => {
+        // 只看被继承的表达式本身，类型参数不属于继承关系
+        findSymbolDependencies(type.expression, symbols, typeChecker, sourceFile, options)
+          .forEach(reference => references.add(reference));
+      });
+    });
+  return references;
+};
+
+export default getHeritageReferences;
@@ -0,0 +1,19 @@
+import ts from 'typescript';
+
+/**
+ * 获取当前模块中指定名称的导出符号，不解析别名
+ * @param sourceFile - 源文件
+ * @param typeChecker - 类型检查器
+ * @param escapedName - 导出名称，如 `ts.InternalSymbolName.Default`
+ * @returns 导出符号或undefined
+ */
+const getModuleExportSymbol = (
+  sourceFile: ts.SourceFile,
+  typeChecker: ts.TypeChecker,
+  escapedName: ts.__String
+): ts.Symbol | undefined => {
+  const moduleSymbol = typeChecker.getSymbolAtLocation(sourceFile);
+  return moduleSymbol?.exports?.get(escapedName);
+};
+
+export default getModuleExportSymbol;
@@ -0,0 +1,13 @@
+import path from 'node:path';
+
+/**
+ * 获取文件在符号标识中的模块路径
+ * @param fileName - 编译器中的源文件路径
+ * @param rootDir - 项目根目录，省略时使用完整的文件路径
+ * @returns 相对根目录、以 `/` 分隔的路径，如 `types/Geo/Vec.ts`
+ */
+const getModulePath = (fileName: string, rootDir?: string): string => {
+  return rootDir ? path.relative(rootDir, fileName).split(path.sep).join('/') : fileName;
+};
+
+export default getModulePath;
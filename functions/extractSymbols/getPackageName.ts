@@ -0,0 +1,11 @@
+/**
+ * 从裸模块说明符中取出包名
+ * @param specifier - 模块说明符，如 `@scope/pkg/sub` 或 `pkg/sub`
+ * @returns 包名，如 `@scope/pkg` 或 `pkg`
+ */
+const getPackageName = (specifier: string): string => {
+  const segments = specifier.split('/');
+  return specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0] ?? specifier;
+};
+
+export default getPackageName;
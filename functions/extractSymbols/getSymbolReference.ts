@@ -0,0 +1,50 @@
+import ts from 'typescript';
+import getDeclarationKind from './getDeclarationKind';
+import getModulePath from './getModulePath';
+import formatSymbolId from './formatSymbolId';
+
+/**
+ * 获取声明所在容器限定的名称，如命名空间 `Geo.Units` 中的 `Meter` 为 `Geo.Units.Meter`，
+ * 类 `Shape` 的成员 `area` 为 `Shape.area`
+ * @param name - 符号名称
+ * @param declaration - 符号的声明
+ * @returns 限定名称，与符号提取时的命名一致
+ */
+const getQualifiedName = (name: string, declaration: ts.Declaration): string => {
+  const containers: string[] = [];
+  for (let current = declaration.parent; current && !ts.isSourceFile(current); current = current.parent) {
+    if (ts.isModuleDeclaration(current)) {
+      containers.unshift(ts.isStringLiteral(current.name) ? `"${current.name.text}"` : current.name.text);
+    } else if ((ts.isClassLike(current) || ts.isInterfaceDeclaration(current) || ts.isEnumDeclaration(current)) && current.name) {
+      containers.unshift(current.name.text);
+    }
+  }
+  return [...containers, name].join('.');
+};
+
+/**
+ * 获取符号的规范标识：`模块路径#限定名称:声明种类`，与符号数据库的主键一致
+ *
+ * 文件路径取编译器解析到的声明文件，模块本身以 `*` 表示，`export =` 与
+ * `export default` 一样命名为 `default`；同名文件不会混淆，同一文件中同名的值与类型
+ * 以声明种类区分，经由不同导入路径引用的同一符号也得到同一个标识。
+ *
+ * @param symbol - 符号，需已通过 getAliasedSymbol 解析到其原始声明
+ * @param rootDir - 项目根目录，省略时模块路径为完整的文件路径
+ * @returns 规范标识，没有声明时返回 undefined
+ */
+const getSymbolReference = (symbol: ts.Symbol, rootDir?: string): string | undefined => {
+  const declaration = symbol.declarations?.[0];
+  if (!declaration) {
+    return undefined;
+  }
+  const modulePath = getModulePath(declaration.getSourceFile().fileName, rootDir);
+  const kind = getDeclarationKind(symbol.flags);
+  if (ts.isSourceFile(declaration)) {
+    return formatSymbolId(modulePath, '*', kind);
+  }
+  const name = symbol.escapedName === ts.InternalSymbolName.ExportEquals ? 'default' : symbol.name;
+  return formatSymbolId(modulePath, getQualifiedName(name, declaration), kind);
+};
+
+export default getSymbolReference;
@@ -1,8 +1,11 @@
 import ts from 'typescript';
 import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
+import type { SymbolExtractionOptions } from '@t/analysis/ExtractSymbolOptions';
 import createSymbolInfo from './createSymbolInfo';
 import addSymbol from './addSymbol';
 import hasExportModifier from './hasExportModifier';
+import addMemberSymbols from './addMemberSymbols';
+import getModuleExportSymbol from './getModuleExportSymbol';
 
 /**
  * 处理类声明
@@ -10,19 +13,27 @@ import hasExportModifier from './hasExportModifier';
  * @param symbols - 符号集合
  * @param typeChecker - 类型检查器
  * @param sourceFile - 源文件
+ * @param options - 符号提取选项
  */
 const handleClassDeclaration = (
   decl: ts.ClassDeclaration,
   symbols: ExtractedSymbols,
   typeChecker: ts.TypeChecker,
-  sourceFile: ts.SourceFile
+  sourceFile: ts.SourceFile,
+  options: SymbolExtractionOptions
 ): void => {
-  if (decl.name && ts.isIdentifier(decl.name)) {
-    const symbol = typeChecker.getSymbolAtLocation(decl.name);
-    if (symbol) {
-      const isExported = hasExportModifier(decl);
-      const symbolInfo = createSymbolInfo(symbol, decl, typeChecker, sourceFile);
-      addSymbol(symbolInfo, isExported, symbols);
+  // 匿名的 `export default class` 记录为 default 符号
+  const symbol = decl.name && ts.isIdentifier(decl.name)
+    ? typeChecker.getSymbolAtLocation(decl.name)
+    : hasExportModifier(decl)
+      ? getModuleExportSymbol(sourceFile, typeChecker, ts.InternalSymbolName.Default)
+      : undefined;
+  if (symbol) {
+    const isExported = hasExportModifier(decl);
+    const symbolInfo = createSymbolInfo(symbol, decl, typeChecker, sourceFile);
+    addSymbol(symbolInfo, isExported, symbols);
+    if (options.includeMembers) {
+      addMemberSymbols(symbolInfo.name, decl.members, isExported, symbols, typeChecker, sourceFile);
     }
   }
 };
@@ -1,8 +1,10 @@
 import ts from 'typescript';
 import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
+import type { SymbolExtractionOptions } from '@t/analysis/ExtractSymbolOptions';
 import createSymbolInfo from './createSymbolInfo';
 import addSymbol from './addSymbol';
 import hasExportModifier from './hasExportModifier';
+import addMemberSymbols from './addMemberSymbols';
 
 /**
  * 处理枚举声明
@@ -10,18 +12,23 @@ import hasExportModifier from './hasExportModifier';
  * @param symbols - 符号集合
  * @param typeChecker - 类型检查器
  * @param sourceFile - 源文件
+ * @param options - 符号提取选项
  */
 const handleEnumDeclaration = (
   decl: ts.EnumDeclaration,
   symbols: ExtractedSymbols,
   typeChecker: ts.TypeChecker,
-  sourceFile: ts.SourceFile
+  sourceFile: ts.SourceFile,
+  options: SymbolExtractionOptions
 ): void => {
   const symbol = typeChecker.getSymbolAtLocation(decl.name);
   if (symbol) {
     const isExported = hasExportModifier(decl);
     const symbolInfo = createSymbolInfo(symbol, decl, typeChecker, sourceFile);
     addSymbol(symbolInfo, isExported, symbols);
+    if (options.includeMembers) {
+      addMemberSymbols(symbolInfo.name, decl.members, isExported, symbols, typeChecker, sourceFile);
+    }
   }
 };
 
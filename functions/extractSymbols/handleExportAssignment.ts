@@ -0,0 +1,42 @@
+import ts from 'typescript';
+import path from 'node:path';
+import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
+import getSourceLocation from './getSourceLocation';
+import getModuleExportSymbol from './getModuleExportSymbol';
+import addSymbol from './addSymbol';
+
+/**
+ * 处理导出赋值：`export default 表达式` 与 `export = 表达式`
+ *
+ * 两者都记录为名为 `default` 的导出符号，类型取表达式的推断类型，
+ * 依赖由表达式中引用的符号计算得出。
+ *
+ * @param assignment - 导出赋值
+ * @param symbols - 符号集合
+ * @param typeChecker - 类型检查器
+ * @param sourceFile - 源文件
+ */
+const handleExportAssignment = (
+  assignment: ts.ExportAssignment,
+  symbols: ExtractedSymbols,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile
+): void => {
+  const exportName = assignment.isExportEquals ? ts.InternalSymbolName.ExportEquals : ts.InternalSymbolName.Default;
+  const symbol = getModuleExportSymbol(sourceFile, typeChecker, exportName);
+
+  addSymbol({
+    name: 'default',
+    kind: symbol?.flags ?? ts.SymbolFlags.Property,
+    type: typeChecker.typeToString(typeChecker.getTypeAtLocation(assignment.expression)),
+    declaration: assignment,
+    isExported: true,
+    documentation: symbol ? ts.displayPartsToString(symbol.getDocumentationComment(typeChecker)) : '',
+    sourceLocation: getSourceLocation(assignment, sourceFile),
+    fileName: path.basename(sourceFile.fileName),
+    dependencies: new Set(),
+    dependents: new Set()
+  }, true, symbols);
+};
+
+export default handleExportAssignment;
@@ -1,17 +1,146 @@
 import ts from 'typescript';
 import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
+import type { SymbolExtractionOptions } from '@t/analysis/ExtractSymbolOptions';
+import createAliasSymbolInfo from './createAliasSymbolInfo';
+import addSymbol from './addSymbol';
 
 /**
- * 处理导出声明
+ * 将符号解析到其原始声明
+ * @param symbol - 符号
+ * @param typeChecker - 类型检查器
+ * @returns 原始符号
+ */
+const resolveOrigin = (symbol: ts.Symbol, typeChecker: ts.TypeChecker): ts.Symbol => {
+  return symbol.flags & ts.SymbolFlags.Alias ? typeChecker.getAliasedSymbol(symbol) : symbol;
+};
+
+/**
+ * 处理导出列表中的一项：`export { a }`、`export { a as b }` 或 `export { a as b } from './x'`
+ * @param specifier - 导出说明符
+ * @param isReExport - 是否从其他模块重新导出
+ * @param symbols - 符号集合
+ * @param typeChecker - 类型检查器
+ * @param sourceFile - 源文件
+ * @param options - 符号提取选项
+ */
+const handleExportSpecifier = (
+  specifier: ts.ExportSpecifier,
+  isReExport: boolean,
+  symbols: ExtractedSymbols,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  options: SymbolExtractionOptions
+): void => {
+  const exportName = specifier.name.text;
+  const localName = (specifier.propertyName ?? specifier.name).text;
+
+  // 同名导出本地声明时，直接把该声明标记为导出
+  const local = symbols.internal.get(localName);
+  if (!isReExport && local && localName === exportName) {
+    symbols.internal.delete(localName);
+    addSymbol({ ...local, isExported: true }, true, symbols);
+    return;
+  }
+
+  const exportSymbol = typeChecker.getSymbolAtLocation(specifier.name);
+  if (!exportSymbol) {
+    return;
+  }
+  const aliasInfo = createAliasSymbolInfo(
+    exportName,
+    resolveOrigin(exportSymbol, typeChecker),
+    specifier,
+    typeChecker,
+    sourceFile,
+    options
+  );
+  if (aliasInfo) {
+    addSymbol(aliasInfo, true, symbols);
+  }
+};
+
+/**
+ * 展开 `export * from './y'`，为目标模块的每个导出创建别名符号
  * @param exportDecl - 导出声明
+ * @param moduleSymbol - 目标模块符号
  * @param symbols - 符号集合
+ * @param typeChecker - 类型检查器
+ * @param sourceFile - 源文件
+ * @param options - 符号提取选项
+ */
+const expandStarExport = (
+  exportDecl: ts.ExportDeclaration,
+  moduleSymbol: ts.Symbol,
+  symbols: ExtractedSymbols,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  options: SymbolExtractionOptions
+): void => {
+  typeChecker.getExportsOfModule(moduleSymbol).forEach(exported => {
+    // 星号导出不包含默认导出，且本文件自己的导出优先
+    if (exported.name === 'default' || symbols.exports.has(exported.name)) {
+      return;
+    }
+    const aliasInfo = createAliasSymbolInfo(
+      exported.name,
+      resolveOrigin(exported, typeChecker),
+      exportDecl,
+      typeChecker,
+      sourceFile,
+      options
+    );
+    if (aliasInfo) {
+      addSymbol(aliasInfo, true, symbols);
+    }
+  });
+};
+
+/**
+ * 处理导出声明：导出列表、重新导出以及星号重新导出
+ *
+ * 导出声明需要在其他语句之后处理，以便导出列表能找到本地声明。
+ *
+ * @param exportDecl - 导出声明
+ * @param symbols - 符号集合
+ * @param typeChecker - 类型检查器
+ * @param sourceFile - 源文件
+ * @param options - 符号提取选项
  */
 const handleExportDeclaration = (
   exportDecl: ts.ExportDeclaration,
-  symbols: ExtractedSymbols
+  symbols: ExtractedSymbols,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  options: SymbolExtractionOptions
 ): void => {
-  // 这里主要处理 export { a, b } from 'module' 的情况
-  // 具体的符号导出会在各个声明中处理
+  const isReExport = exportDecl.moduleSpecifier !== undefined;
+  const exportClause = exportDecl.exportClause;
+
+  if (exportClause && ts.isNamedExports(exportClause)) {
+    exportClause.elements.forEach(specifier => {
+      handleExportSpecifier(specifier, isReExport, symbols, typeChecker, sourceFile, options);
+    });
+    return;
+  }
+
+  if (!exportDecl.moduleSpecifier) {
+    return;
+  }
+  const moduleSymbol = typeChecker.getSymbolAtLocation(exportDecl.moduleSpecifier);
+  if (!moduleSymbol) {
+    return;
+  }
+
+  if (exportClause && ts.isNamespaceExport(exportClause)) {
+    // export * as ns from './y'
+    const aliasInfo = createAliasSymbolInfo(exportClause.name.text, moduleSymbol, exportDecl, typeChecker, sourceFile, options);
+    if (aliasInfo) {
+      addSymbol(aliasInfo, true, symbols);
+    }
+    return;
+  }
+
+  expandStarExport(exportDecl, moduleSymbol, symbols, typeChecker, sourceFile, options);
 };
 
-export default handleExportDeclaration; 
\ No newline at end of file
+export default handleExportDeclaration;
@@ -3,6 +3,7 @@ import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
 import createSymbolInfo from './createSymbolInfo';
 import addSymbol from './addSymbol';
 import hasExportModifier from './hasExportModifier';
+import getModuleExportSymbol from './getModuleExportSymbol';
 
 /**
  * 处理函数声明
@@ -17,13 +18,16 @@ const handleFunctionDeclaration = (
   typeChecker: ts.TypeChecker,
   sourceFile: ts.SourceFile
 ): void => {
-  if (decl.name && ts.isIdentifier(decl.name)) {
-    const symbol = typeChecker.getSymbolAtLocation(decl.name);
-    if (symbol) {
-      const isExported = hasExportModifier(decl);
-      const symbolInfo = createSymbolInfo(symbol, decl, typeChecker, sourceFile);
-      addSymbol(symbolInfo, isExported, symbols);
-    }
+  // 匿名的 `export default function` 记录为 default 符号
+  const symbol = decl.name && ts.isIdentifier(decl.name)
+    ? typeChecker.getSymbolAtLocation(decl.name)
+    : hasExportModifier(decl)
+      ? getModuleExportSymbol(sourceFile, typeChecker, ts.InternalSymbolName.Default)
+      : undefined;
+  if (symbol) {
+    const isExported = hasExportModifier(decl);
+    const symbolInfo = createSymbolInfo(symbol, decl, typeChecker, sourceFile);
+    addSymbol(symbolInfo, isExported, symbols);
   }
 };
 
@@ -1,33 +1,59 @@
 import ts from 'typescript';
+import path from 'node:path';
 import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
 import type { ImportInfo } from '@t/project/ImportInfo';
-import resolveRelativePath from './resolveRelativePath';
+import type { SymbolExtractionOptions } from '@t/analysis/ExtractSymbolOptions';
+import resolveModuleSpecifier from './resolveModuleSpecifier';
 
 /**
  * 处理导入声明
  * @param importDecl - 导入声明
  * @param symbols - 符号集合
+ * @param typeChecker - 类型检查器
  * @param sourceFile - 源文件
+ * @param options - 提取选项，其中的编译选项和解析缓存用于解析模块说明符
  */
 const handleImportDeclaration = (
   importDecl: ts.ImportDeclaration,
   symbols: ExtractedSymbols,
-  sourceFile: ts.SourceFile
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  options?: SymbolExtractionOptions
 ): void => {
   if (!importDecl.moduleSpecifier || !ts.isStringLiteral(importDecl.moduleSpecifier)) {
     return;
   }
 
-  const modulePath = importDecl.moduleSpecifier.text;
-  const resolvedPath = resolveRelativePath(sourceFile.fileName, modulePath);
+  const specifier = importDecl.moduleSpecifier.text;
+  const { resolvedFile, packageName } = resolveModuleSpecifier(
+    specifier,
+    importDecl.moduleSpecifier,
+    typeChecker,
+    sourceFile,
+    options?.compilerOptions,
+    options?.moduleResolutionCache
+  );
+  // 无法解析的相对说明符仍按导入文件所在目录拼出路径
+  const unresolvedModule = specifier.startsWith('.')
+    ? path.join(path.dirname(sourceFile.fileName), specifier)
+    : specifier;
+  const moduleInfo = {
+    fromModule: resolvedFile ?? packageName ?? unresolvedModule,
+    specifier,
+    resolvedFile,
+    packageName
+  };
 
   if (importDecl.importClause) {
+    const isClauseTypeOnly = importDecl.importClause.isTypeOnly;
+
     // 处理默认导入
     if (importDecl.importClause.name) {
       const defaultImport: ImportInfo = {
         name: importDecl.importClause.name.text,
-        fromModule: resolvedPath,
-        isDefault: true
+        ...moduleInfo,
+        isDefault: true,
+        isTypeOnly: isClauseTypeOnly
       };
       symbols.imports.set(defaultImport.name, defaultImport);
     }
@@ -39,9 +65,10 @@ const handleImportDeclaration = (
         namedBindings.elements.forEach(element => {
           const importInfo: ImportInfo = {
             name: element.name.text,
-            fromModule: resolvedPath,
+            ...moduleInfo,
             isDefault: false,
-            originalName: element.propertyName?.text || element.name.text
+            originalName: element.propertyName?.text || element.name.text,
+            isTypeOnly: isClauseTypeOnly || element.isTypeOnly
           };
           symbols.imports.set(importInfo.name, importInfo);
         });
@@ -49,9 +76,10 @@ const handleImportDeclaration = (
         // 处理命名空间导入
         const importInfo: ImportInfo = {
           name: namedBindings.name.text,
-          fromModule: resolvedPath,
+          ...moduleInfo,
           isDefault: false,
-          originalName: '*'
+          originalName: '*',
+          isTypeOnly: isClauseTypeOnly
         };
         symbols.imports.set(importInfo.name, importInfo);
       }
@@ -1,28 +1,82 @@
 import ts from 'typescript';
 import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
+import type { SymbolInfo } from '@t/project/SymbolInfo';
+import type { SymbolExtractionOptions } from '@t/analysis/ExtractSymbolOptions';
 import createSymbolInfo from './createSymbolInfo';
 import addSymbol from './addSymbol';
 import hasExportModifier from './hasExportModifier';
+import getAugmentedModule from './getAugmentedModule';
+import processStatement from './processStatement';
 
 /**
- * 处理模块声明
+ * 以命名空间名称限定内部符号，如 `Foo` 中的 `Bar.baz` 变为 `Foo.Bar.baz`
+ * @param namespaceName - 命名空间名称
+ * @param symbolInfo - 内部符号信息
+ * @param isExported - 限定后的符号在文件之外是否可见
+ * @returns 限定后的符号信息
+ */
+const qualifySymbol = (namespaceName: string, symbolInfo: SymbolInfo, isExported: boolean): SymbolInfo => ({
+  ...symbolInfo,
+  name: `${namespaceName}.${symbolInfo.name}`,
+  isExported,
+  memberOf: symbolInfo.memberOf ? `${namespaceName}.${symbolInfo.memberOf}` : namespaceName
+});
+
+/**
+ * 处理模块声明，包括命名空间、环境模块声明、模块增强与 `declare global`
+ *
+ * 模块体中的声明递归提取为以模块名称限定的符号。
+ *
  * @param decl - 模块声明
  * @param symbols - 符号集合
  * @param typeChecker - 类型检查器
  * @param sourceFile - 源文件
+ * @param options - 符号提取选项
  */
 const handleModuleDeclaration = (
   decl: ts.ModuleDeclaration,
   symbols: ExtractedSymbols,
   typeChecker: ts.TypeChecker,
-  sourceFile: ts.SourceFile
+  sourceFile: ts.SourceFile,
+  options: SymbolExtractionOptions
 ): void => {
   const symbol = typeChecker.getSymbolAtLocation(decl.name);
-  if (symbol) {
-    const isExported = hasExportModifier(decl);
-    const symbolInfo = createSymbolInfo(symbol, decl, typeChecker, sourceFile);
-    addSymbol(symbolInfo, isExported, symbols);
+  if (!symbol) {
+    return;
   }
+
+  // 环境模块以带引号的模块名命名，`declare global` 命名为 global
+  const name = ts.isStringLiteral(decl.name) ? `"${decl.name.text}"` : decl.name.text;
+  const augments = getAugmentedModule(decl, symbol, sourceFile, options.rootDir);
+  // 环境模块和全局增强中的声明无需 export 即对外可见；`namespace A.B` 中的 B 隐式导出
+  const isAmbient = !ts.isIdentifier(decl.name) || augments !== undefined;
+  const isExported = hasExportModifier(decl) || isAmbient || !!(decl.flags & ts.NodeFlags.NestedNamespace);
+
+  const symbolInfo = createSymbolInfo(symbol, decl, typeChecker, sourceFile);
+  addSymbol({ ...symbolInfo, name, ...(augments ? { augments } : {}) }, isExported, symbols);
+
+  if (!decl.body) {
+    return;
+  }
+  const contents: ExtractedSymbols = {
+    exports: new Map(),
+    internal: new Map(),
+    imports: symbols.imports
+  };
+  if (ts.isModuleBlock(decl.body)) {
+    decl.body.statements.forEach(statement => {
+      processStatement(statement, contents, typeChecker, sourceFile, options);
+    });
+  } else if (ts.isModuleDeclaration(decl.body)) {
+    handleModuleDeclaration(decl.body, contents, typeChecker, sourceFile, options);
+  }
+
+  contents.exports.forEach(inner => {
+    addSymbol(qualifySymbol(name, inner, isExported), isExported, symbols);
+  });
+  contents.internal.forEach(inner => {
+    addSymbol(qualifySymbol(name, inner, isExported && isAmbient), isExported && isAmbient, symbols);
+  });
 };
 
-export default handleModuleDeclaration; 
\ No newline at end of file
+export default handleModuleDeclaration;
@@ -4,6 +4,20 @@ import createSymbolInfo from './createSymbolInfo';
 import addSymbol from './addSymbol';
 import hasExportModifier from './hasExportModifier';
 
+/**
+ * 收集解构模式中绑定的所有元素，包括嵌套的解构
+ * @param pattern - 对象或数组解构模式
+ * @returns 绑定了标识符的解构元素
+ */
+const collectBindingElements = (pattern: ts.BindingPattern): ts.BindingElement[] => {
+  return pattern.elements.flatMap(element => {
+    if (ts.isOmittedExpression(element)) {
+      return [];
+    }
+    return ts.isIdentifier(element.name) ? [element] : collectBindingElements(element.name);
+  });
+};
+
 /**
  * 处理变量声明
  * @param stmt - 变量声明语句
@@ -34,7 +48,17 @@ const handleVariableStatement = (
         const symbolInfo = createSymbolInfo(symbol, declaration, typeChecker, sourceFile);
         addSymbol(symbolInfo, isExported, symbols);
       }
+      return;
     }
+
+    // 解构声明中每个绑定的名称都是独立的符号，以解构元素作为声明
+    collectBindingElements(decl.name).forEach(element => {
+      const symbol = typeChecker.getSymbolAtLocation(element.name);
+      if (symbol) {
+        const symbolInfo = createSymbolInfo(symbol, element, typeChecker, sourceFile);
+        addSymbol(symbolInfo, isExported, symbols);
+      }
+    });
   });
 };
 
@@ -22,9 +22,13 @@ const extractSymbolsFromFile = (
     imports: new Map()
   };
 
-  // 遍历顶层语句
-  sourceFile.statements.forEach(statement => {
-    processStatement(statement, symbols, typeChecker, sourceFile);
+  // 遍历顶层语句，导出声明最后处理，以便导出列表能找到其后声明的本地符号
+  const statements = [
+    ...sourceFile.statements.filter(statement => !ts.isExportDeclaration(statement)),
+    ...sourceFile.statements.filter(ts.isExportDeclaration)
+  ];
+  statements.forEach(statement => {
+    processStatement(statement, symbols, typeChecker, sourceFile, options);
   });
 
   // 计算符号依赖关系
@@ -0,0 +1,20 @@
+/**
+ * 拆分 formatSymbolId 生成的符号标识
+ * @param id - 符号标识
+ * @returns 模块路径、名称与声明种类，格式不符时返回 undefined
+ */
+const parseSymbolId = (id: string): { modulePath: string; name: string; declarationKind: string } | undefined => {
+  // 名称中可能出现 `#`（私有成员 `Cart.#items`）和 `:`（环境模块 `"node:fs"`），声明种类中两者都不会出现
+  const hash = id.indexOf('#');
+  const colon = id.lastIndexOf(':');
+  if (hash < 0 || colon < hash) {
+    return undefined;
+  }
+  return {
+    modulePath: id.slice(0, hash),
+    name: id.slice(hash + 1, colon),
+    declarationKind: id.slice(colon + 1)
+  };
+};
+
+export default parseSymbolId;
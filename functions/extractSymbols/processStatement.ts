@@ -1,5 +1,6 @@
 import ts from 'typescript';
 import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
+import type { SymbolExtractionOptions } from '@t/analysis/ExtractSymbolOptions';
 import handleVariableStatement from './handleVariableStatement';
 import handleFunctionDeclaration from './handleFunctionDeclaration';
 import handleClassDeclaration from './handleClassDeclaration';
@@ -9,12 +10,14 @@ import handleEnumDeclaration from './handleEnumDeclaration';
 import handleModuleDeclaration from './handleModuleDeclaration';
 import handleImportDeclaration from './handleImportDeclaration';
 import handleExportDeclaration from './handleExportDeclaration';
+import handleExportAssignment from './handleExportAssignment';
 
 const processStatement = (
   statement: ts.Statement,
   symbols: ExtractedSymbols,
   typeChecker: ts.TypeChecker,
-  sourceFile: ts.SourceFile
+  sourceFile: ts.SourceFile,
+  options: SymbolExtractionOptions
 ): void => {
   switch (statement.kind) {
     case ts.SyntaxKind.VariableStatement:
@@ -24,25 +27,28 @@ const processStatement = (
       handleFunctionDeclaration(statement as ts.FunctionDeclaration, symbols, typeChecker, sourceFile);
       break;
     case ts.SyntaxKind.ClassDeclaration:
-      handleClassDeclaration(statement as ts.ClassDeclaration, symbols, typeChecker, sourceFile);
+      handleClassDeclaration(statement as ts.ClassDeclaration, symbols, typeChecker, sourceFile, options);
       break;
     case ts.SyntaxKind.InterfaceDeclaration:
-      handleInterfaceDeclaration(statement as ts.InterfaceDeclaration, symbols, typeChecker, sourceFile);
+      handleInterfaceDeclaration(statement as ts.InterfaceDeclaration, symbols, typeChecker, sourceFile, options);
       break;
     case ts.SyntaxKind.TypeAliasDeclaration:
       handleTypeAliasDeclaration(statement as ts.TypeAliasDeclaration, symbols, typeChecker, sourceFile);
       break;
     case ts.SyntaxKind.EnumDeclaration:
-      handleEnumDeclaration(statement as ts.EnumDeclaration, symbols, typeChecker, sourceFile);
+      handleEnumDeclaration(statement as ts.EnumDeclaration, symbols, typeChecker, sourceFile, options);
       break;
     case ts.SyntaxKind.ImportDeclaration:
-      handleImportDeclaration(statement as ts.ImportDeclaration, symbols, sourceFile);
+      handleImportDeclaration(statement as ts.ImportDeclaration, symbols, typeChecker, sourceFile, options);
       break;
     case ts.SyntaxKind.ExportDeclaration:
-      handleExportDeclaration(statement as ts.ExportDeclaration, symbols);
+      handleExportDeclaration(statement as ts.ExportDeclaration, symbols, typeChecker, sourceFile, options);
+      break;
+    case ts.SyntaxKind.ExportAssignment:
+      handleExportAssignment(statement as ts.ExportAssignment, symbols, typeChecker, sourceFile);
       break;
     case ts.SyntaxKind.ModuleDeclaration:
-      handleModuleDeclaration(statement as ts.ModuleDeclaration, symbols, typeChecker, sourceFile);
+      handleModuleDeclaration(statement as ts.ModuleDeclaration, symbols, typeChecker, sourceFile, options);
       break;
   }
 };
@@ -0,0 +1,62 @@
+import ts from 'typescript';
+import { isBuiltin } from 'node:module';
+import type { ModuleResolution } from '@t/project/ModuleResolution';
+import getPackageName from './getPackageName';
+
+/**
+ * 解析模块说明符
+ * 
+ * 依次尝试：运行时内置模块（`node:` 前缀或内置模块名）、按编译选项
+ * 解析（遵循 `paths`、`baseUrl` 和包的 `exports` 映射），最后退回到
+ * 类型检查器已解析出的模块源文件。
+ * @param specifier - 模块说明符
+ * @param moduleSpecifier - 说明符所在的语法节点
+ * @param typeChecker - 类型检查器
+ * @param sourceFile - 发起导入的源文件
+ * @param compilerOptions - 编译选项，省略时只依赖类型检查器
+ * @param moduleResolutionCache - 按编译选项解析时复用的缓存
+ * @returns 模块解析结果
+ */
+const resolveModuleSpecifier = (
+  specifier: string,
+  moduleSpecifier: ts.Expression,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  compilerOptions?: ts.CompilerOptions,
+  moduleResolutionCache?: ts.ModuleResolutionCache
+): ModuleResolution => {
+  // `bun`、`bun:sqlite` 等运行时模块保持原名，其余内置模块统一为 `node:` 形式
+  if (specifier.startsWith('node:') || specifier.startsWith('bun:') || specifier === 'bun') {
+    return { packageName: specifier };
+  }
+  if (isBuiltin(specifier)) {
+    return { packageName: `node:${specifier}` };
+  }
+
+  const isBareSpecifier = !specifier.startsWith('.') && !specifier.startsWith('/');
+
+  if (compilerOptions) {
+    const { resolvedModule } = ts.resolveModuleName(specifier, sourceFile.fileName, compilerOptions, ts.sys, moduleResolutionCache);
+    if (resolvedModule) {
+      return resolvedModule.isExternalLibraryImport
+        ? {
+            resolvedFile: resolvedModule.resolvedFileName,
+            packageName: resolvedModule.packageId?.name ?? getPackageName(specifier)
+          }
+        : { resolvedFile: resolvedModule.resolvedFileName };
+    }
+  }
+
+  const moduleFile = typeChecker.getSymbolAtLocation(moduleSpecifier)?.declarations?.find(ts.isSourceFile);
+  if (moduleFile) {
+    const isExternal = moduleFile.fileName.includes('/node_modules/');
+    return isExternal && isBareSpecifier
+      ? { resolvedFile: moduleFile.fileName, packageName: getPackageName(specifier) }
+      : { resolvedFile: moduleFile.fileName };
+  }
+
+  // 未能解析的裸说明符视为外部包
+  return isBareSpecifier ? { packageName: getPackageName(specifier) } : {};
+};
+
+export default resolveModuleSpecifier;
@@ -3,6 +3,10 @@ export { default as analyzeProject } from './analyzeProject';
 export { default as createProjectContext, fromConfig, fromFiles, createDefaultOptions } from './createProjectContext';
 export { default as performTreeShaking } from './performTreeShaking';
 export { default as extractSymbolsFromFile } from './extractSymbols';
+export { default as validateTypeFile } from './validateTypeFile';
+export { default as checkInstanceBinding } from './checkInstanceBinding';
+export { default as lintProcbaseFile } from './lintProcbaseFile';
+export { default as applyValidationFixes } from './applyValidationFixes';
 
 // Symbol table exports
 export { default as createProjectSymbolTable } from './createProjectSymbolTable/index';
@@ -0,0 +1,125 @@
+import ts from 'typescript';
+import type { ImportInfo } from '@t/project/ImportInfo';
+import type { ValidationFix } from '@t/validation/ValidationFix';
+import type { ValidationIssue } from '@t/validation/ValidationIssue';
+import createValidationIssue from '@f/validateTypeFile/createValidationIssue';
+import getDeclarationImports from './getDeclarationImports';
+
+/**
+ * 找到导入信息对应的语法节点：默认导入为本地名称，命名导入为导入说明符
+ * @param importInfo - 导入信息
+ * @param importClause - 导入子句
+ * @returns 语法节点
+ */
+const getBindingNode = (
+  importInfo: ImportInfo,
+  importClause: ts.ImportClause
+): ts.Identifier | ts.ImportSpecifier | undefined => {
+  if (importInfo.isDefault) {
+    return importClause.name;
+  }
+  const namedBindings = importClause.namedBindings;
+  if (namedBindings && ts.isNamedImports(namedBindings)) {
+    return namedBindings.elements.find(element => element.name.text === importInfo.name);
+  }
+  return undefined;
+};
+
+/**
+ * 判断导入的符号是否只有类型含义
+ * @param node - 本地名称节点
+ * @param checker - 类型检查器
+ * @returns 是否为纯类型符号，无法解析时返回 false
+ */
+const isTypeOnlySymbol = (node: ts.Identifier, checker: ts.TypeChecker): boolean => {
+  const symbol = checker.getSymbolAtLocation(node);
+  if (!symbol || !(symbol.flags & ts.SymbolFlags.Alias)) {
+    return false;
+  }
+  const target = checker.getAliasedSymbol(symbol);
+  return target.flags !== ts.SymbolFlags.None && !(target.flags & ts.SymbolFlags.Value);
+};
+
+/**
+ * 将整个导入子句改写为 `import type`，同时去掉说明符上已有的 type 修饰
+ * @param importClause - 导入子句
+ * @param sourceFile - 源文件
+ * @returns 替换整个导入子句的修复
+ */
+const getTypeOnlyClauseFix = (importClause: ts.ImportClause, sourceFile: ts.SourceFile): ValidationFix => {
+  const start = importClause.getStart(sourceFile);
+  const namedBindings = importClause.namedBindings;
+  const modifiers = namedBindings && ts.isNamedImports(namedBindings)
+    ? namedBindings.elements
+      .filter(element => element.isTypeOnly)
+      .map(element => ({ start: element.getStart(sourceFile), end: (element.propertyName ?? element.name).getStart(sourceFile) }))
+    : [];
+
+  let newText = 'type ';
+  let cursor = start;
+  modifiers.forEach(modifier => {
+    newText += sourceFile.text.slice(cursor, modifier.start);
+    cursor = modifier.end;
+  });
+  newText += sourceFile.text.slice(cursor, importClause.end);
+  return { start, end: importClause.end, newText };
+};
+
+/**
+ * 检查导入声明引入的绑定：禁止星号导入，纯类型必须使用 `import type`
+ * @param importDecl - 导入声明
+ * @param sourceFile - 源文件
+ * @param checker - 类型检查器
+ * @returns 校验问题列表
+ */
+const checkImportBindings = (
+  importDecl: ts.ImportDeclaration,
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker
+): ValidationIssue[] => {
+  const importClause = importDecl.importClause;
+  if (!importClause) {
+    return [];
+  }
+
+  const imports = getDeclarationImports(importDecl, sourceFile, checker);
+  const isTypeOnlyImport = (importInfo: ImportInfo): boolean => {
+    const node = getBindingNode(importInfo, importClause);
+    return !importInfo.isTypeOnly && !!node && isTypeOnlySymbol(ts.isIdentifier(node) ? node : node.name, checker);
+  };
+
+  // 全部绑定都只有类型时整体改写为 import type；默认导入与命名导入混用时不能这样写
+  const clauseFix = !(importClause.name && importClause.namedBindings)
+    && imports.every(importInfo => importInfo.originalName !== '*' && (importInfo.isTypeOnly || isTypeOnlyImport(importInfo)))
+    ? getTypeOnlyClauseFix(importClause, sourceFile)
+    : undefined;
+
+  return imports.flatMap((importInfo): ValidationIssue[] => {
+    if (importInfo.originalName === '*') {
+      return [createValidationIssue(
+        'no-star-import',
+        `不允许星号导入，请改为命名导入: ${importInfo.name}`,
+        sourceFile,
+        importClause.getStart(sourceFile)
+      )];
+    }
+
+    const node = getBindingNode(importInfo, importClause);
+    if (!node || !isTypeOnlyImport(importInfo)) {
+      return [];
+    }
+
+    // 同一子句的问题共用整体修复，重叠的修复只会应用一次；混用默认导入时只能手动拆分
+    const position = node.getStart(sourceFile);
+    const specifierFix = ts.isImportSpecifier(node) ? { start: position, end: position, newText: 'type ' } : undefined;
+    return [createValidationIssue(
+      'type-only-import',
+      `类型必须使用 import type 导入: ${importInfo.name}`,
+      sourceFile,
+      position,
+      clauseFix ?? specifierFix
+    )];
+  });
+};
+
+export default checkImportBindings;
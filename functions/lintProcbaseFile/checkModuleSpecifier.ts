@@ -0,0 +1,99 @@
+import ts from 'typescript';
+import path from 'node:path';
+import { builtinModules } from 'node:module';
+import type { ValidationIssue } from '@t/validation/ValidationIssue';
+import createValidationIssue from '@f/validateTypeFile/createValidationIssue';
+import getImportHome from './getImportHome';
+
+// Bun lists its own modules alongside the Node builtins
+const NODE_BUILTINS = new Set(builtinModules.filter(name => !name.includes(':') && name !== 'bun'));
+
+const AREA_ALIASES: Record<string, string> = {
+  types: '@t',
+  instances: '@i'
+};
+
+/**
+ * 将跨目录的相对导入改写为 `@t/` 或 `@i/` 别名
+ * @param procbaseRoot - procbase 根目录
+ * @param fileName - 导入所在的文件名
+ * @param specifier - 相对模块说明符
+ * @returns 别名说明符，目标不在 types 或 instances 目录时返回 undefined
+ */
+const toAliasSpecifier = (procbaseRoot: string, fileName: string, specifier: string): string | undefined => {
+  const target = path.resolve(path.dirname(fileName), specifier);
+  const [area, ...rest] = path.relative(procbaseRoot, target).split(path.sep);
+  const alias = area ? AREA_ALIASES[area] : undefined;
+  return alias && rest.length > 0 ? [alias, ...rest].join('/') : undefined;
+};
+
+/**
+ * 判断相对导入的目标是否在允许相对导入的范围内
+ * @param procbaseRoot - procbase 根目录
+ * @param fileName - 导入所在的文件名
+ * @param specifier - 相对模块说明符
+ * @returns 是否允许使用相对路径
+ */
+const isWithinHome = (procbaseRoot: string, fileName: string, specifier: string): boolean => {
+  const home = getImportHome(procbaseRoot, fileName);
+  if (!home) {
+    return true;
+  }
+
+  const target = path.resolve(path.dirname(fileName), specifier);
+  if (!home.includeSubdirectories) {
+    return path.dirname(target) === home.dir;
+  }
+  const relative = path.relative(home.dir, target);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
+/**
+ * 检查导入声明的模块说明符：跨目录导入必须使用别名，Node 内置模块必须带 `node:` 前缀
+ * @param importDecl - 导入声明
+ * @param sourceFile - 源文件
+ * @param procbaseRoot - procbase 根目录
+ * @returns 校验问题列表
+ */
+const checkModuleSpecifier = (
+  importDecl: ts.ImportDeclaration,
+  sourceFile: ts.SourceFile,
+  procbaseRoot: string
+): ValidationIssue[] => {
+  if (!ts.isStringLiteral(importDecl.moduleSpecifier)) {
+    return [];
+  }
+
+  const specifierNode = importDecl.moduleSpecifier;
+  const specifier = specifierNode.text;
+  const start = specifierNode.getStart(sourceFile);
+  const end = specifierNode.getEnd();
+  // 保留原有的引号风格
+  const quote = sourceFile.text.charAt(start);
+  const replaceWith = (newSpecifier: string) => ({ start, end, newText: `${quote}${newSpecifier}${quote}` });
+
+  if (specifier.startsWith('.') && !isWithinHome(procbaseRoot, sourceFile.fileName, specifier)) {
+    const alias = toAliasSpecifier(procbaseRoot, sourceFile.fileName, specifier);
+    return [createValidationIssue(
+      'alias-import',
+      `跨目录导入必须使用 @t/ 或 @i/ 别名，发现 '${specifier}'`,
+      sourceFile,
+      start,
+      alias ? replaceWith(alias) : undefined
+    )];
+  }
+
+  if (NODE_BUILTINS.has(specifier)) {
+    return [createValidationIssue(
+      'node-protocol',
+      `Node 内置模块必须使用 node: 前缀，发现 '${specifier}'`,
+      sourceFile,
+      start,
+      replaceWith(`node:${specifier}`)
+    )];
+  }
+
+  return [];
+};
+
+export default checkModuleSpecifier;
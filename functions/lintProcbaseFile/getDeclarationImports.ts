@@ -0,0 +1,27 @@
+import ts from 'typescript';
+import type { ExtractedSymbols } from '@t/project/ExtractedSymbols';
+import type { ImportInfo } from '@t/project/ImportInfo';
+import handleImportDeclaration from '@f/extractSymbols/handleImportDeclaration';
+
+/**
+ * 获取单个导入声明引入的所有导入信息
+ * @param importDecl - 导入声明
+ * @param sourceFile - 源文件
+ * @param checker - 类型检查器
+ * @returns 导入信息列表，副作用导入返回空列表
+ */
+const getDeclarationImports = (
+  importDecl: ts.ImportDeclaration,
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker
+): ImportInfo[] => {
+  const symbols: ExtractedSymbols = {
+    exports: new Map(),
+    internal: new Map(),
+    imports: new Map()
+  };
+  handleImportDeclaration(importDecl, symbols, checker, sourceFile);
+  return Array.from(symbols.imports.values());
+};
+
+export default getDeclarationImports;
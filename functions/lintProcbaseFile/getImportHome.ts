@@ -0,0 +1,28 @@
+import path from 'node:path';
+
+/**
+ * 获取文件可以使用相对路径导入的范围
+ *
+ * 实例文件可以相对导入同一实例目录下的任意文件，类型文件只能相对导入
+ * 同一目录下的文件。其余文件不受限制。
+ *
+ * @param procbaseRoot - procbase 根目录
+ * @param fileName - 文件名
+ * @returns 允许相对导入的目录及是否包含子目录，不受限制时返回 null
+ */
+const getImportHome = (
+  procbaseRoot: string,
+  fileName: string
+): { dir: string; includeSubdirectories: boolean } | null => {
+  const [area, instanceName] = path.relative(procbaseRoot, fileName).split(path.sep);
+
+  if (area === 'instances' && instanceName) {
+    return { dir: path.join(procbaseRoot, 'instances', instanceName), includeSubdirectories: true };
+  }
+  if (area === 'types') {
+    return { dir: path.dirname(fileName), includeSubdirectories: false };
+  }
+  return null;
+};
+
+export default getImportHome;
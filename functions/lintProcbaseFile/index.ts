@@ -0,0 +1,44 @@
+import ts from 'typescript';
+import path from 'node:path';
+import type { ValidationIssue } from '@t/validation/ValidationIssue';
+import createValidationIssue from '@f/validateTypeFile/createValidationIssue';
+import checkModuleSpecifier from './checkModuleSpecifier';
+import checkImportBindings from './checkImportBindings';
+
+/**
+ * 按 procbase 目录规则检查单个文件
+ *
+ * 规则包括：types 目录中不允许 index.ts、不允许星号导入、纯类型必须使用
+ * `import type`、跨目录导入必须使用 `@t/`/`@i/` 别名、Node 内置模块必须
+ * 使用 `node:` 前缀。可以机械修复的问题附带自动修复。
+ *
+ * @param program - 包含该文件的 TypeScript 程序
+ * @param fileName - 文件名
+ * @param procbaseRoot - procbase 根目录
+ * @returns 校验问题列表，为空表示检查通过
+ */
+const lintProcbaseFile = (program: ts.Program, fileName: string, procbaseRoot: string): ValidationIssue[] => {
+  const sourceFile = program.getSourceFile(fileName);
+  if (!sourceFile) {
+    return [];
+  }
+
+  const checker = program.getTypeChecker();
+  const issues: ValidationIssue[] = [];
+
+  const [area] = path.relative(procbaseRoot, fileName).split(path.sep);
+  if (area === 'types' && path.basename(fileName) === 'index.ts') {
+    issues.push(createValidationIssue('no-index-in-types', 'types 目录中不允许 index.ts 文件', sourceFile, 0));
+  }
+
+  sourceFile.statements.filter(ts.isImportDeclaration).forEach(importDecl => {
+    issues.push(
+      ...checkModuleSpecifier(importDecl, sourceFile, procbaseRoot),
+      ...checkImportBindings(importDecl, sourceFile, checker)
+    );
+  });
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+};
+
+export default lintProcbaseFile;
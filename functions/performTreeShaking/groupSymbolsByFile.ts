@@ -1,4 +1,5 @@
 import type { ProjectSymbolTableState } from '@t/project/ProjectSymbolTableState';
+import parseSymbolId from '@f/extractSymbols/parseSymbolId';
 
 /**
  * 按文件分组符号
@@ -13,18 +14,11 @@ const groupSymbolsByFile = (
   const result = new Map<string, string[]>();
   
   symbols.forEach(symbolName => {
-    const parts = symbolName.split(':');
-    if (parts.length >= 2) {
-      const [fileName, localName] = parts;
-      if (fileName && localName) {
-        if (!result.has(fileName)) {
-          result.set(fileName, []);
-        }
-        const fileArray = result.get(fileName);
-        if (fileArray) {
-          fileArray.push(localName);
-        }
-      }
+    const parsed = parseSymbolId(symbolName);
+    if (parsed) {
+      const fileArray = result.get(parsed.modulePath) ?? [];
+      fileArray.push(parsed.name);
+      result.set(parsed.modulePath, fileArray);
     }
   });
   
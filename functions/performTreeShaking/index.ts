@@ -20,11 +20,11 @@ const performTreeShaking = (
 ): TreeShakingResult => {
   const { symbolTable } = projectAnalysis;
 
-  // 计算符号闭包
-  const includedSymbols = calculateClosure(symbolTable, entryPoints);
+  // 计算符号闭包，不跟踪仅类型导入时只保留运行时需要的符号
+  const includedSymbols = calculateClosure(symbolTable, entryPoints, options);
 
   // 查找未使用的符号
-  const unusedSymbols = findUnusedSymbols(symbolTable, Array.from(includedSymbols));
+  const unusedSymbols = findUnusedSymbols(symbolTable, Array.from(includedSymbols), options);
 
   // 按文件分组
   const includedByFile = groupSymbolsByFile(includedSymbols, symbolTable);
@@ -0,0 +1,85 @@
+import ts from 'typescript';
+import type { ValidationIssue } from '@t/validation/ValidationIssue';
+import createValidationIssue from './createValidationIssue';
+
+/**
+ * 检查导入声明是否只导入类型
+ * @param importDecl - 导入声明
+ * @param sourceFile - 源文件
+ * @returns 校验问题列表
+ */
+const checkImportDeclaration = (
+  importDecl: ts.ImportDeclaration,
+  sourceFile: ts.SourceFile
+): ValidationIssue[] => {
+  const clause = importDecl.importClause;
+  const start = importDecl.getStart(sourceFile);
+
+  if (!clause) {
+    return [createValidationIssue('type-only-import', '类型文件中不允许副作用导入', sourceFile, start)];
+  }
+
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    return [createValidationIssue('no-star-import', `不允许星号导入: * as ${bindings.name.text}`, sourceFile, start)];
+  }
+
+  const isTypeOnly = clause.isTypeOnly || (
+    !clause.name &&
+    !!bindings &&
+    ts.isNamedImports(bindings) &&
+    bindings.elements.every(element => element.isTypeOnly)
+  );
+
+  return isTypeOnly
+    ? []
+    : [createValidationIssue('type-only-import', '类型文件中的导入必须使用 `import type`', sourceFile, start)];
+};
+
+/**
+ * 获取语句种类的可读名称（SyntaxKind 的反向映射会返回 FirstStatement 之类的别名）
+ * @param statement - 顶层语句
+ * @returns 语句种类名称
+ */
+const describeStatement = (statement: ts.Statement): string => {
+  if (ts.isVariableStatement(statement)) return '变量声明';
+  if (ts.isFunctionDeclaration(statement)) return '函数声明';
+  if (ts.isClassDeclaration(statement)) return '类声明';
+  if (ts.isEnumDeclaration(statement)) return '枚举声明';
+  if (ts.isModuleDeclaration(statement)) return '命名空间声明';
+  if (ts.isExportAssignment(statement)) return '默认导出';
+  if (ts.isExportDeclaration(statement)) return '值导出';
+  return ts.SyntaxKind[statement.kind] ?? '未知语句';
+};
+
+/**
+ * 检查类型文件中的顶层语句，类型文件只允许纯编译期声明
+ * @param statement - 顶层语句
+ * @param sourceFile - 源文件
+ * @returns 校验问题列表
+ */
+const checkTypeStatement = (
+  statement: ts.Statement,
+  sourceFile: ts.SourceFile
+): ValidationIssue[] => {
+  if (ts.isTypeAliasDeclaration(statement) || ts.isInterfaceDeclaration(statement)) {
+    return [];
+  }
+
+  if (ts.isImportDeclaration(statement)) {
+    return checkImportDeclaration(statement, sourceFile);
+  }
+
+  if (ts.isExportDeclaration(statement) && statement.isTypeOnly) {
+    return [];
+  }
+
+  return [createValidationIssue(
+    'type-only-declarations',
+    `types 目录中只允许类型声明，发现${describeStatement(statement)}`,
+    sourceFile,
+    statement.getStart(sourceFile)
+  )];
+};
+
+export default checkTypeStatement;
@@ -0,0 +1,33 @@
+import ts from 'typescript';
+import type { ValidationIssue } from '@t/validation/ValidationIssue';
+import type { ValidationFix } from '@t/validation/ValidationFix';
+
+/**
+ * 创建指向源码位置的校验问题
+ * @param rule - 违反的规则标识
+ * @param message - 问题描述
+ * @param sourceFile - 源文件
+ * @param position - 问题在源文件中的字符偏移量
+ * @param fix - 可选的自动修复
+ * @returns 校验问题
+ */
+const createValidationIssue = (
+  rule: string,
+  message: string,
+  sourceFile: ts.SourceFile,
+  position: number,
+  fix?: ValidationFix
+): ValidationIssue => {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+
+  return {
+    rule,
+    message,
+    fileName: sourceFile.fileName,
+    line: line + 1,
+    column: character + 1,
+    ...(fix ? { fix } : {})
+  };
+};
+
+export default createValidationIssue;
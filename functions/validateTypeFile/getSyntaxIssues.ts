@@ -0,0 +1,26 @@
+import ts from 'typescript';
+import type { ValidationIssue } from '@t/validation/ValidationIssue';
+import createValidationIssue from './createValidationIssue';
+
+/**
+ * 获取源文件中的语法错误
+ * @param sourceFile - 源文件
+ * @returns 语法错误对应的校验问题列表
+ */
+const getSyntaxIssues = (sourceFile: ts.SourceFile): ValidationIssue[] => {
+  const { diagnostics = [] } = ts.transpileModule(sourceFile.text, {
+    fileName: sourceFile.fileName,
+    reportDiagnostics: true
+  });
+
+  return diagnostics
+    .filter(d => d.category === ts.DiagnosticCategory.Error)
+    .map(d => createValidationIssue(
+      'syntax',
+      ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+      sourceFile,
+      d.start ?? 0
+    ));
+};
+
+export default getSyntaxIssues;
@@ -0,0 +1,66 @@
+import ts from 'typescript';
+import hasExportModifier from '@f/extractSymbols/hasExportModifier';
+
+/**
+ * 收集文件中可以作为类型导出的本地名称：顶层类型别名、接口以及导入的绑定
+ *
+ * 类型文件的导入必须使用 `import type`，因此导入的绑定都是类型。
+ *
+ * @param sourceFile - 源文件
+ * @returns 本地类型名称集合
+ */
+const getLocalTypeNames = (sourceFile: ts.SourceFile): Set<string> => {
+  const names = new Set<string>();
+  sourceFile.statements.forEach(statement => {
+    if (ts.isTypeAliasDeclaration(statement) || ts.isInterfaceDeclaration(statement)) {
+      names.add(statement.name.text);
+    }
+    const clause = ts.isImportDeclaration(statement) ? statement.importClause : undefined;
+    if (clause?.name) {
+      names.add(clause.name.text);
+    }
+    if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+      clause.namedBindings.elements.forEach(element => names.add(element.name.text));
+    }
+  });
+  return names;
+};
+
+/**
+ * 判断导出声明是否导出了至少一个类型
+ *
+ * 本地说明符必须指向本文件的类型或导入的类型；从其他模块重新导出的名称
+ * 按类型计算，因为被导出的类型文件同样只允许类型声明。
+ *
+ * @param exportDecl - 导出声明
+ * @param localTypes - 本地类型名称集合
+ * @returns 是否导出了类型
+ */
+const exportsType = (exportDecl: ts.ExportDeclaration, localTypes: Set<string>): boolean => {
+  const clause = exportDecl.exportClause;
+  if (exportDecl.moduleSpecifier) {
+    return !clause || !ts.isNamedExports(clause) || clause.elements.length > 0;
+  }
+  return !!clause && ts.isNamedExports(clause) && clause.elements.some(element =>
+    localTypes.has((element.propertyName ?? element.name).text)
+  );
+};
+
+/**
+ * 判断类型文件是否至少导出一个类型
+ *
+ * 带导出修饰的类型别名和接口直接计算；`export { ... }` 形式只计算
+ * 指向类型的说明符，空的导出子句不算导出。
+ *
+ * @param sourceFile - 源文件
+ * @returns 是否导出了类型
+ */
+const hasExportedType = (sourceFile: ts.SourceFile): boolean => {
+  const localTypes = getLocalTypeNames(sourceFile);
+  return sourceFile.statements.some(statement =>
+    ((ts.isTypeAliasDeclaration(statement) || ts.isInterfaceDeclaration(statement)) && hasExportModifier(statement)) ||
+    (ts.isExportDeclaration(statement) && exportsType(statement, localTypes))
+  );
+};
+
+export default hasExportedType;
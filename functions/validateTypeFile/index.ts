@@ -0,0 +1,48 @@
+import ts from 'typescript';
+import path from 'node:path';
+import type { ValidationIssue } from '@t/validation/ValidationIssue';
+import createValidationIssue from './createValidationIssue';
+import getSyntaxIssues from './getSyntaxIssues';
+import checkTypeStatement from './checkTypeStatement';
+import hasExportedType from './hasExportedType';
+
+/**
+ * 按 procbase 规则校验类型文件
+ *
+ * 类型文件必须是 `.ts` 文件、不能是 `index.ts`、没有语法错误、
+ * 只包含纯编译期声明，并且至少导出一个类型。
+ *
+ * @param fileName - 文件名
+ * @param code - 文件内容
+ * @returns 校验问题列表，为空表示校验通过
+ */
+const validateTypeFile = (fileName: string, code: string): ValidationIssue[] => {
+  const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true);
+
+  if (path.extname(fileName) !== '.ts') {
+    return [createValidationIssue('type-file-extension', '类型文件必须是 .ts 文件', sourceFile, 0)];
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  if (path.basename(fileName) === 'index.ts') {
+    issues.push(createValidationIssue('no-index-in-types', 'types 目录中不允许 index.ts 文件', sourceFile, 0));
+  }
+
+  const syntaxIssues = getSyntaxIssues(sourceFile);
+  if (syntaxIssues.length > 0) {
+    return [...issues, ...syntaxIssues];
+  }
+
+  sourceFile.statements.forEach(statement => {
+    issues.push(...checkTypeStatement(statement, sourceFile));
+  });
+
+  if (!hasExportedType(sourceFile)) {
+    issues.push(createValidationIssue('exported-type', '类型文件必须至少导出一个类型', sourceFile, 0));
+  }
+
+  return issues;
+};
+
+export default validateTypeFile;
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import ts from 'typescript';
+import { getProcbaseAnalysisContext } from '../analysisContext';
+
+describe('getProcbaseAnalysisContext', () => {
+  let root: string;
+  let tsConfigPath: string;
+
+  // The stamp is the mtime, so move it forward explicitly in case two writes share a millisecond
+  const writeTsConfig = (compilerOptions: Record<string, unknown>) => {
+    const previous = fs.statSync(tsConfigPath, { throwIfNoEntry: false })?.mtime.getTime() ?? Date.now();
+    fs.writeFileSync(tsConfigPath, JSON.stringify({ compilerOptions }));
+    const later = new Date(previous + 1000);
+    fs.utimesSync(tsConfigPath, later, later);
+  };
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-context-')));
+    tsConfigPath = path.join(root, 'tsconfig.json');
+    fs.mkdirSync(path.join(root, 'types'));
+    fs.writeFileSync(path.join(root, 'types', 'Angle.ts'), 'export type Angle = number;\n');
+  });
+
+  afterEach(() => {
+    getProcbaseAnalysisContext(root).session.dispose();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('没有 tsconfig.json 时应该使用默认选项并复用同一个上下文', () => {
+    const context = getProcbaseAnalysisContext(root);
+    expect(context.compilerOptions).toMatchObject({ strict: true, moduleResolution: ts.ModuleResolutionKind.Bundler });
+    expect(getProcbaseAnalysisContext(root)).toBe(context);
+  });
+
+  it('tsconfig.json 创建、修改或删除后应该重建上下文', () => {
+    const defaults = getProcbaseAnalysisContext(root);
+    defaults.session.update();
+    const dispose = spyOn(defaults.session, 'dispose');
+
+    writeTsConfig({ strict: false, target: 'ES2020' });
+    const created = getProcbaseAnalysisContext(root);
+    expect(created).not.toBe(defaults);
+    expect(created.compilerOptions).toMatchObject({ strict: false, target: ts.ScriptTarget.ES2020 });
+    expect(dispose).toHaveBeenCalled();
+    // The new session starts over with the new options
+    expect(created.session.update().analyzed.size).toBe(1);
+
+    writeTsConfig({ strict: true, target: 'ES2022' });
+    const changed = getProcbaseAnalysisContext(root);
+    expect(changed).not.toBe(created);
+    expect(changed.compilerOptions).toMatchObject({ strict: true, target: ts.ScriptTarget.ES2022 });
+
+    fs.rmSync(tsConfigPath);
+    const removed = getProcbaseAnalysisContext(root);
+    expect(removed).not.toBe(changed);
+    expect(removed.compilerOptions).toMatchObject({ strict: true, moduleResolution: ts.ModuleResolutionKind.Bundler });
+  });
+});
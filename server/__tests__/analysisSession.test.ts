@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import ts from 'typescript';
+import { createAnalysisSession, type AnalysisSession } from '../analysisSession';
+
+const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  strict: true
+};
+
+describe('createAnalysisSession', () => {
+  let root: string;
+  let session: AnalysisSession;
+  let vecFile: string;
+  let lineFile: string;
+  let shapeFile: string;
+  let angleFile: string;
+
+  const writeSource = (modulePath: string, source: string) => {
+    const filePath = path.join(root, modulePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, source);
+    return filePath;
+  };
+
+  // Writes within the same millisecond can keep the mtime, so move it forward explicitly
+  const edit = (filePath: string, source: string) => {
+    const { mtime } = fs.statSync(filePath);
+    fs.writeFileSync(filePath, source);
+    const later = new Date(mtime.getTime() + 1000);
+    fs.utimesSync(filePath, later, later);
+  };
+
+  const analyzedFiles = (changedFiles?: string[]) => {
+    return Array.from(session.update(changedFiles).analyzed.keys()).sort();
+  };
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-session-')));
+    // Shape imports Line, which imports Vec; Angle stands alone
+    vecFile = writeSource('types/Geo/Vec.ts', `export type Vec = { x: number; y: number };`);
+    lineFile = writeSource('types/Geo/Line.ts', `import type { Vec } from './Vec';\nexport type Line = { from: Vec; to: Vec };`);
+    shapeFile = writeSource('types/Geo/Shape.ts', `import type { Line } from './Line';\nexport type Shape = { edges: Line[] };`);
+    angleFile = writeSource('types/Geo/Angle.ts', `export type Angle = number;`);
+    session = createAnalysisSession(root, compilerOptions);
+  });
+
+  afterEach(() => {
+    session.dispose();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('第一次更新应该分析全部文件，之后没有变化的更新不分析任何文件', () => {
+    expect(analyzedFiles()).toEqual([angleFile, lineFile, shapeFile, vecFile]);
+
+    const untouched = session.update();
+    expect(untouched.analyzed.size).toBe(0);
+    expect(untouched.removedFiles).toEqual([]);
+    expect(session.getStats()).toMatchObject({ trackedFiles: 4, updates: 2, filesAnalyzed: 4, lastUpdate: { changedFiles: 0, analyzedFiles: 0 } });
+  });
+
+  it('修改文件时应该只重新提取它和导入它的文件', () => {
+    session.update();
+
+    edit(vecFile, `export type Vec = { x: number; y: number; z: number };`);
+    expect(analyzedFiles()).toEqual([lineFile, shapeFile, vecFile]);
+
+    edit(shapeFile, `import type { Line } from './Line';\nexport type Shape = { edges: Line[]; closed: boolean };`);
+    expect(analyzedFiles()).toEqual([shapeFile]);
+
+    // A named file counts as changed even when its mtime is the same
+    expect(analyzedFiles([angleFile])).toEqual([angleFile]);
+  });
+
+  it('删除的文件应该出现在 removedFiles 中，并重新提取导入它的文件', () => {
+    session.update();
+
+    fs.rmSync(angleFile);
+    const removedAlone = session.update();
+    expect(removedAlone.removedFiles).toEqual([angleFile]);
+    expect(removedAlone.analyzed.size).toBe(0);
+
+    fs.rmSync(vecFile);
+    const removedImported = session.update();
+    expect(removedImported.removedFiles).toEqual([vecFile]);
+    expect(Array.from(removedImported.analyzed.keys()).sort()).toEqual([lineFile, shapeFile]);
+    expect(session.getStats().trackedFiles).toBe(2);
+  });
+
+  it('只给出文件时不应该扫描整个 procbase', () => {
+    expect(analyzedFiles([vecFile])).toEqual([vecFile]);
+    expect(session.getStats().trackedFiles).toBe(1);
+
+    // A rescan picks up the rest
+    expect(Array.from(session.update([], { rescan: true }).analyzed.keys()).sort()).toEqual([angleFile, lineFile, shapeFile]);
+    expect(session.getStats().trackedFiles).toBe(4);
+  });
+
+  it('分析过 procbase 之外的文件后不应该继续跟踪它', () => {
+    const outside = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-session-outside-')));
+    try {
+      const scratchFile = path.join(outside, 'Scratch.ts');
+      fs.writeFileSync(scratchFile, `export type Scratch = string;`);
+      session.update();
+
+      expect(analyzedFiles([scratchFile])).toEqual([scratchFile]);
+      expect(session.getStats().trackedFiles).toBe(4);
+      expect(session.getProgram().getSourceFile(scratchFile)).toBeUndefined();
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('新增文件后之前无法解析的导入应该指向它', () => {
+    const circleFile = writeSource('types/Geo/Circle.ts', `import type { Radius } from './Radius';\nexport type Circle = { radius: Radius };`);
+    const before = session.update().analyzed.get(circleFile);
+    expect(before?.imports.get('Radius')?.resolvedFile).toBeUndefined();
+
+    const radiusFile = writeSource('types/Geo/Radius.ts', `export type Radius = number;`);
+    const after = session.update().analyzed;
+    expect(Array.from(after.keys()).sort()).toEqual([circleFile, radiusFile]);
+    expect(after.get(circleFile)?.imports.get('Radius')?.resolvedFile).toBe(radiusFile);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { analyzeTool } from '../tools/analyze';
+import { getProcbaseAnalysisContext } from '../analysisContext';
+
+const CATEGORY_SOURCE = `
+import { helper } from './helper';
+export { helper as aid };
+export type Id = string;
+export class Box {}
+export interface Shape { size: number }
+export enum Color { Red }
+export namespace Geo { export const unit = 1; }
+export function area(shape: Shape): number { return shape.size; }
+export const { width, height: [tall] } = { width: 1, height: [2] };
+export let counter = 0;
+export var legacy = helper();
+export default area;
+`;
+
+describe('analyzeTool', () => {
+  const previousRoot = process.env.PROCBASE_ROOT;
+  let root: string;
+  let procbaseRoot: string;
+  let filePath: string;
+
+  beforeAll(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'analyze-tool-')));
+    procbaseRoot = path.join(root, 'demo');
+    filePath = path.join(procbaseRoot, 'functions', 'shapes.ts');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, CATEGORY_SOURCE);
+    fs.writeFileSync(path.join(procbaseRoot, 'functions', 'helper.ts'), 'export const helper = (): number => 1;\n');
+    fs.symlinkSync(procbaseRoot, path.join(root, '__current__'));
+    process.env.PROCBASE_ROOT = root;
+  });
+
+  afterAll(() => {
+    getProcbaseAnalysisContext(procbaseRoot).session.dispose();
+    if (previousRoot === undefined) {
+      delete process.env.PROCBASE_ROOT;
+    } else {
+      process.env.PROCBASE_ROOT = previousRoot;
+    }
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('应该把每种声明归入自己的分类', () => {
+    const { symbols } = analyzeTool.createSerializableAnalysis(analyzeTool.analyzeFile(filePath));
+    const names = Object.fromEntries(
+      Object.entries(symbols).map(([category, list]) => [category, list.map(symbol => symbol.name).sort()])
+    );
+
+    expect(names).toEqual({
+      type: ['Id'],
+      class: ['Box'],
+      interface: ['Shape'],
+      enum: ['Color'],
+      namespace: ['Geo'],
+      function: ['area'],
+      const: ['Geo.unit', 'tall', 'width'],
+      let: ['counter'],
+      var: ['legacy'],
+      alias: ['aid'],
+      default: ['default']
+    });
+  });
+});
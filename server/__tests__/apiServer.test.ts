@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createApiRequestListener, type ApiHandlers } from '../apiServer';
+import { createApiClient } from '../apiClient';
+
+const notUsed = () => {
+  throw new Error('Not used by these tests');
+};
+
+const handlers: ApiHandlers = {
+  health: () => ({ status: 'ok', timestamp: '2026-01-01T00:00:00.000Z', procbase: '/procbase/demo', analysis: null }),
+  analyze: notUsed,
+  symbols: notUsed,
+  lookup: ({ reference }) => reference === 'Vec'
+    ? {
+      status: 'found',
+      symbol: { id: 'types/Geo/Vec.ts#Vec:type', name: 'Vec', filePath: '/procbase/demo/types/Geo/Vec.ts', declarationKind: 'type', isExported: true },
+      result: { id: 'types/Geo/Vec.ts#Vec:type', name: 'Vec', filePath: '/procbase/demo/types/Geo/Vec.ts', declarationKind: 'type', isExported: true }
+    }
+    : { status: 'not-found', reference },
+  dependencies: notUsed,
+  dependents: notUsed,
+  closure: notUsed,
+  reverseClosure: notUsed,
+  path: notUsed,
+  cycles: notUsed,
+  subtypes: notUsed,
+  search: notUsed,
+  reindex: () => {
+    throw new Error('Index is locked');
+  }
+};
+
+describe('createApiRequestListener', () => {
+  let server: Server;
+  let baseUrl: string;
+  const spies: { mockRestore(): void }[] = [];
+
+  const readError = async (response: Response) => ((await response.json()) as { error: string }).error;
+
+  const post = (pathname: string, body: string) => fetch(`${baseUrl}${pathname}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body
+  });
+
+  beforeAll(async () => {
+    // Request logging is not what these tests look at
+    spies.push(spyOn(console, 'log').mockImplementation(() => {}), spyOn(console, 'error').mockImplementation(() => {}));
+    server = createServer(createApiRequestListener(handlers));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    spies.forEach(spy => spy.mockRestore());
+  });
+
+  it('应该按方法和路径路由到处理函数', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, data: await handlers.health({}) });
+  });
+
+  it('未知的路由应该返回 404', async () => {
+    const unknown = await fetch(`${baseUrl}/nope`);
+    expect(unknown.status).toBe(404);
+    expect(await readError(unknown)).toBe('Not found');
+
+    // The path exists, but only for POST
+    expect((await fetch(`${baseUrl}/lookup`)).status).toBe(404);
+  });
+
+  it('无效的 JSON 和不符合契约的请求应该返回 400', async () => {
+    const malformed = await post('/lookup', '{"reference":');
+    expect(malformed.status).toBe(400);
+    expect(await readError(malformed)).toBe('Request body must be valid JSON');
+
+    const invalid = await post('/lookup', JSON.stringify({ reference: '' }));
+    expect(invalid.status).toBe(400);
+    expect(await readError(invalid)).toContain('reference');
+  });
+
+  it('处理函数抛出的错误应该返回 500 且不包含堆栈', async () => {
+    const response = await post('/reindex', JSON.stringify({ paths: ['types'] }));
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ success: false, error: 'Index is locked' });
+  });
+
+  it('客户端应该完成一次往返并把服务器错误转为简短的异常', async () => {
+    const client = createApiClient(baseUrl);
+    expect(await client.lookup({ reference: 'Vec' })).toMatchObject({ status: 'found', symbol: { name: 'Vec' } });
+    expect(await client.lookup({ reference: 'Missing' })).toEqual({ status: 'not-found', reference: 'Missing' });
+
+    const error = await client.reindex({ paths: ['types'] }).catch((error: Error) => error);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toBe('Server error (500): Index is locked');
+  });
+});
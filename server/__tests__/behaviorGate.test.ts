@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { addInstanceTool } from '../tools/add-instance';
+import { addBehaviorTool } from '../tools/add-behavior';
+import { bindBehaviorTool } from '../tools/bind-behavior';
+import { updateInstanceTool } from '../tools/update-instance';
+import { getProcbaseAnalysisContext } from '../analysisContext';
+import { lintProcbaseTool } from '../tools/lint-procbase';
+import { searchBehaviorsTool } from '../tools/search-behaviors';
+import { closeSemanticIndexer } from '../semanticIndex';
+import { getInstalledBehaviorDirPath } from '../../common/paths';
+import { getCodeAnalyzer, closeCodeAnalyzer } from '../codeAnalyzer';
+
+// Installed suites live in instances/<name>/__tests__/<behavior>/, two levels below the instance entry
+const AT_ORIGIN_TEST = `
+import { it, expect } from 'bun:test';
+import point from '../../index';
+
+it('sits at the origin', () => {
+  expect(point).toEqual({ x: 0, y: 0 });
+});
+`;
+
+const UNIT_LENGTH_TEST = `
+import { it, expect } from 'bun:test';
+import point from '../../index';
+
+it('has unit length', () => {
+  expect(Math.hypot(point.x, point.y)).toBeCloseTo(1);
+});
+`;
+
+// Each gate spawns `bun test`, well past the default per-test timeout
+const GATE_TIMEOUT_MS = 60_000;
+
+describe('behavior gate', () => {
+  const previousRoot = process.env.PROCBASE_ROOT;
+  let root: string;
+  let procbaseRoot: string;
+  let sourcesDir: string;
+
+  const writeFile = (filePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const writePoint = (name: string, x: number, y: number) => {
+    return writeFile(path.join(sourcesDir, `${name}.ts`), `export default { x: ${x}, y: ${y} };\n`);
+  };
+
+  const readInstance = (instanceName: string) => {
+    return fs.readFileSync(path.join(procbaseRoot, 'instances', instanceName, 'index.ts'), 'utf8');
+  };
+
+  const getBoundBehaviors = (instanceName: string) => {
+    return getCodeAnalyzer(procbaseRoot).getBoundBehaviors(instanceName);
+  };
+
+  beforeAll(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'behavior-gate-')));
+    procbaseRoot = path.join(root, 'demo');
+    sourcesDir = path.join(root, 'sources');
+    writeFile(path.join(procbaseRoot, 'types', 'Geo', 'Vec.ts'), 'export type Vec = { x: number; y: number };\n');
+    writeFile(path.join(procbaseRoot, 'package.json'), JSON.stringify({ procbase: { embedding: { provider: 'hashed', dimensions: 64 } } }));
+    fs.symlinkSync(procbaseRoot, path.join(root, '__current__'));
+    process.env.PROCBASE_ROOT = root;
+
+    writeFile(path.join(sourcesDir, 'at-origin', 'at-origin.test.ts'), AT_ORIGIN_TEST);
+    writeFile(path.join(sourcesDir, 'unit-length', 'unit-length.test.ts'), UNIT_LENGTH_TEST);
+    expect(addBehaviorTool.addBehavior(path.join(sourcesDir, 'at-origin')).success).toBe(true);
+    expect(addBehaviorTool.addBehavior(path.join(sourcesDir, 'unit-length')).success).toBe(true);
+  });
+
+  afterAll(async () => {
+    closeCodeAnalyzer(procbaseRoot);
+    await closeSemanticIndexer(procbaseRoot);
+    getProcbaseAnalysisContext(procbaseRoot).session.dispose();
+    if (previousRoot === undefined) {
+      delete process.env.PROCBASE_ROOT;
+    } else {
+      process.env.PROCBASE_ROOT = previousRoot;
+    }
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    fs.rmSync(path.join(procbaseRoot, 'instances'), { recursive: true, force: true });
+  });
+
+  it('实例通过行为测试时应该记录绑定', async () => {
+    expect((await addInstanceTool.addInstance(writePoint('origin', 0, 0), 'Geo.Vec')).success).toBe(true);
+
+    const result = bindBehaviorTool.bindBehavior('origin', 'at-origin');
+    expect(result.success).toBe(true);
+    expect(result.runs?.[0]?.passed).toBe(true);
+    expect(getBoundBehaviors('origin')).toEqual(['at-origin']);
+    expect(fs.existsSync(getInstalledBehaviorDirPath(procbaseRoot, 'origin', 'at-origin'))).toBe(true);
+  }, GATE_TIMEOUT_MS);
+
+  it('实例未通过行为测试时应该拒绝绑定并移除安装的测试', async () => {
+    expect((await addInstanceTool.addInstance(writePoint('east', 2, 0), 'Geo.Vec')).success).toBe(true);
+
+    const result = bindBehaviorTool.bindBehavior('east', 'unit-length');
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Binding rejected');
+    expect(result.runs?.[0]?.passed).toBe(false);
+    expect(getBoundBehaviors('east')).toEqual([]);
+    expect(fs.existsSync(path.join(procbaseRoot, 'instances', 'east', '__tests__'))).toBe(false);
+  }, GATE_TIMEOUT_MS);
+
+  it('更新满足已绑定行为时应该替换实例，不满足时应该回滚', async () => {
+    expect((await addInstanceTool.addInstance(writePoint('unit', 1, 0), 'Geo.Vec')).success).toBe(true);
+    expect(bindBehaviorTool.bindBehavior('unit', 'unit-length').success).toBe(true);
+
+    const passing = await updateInstanceTool.updateInstance('unit', writePoint('unit-up', 0, 1));
+    expect(passing.success).toBe(true);
+    expect(readInstance('unit')).toContain('x: 0, y: 1');
+
+    const failing = await updateInstanceTool.updateInstance('unit', writePoint('unit-long', 3, 4));
+    expect(failing.success).toBe(false);
+    expect(failing.message).toContain('Update rejected');
+    expect(failing.runs?.[0]?.passed).toBe(false);
+    expect(readInstance('unit')).toContain('x: 0, y: 1');
+    expect(fs.existsSync(getInstalledBehaviorDirPath(procbaseRoot, 'unit', 'unit-length'))).toBe(true);
+  }, GATE_TIMEOUT_MS);
+
+  it('应该可以用实例自己目录里的文件原地更新', async () => {
+    expect((await addInstanceTool.addInstance(writePoint('north', 0, 1), 'Geo.Vec')).success).toBe(true);
+    expect(bindBehaviorTool.bindBehavior('north', 'unit-length').success).toBe(true);
+
+    const instanceDir = path.join(procbaseRoot, 'instances', 'north');
+    writeFile(path.join(instanceDir, 'index.ts'), 'export default { x: 0, y: -1 };\n');
+    const inPlace = await updateInstanceTool.updateInstance('north', instanceDir);
+    expect(inPlace.success).toBe(true);
+    expect(readInstance('north')).toContain('x: 0, y: -1');
+    expect(fs.existsSync(getInstalledBehaviorDirPath(procbaseRoot, 'north', 'unit-length'))).toBe(true);
+
+    const draft = writeFile(path.join(instanceDir, 'draft.ts'), 'export default { x: -1, y: 0 };\n');
+    expect((await updateInstanceTool.updateInstance('north', draft)).success).toBe(true);
+    expect(readInstance('north')).toContain('x: -1, y: 0');
+  }, GATE_TIMEOUT_MS);
+
+  it('绑定和解绑应该拒绝不安全的实例名称', () => {
+    expect(bindBehaviorTool.bindBehavior('..', 'at-origin').message).toContain("Invalid instance name '..'");
+    expect(bindBehaviorTool.unbindBehavior('..', 'at-origin').message).toContain("Invalid instance name '..'");
+  });
+
+  it('添加行为时应该拒绝不安全的名称', () => {
+    const result = addBehaviorTool.addBehavior(path.join(sourcesDir, 'at-origin'), '..');
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("Invalid behavior name '..'");
+  });
+
+  it('安装到实例里的行为测试不应该被索引或检查', async () => {
+    expect((await addInstanceTool.addInstance(writePoint('center', 0, 0), 'Geo.Vec')).success).toBe(true);
+    expect(bindBehaviorTool.bindBehavior('center', 'at-origin').success).toBe(true);
+
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    expect((await analyzer.analyzeProject(procbaseRoot)).success).toBe(true);
+    const installedTest = path.join(getInstalledBehaviorDirPath(procbaseRoot, 'center', 'at-origin'), 'at-origin.test.ts');
+    expect(analyzer.getSymbols(installedTest)).toBeNull();
+    expect(analyzer.getSymbols(path.join(procbaseRoot, 'instances', 'center', 'index.ts'))).not.toBeNull();
+
+    expect(lintProcbaseTool.lintProcbase().message).toStartWith('Linted 2 file(s)');
+  }, GATE_TIMEOUT_MS);
+
+  it('语义搜索应该按测试标题对行为排序', async () => {
+    const result = await searchBehaviorsTool.searchBehaviorsSemantic('vector of length one');
+    expect(result.success).toBe(true);
+    expect(result.matches?.[0]?.behaviorName).toBe('unit-length');
+    expect(result.matches?.[0]?.matchedTests).toEqual(['has unit length']);
+    expect(result.matches?.[0]?.relevance).toBeGreaterThan(0);
+  });
+});
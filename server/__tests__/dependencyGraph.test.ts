@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import ts from 'typescript';
+import { createSymbolDB } from '../../storage/SymbolDB';
+import { createAnalysisSession } from '../analysisSession';
+import { dependencyGraphTool } from '../tools/dependency-graph';
+import { closeCodeAnalyzer } from '../codeAnalyzer';
+
+const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  strict: true
+};
+
+// A call chain top → middle → leaf, a runtime cycle ping ⇄ pong and a type-only edge top → Shape
+const GRAPH_SOURCE = `
+export type Shape = { size: number };
+export const leaf = (): number => 1;
+export const middle = (): number => leaf() + 1;
+export const top = (shape: Shape): number => middle() + shape.size;
+export const ping = (n: number): number => (n > 0 ? pong(n - 1) : top({ size: n }));
+export const pong = (n: number): number => (n > 0 ? ping(n - 1) : 0);
+`;
+
+const graphId = (name: string, kind = 'variable') => `graph/chain.ts#${name}:${kind}`;
+
+describe('dependencyGraphTool', () => {
+  const previousRoot = process.env.PROCBASE_ROOT;
+  let root: string;
+  let procbaseRoot: string;
+
+  beforeAll(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dependency-graph-')));
+    procbaseRoot = path.join(root, 'demo');
+    const filePath = path.join(procbaseRoot, 'graph', 'chain.ts');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, GRAPH_SOURCE);
+    // Same-named symbols in another module make bare names ambiguous
+    fs.writeFileSync(path.join(procbaseRoot, 'graph', 'other.ts'), 'export const leaf = (): number => 2;\n');
+
+    const symbolDB = createSymbolDB(path.join(procbaseRoot, 'symbols.sqlite'));
+    symbolDB.initialize();
+    createAnalysisSession(procbaseRoot, compilerOptions).update([filePath, path.join(procbaseRoot, 'graph', 'other.ts')]).analyzed
+      .forEach((symbols, file) => symbolDB.addSymbols(file, symbols));
+    symbolDB.close();
+
+    fs.symlinkSync(procbaseRoot, path.join(root, '__current__'));
+    process.env.PROCBASE_ROOT = root;
+  });
+
+  afterAll(() => {
+    closeCodeAnalyzer(procbaseRoot);
+    if (previousRoot === undefined) {
+      delete process.env.PROCBASE_ROOT;
+    } else {
+      process.env.PROCBASE_ROOT = previousRoot;
+    }
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('应该列出直接或传递的依赖和被依赖', () => {
+    const direct = dependencyGraphTool.getDependencies('top', 'dependencies');
+    expect(direct.success).toBe(true);
+    expect(direct.symbols).toEqual([
+      { id: graphId('middle'), depth: 1 },
+      { id: graphId('Shape', 'type'), depth: 1 }
+    ]);
+
+    const transitive = dependencyGraphTool.getDependencies('top', 'dependencies', { transitive: true, runtimeOnly: true });
+    expect(transitive.symbols?.map(reached => reached.id)).toEqual([graphId('middle'), graphId('leaf')]);
+
+    const dependents = dependencyGraphTool.getDependencies('middle', 'dependents', { transitive: true, maxDepth: 2 });
+    expect(dependents.symbols).toEqual([
+      { id: graphId('top'), depth: 1 },
+      { id: graphId('ping'), depth: 2 }
+    ]);
+  });
+
+  it('有歧义或未知的符号应该失败', () => {
+    const ambiguous = dependencyGraphTool.getDependencies('leaf', 'dependents');
+    expect(ambiguous.success).toBe(false);
+    expect(ambiguous.candidates?.map(candidate => candidate.id)).toEqual([graphId('leaf'), 'graph/other.ts#leaf:variable']);
+
+    const missing = dependencyGraphTool.findPath('top', 'Missing');
+    expect(missing).toEqual({ success: false, message: 'Symbol not found: Missing' });
+  });
+
+  it('应该给出依赖路径并报告不可达的目标', () => {
+    const found = dependencyGraphTool.findPath('pong', graphId('leaf'));
+    expect(found.success).toBe(true);
+    expect(found.path).toEqual([graphId('pong'), graphId('ping'), graphId('top'), graphId('middle'), graphId('leaf')]);
+    expect(found.message).toBe(`${graphId('pong')} reaches ${graphId('leaf')} in 4 step(s)`);
+
+    const unreachable = dependencyGraphTool.findPath('ping', 'Shape', { runtimeOnly: true });
+    expect(unreachable.success).toBe(true);
+    expect(unreachable.path).toBeNull();
+    expect(unreachable.message).toBe(`${graphId('ping')} does not depend on ${graphId('Shape', 'type')}`);
+  });
+
+  it('应该列出依赖环', () => {
+    expect(dependencyGraphTool.findCycles()).toEqual({
+      success: true,
+      message: 'Found 1 dependency cycle(s)',
+      cycles: [[graphId('ping'), graphId('pong')]]
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "bun:test";
+import { addInstanceTool } from '../tools/add-instance';
+import { updateInstanceTool } from '../tools/update-instance';
+import { checkInstanceName } from '../tools/verify-instance';
+
+// Names that would leave instances/ or hide from it; the sources need not exist because the name is checked first
+const UNSAFE_NAMES = ['../escape', 'a/b', 'a\\b', '..', '.hidden', ''];
+
+describe('instance names', () => {
+  it('应该只接受普通的文件夹名称', () => {
+    expect(checkInstanceName('origin-2d_v1')).toBeNull();
+    UNSAFE_NAMES.forEach(name => {
+      expect(checkInstanceName(name)).toContain('Invalid instance name');
+    });
+  });
+
+  it('添加和更新实例时应该在访问文件系统之前拒绝不安全的名称', async () => {
+    for (const name of UNSAFE_NAMES) {
+      const added = await addInstanceTool.addInstance('/nonexistent/source.ts', 'Geo.Vec', name);
+      expect(added.success).toBe(false);
+      expect(added.message).toContain('Invalid instance name');
+
+      const updated = await updateInstanceTool.updateInstance(name, '/nonexistent/source.ts');
+      expect(updated.success).toBe(false);
+      expect(updated.message).toContain('Invalid instance name');
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createProcbaseWatcher, type ProcbaseWatcher } from '../procbaseWatcher';
+import { closeSemanticIndexer } from '../semanticIndex';
+import { closeCodeAnalyzer, type ReindexResult } from '../codeAnalyzer';
+
+const DEBOUNCE_MS = 100;
+
+// Fail with a clear message before bun's own per-test timeout does
+const WAIT_MS = 4_000;
+
+describe('createProcbaseWatcher', () => {
+  const previousRoot = process.env.PROCBASE_ROOT;
+  const spies: { mockRestore(): void }[] = [];
+  const results: ReindexResult[] = [];
+  const waiting: (() => void)[] = [];
+  let root: string;
+  let procbaseRoot: string;
+  let watcher: ProcbaseWatcher;
+
+  const writeFile = (modulePath: string, content: string) => {
+    const filePath = path.join(procbaseRoot, modulePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  // Resolve with the next result the watcher reports
+  const nextReindex = () => new Promise<ReindexResult>((resolve, reject) => {
+    const count = results.length;
+    const timer = setTimeout(() => reject(new Error('The watcher did not re-index in time')), WAIT_MS);
+    waiting.push(() => {
+      clearTimeout(timer);
+      resolve(results[count]!);
+    });
+  });
+
+  beforeAll(async () => {
+    // Re-index logging is not what these tests look at
+    spies.push(spyOn(console, 'log').mockImplementation(() => {}));
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'procbase-watcher-')));
+    procbaseRoot = path.join(root, 'demo');
+    writeFile('package.json', JSON.stringify({ procbase: { embedding: { provider: 'hashed', dimensions: 64 } } }));
+    writeFile('types/Geo/Vec.ts', 'export type Vec = { x: number; y: number };\n');
+    fs.symlinkSync(procbaseRoot, path.join(root, '__current__'));
+    process.env.PROCBASE_ROOT = root;
+
+    const caughtUp = nextReindex();
+    watcher = createProcbaseWatcher(procbaseRoot, result => {
+      results.push(result);
+      waiting.splice(0).forEach(resume => resume());
+    }, DEBOUNCE_MS);
+    await caughtUp;
+  });
+
+  afterAll(async () => {
+    await watcher.close();
+    closeCodeAnalyzer(procbaseRoot);
+    await closeSemanticIndexer(procbaseRoot);
+    spies.forEach(spy => spy.mockRestore());
+    if (previousRoot === undefined) {
+      delete process.env.PROCBASE_ROOT;
+    } else {
+      process.env.PROCBASE_ROOT = previousRoot;
+    }
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('启动时应该补上已有的文件', () => {
+    expect(results[0]?.analyzedFiles).toEqual([path.join(procbaseRoot, 'types', 'Geo', 'Vec.ts')]);
+  });
+
+  it('一批文件变化应该合并为一次重新索引', async () => {
+    const reindexed = nextReindex();
+    const files = [
+      writeFile('types/Geo/Angle.ts', 'export type Angle = number;\n'),
+      writeFile('types/Geo/Line.ts', "import type { Vec } from './Vec';\nexport type Line = { from: Vec; to: Vec };\n"),
+      writeFile('types/Geo/Size.ts', 'export type Size = { width: number; height: number };\n')
+    ];
+
+    const result = await reindexed;
+    expect(result.analyzedFiles.sort()).toEqual(files.sort());
+    // Nothing else is left over from the burst
+    await Bun.sleep(DEBOUNCE_MS * 3);
+    expect(results.length).toBe(2);
+  });
+
+  it('删除文件后应该重新索引并移除它的符号', async () => {
+    const reindexed = nextReindex();
+    const angleFile = path.join(procbaseRoot, 'types', 'Geo', 'Angle.ts');
+    fs.rmSync(angleFile);
+
+    const result = await reindexed;
+    expect(result.removedFiles).toEqual([angleFile]);
+    expect(result.analyzedFiles).toEqual([]);
+  });
+});
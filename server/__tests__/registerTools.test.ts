@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { ContentResult, FastMCP, Tool } from 'fastmcp';
+import { registerTools } from '../tools/register';
+import { getCodeAnalyzer, closeCodeAnalyzer } from '../codeAnalyzer';
+import { getProcbaseAnalysisContext } from '../analysisContext';
+import { closeSemanticIndexer } from '../semanticIndex';
+
+type RegisteredTool = Tool<undefined>;
+
+describe('registerTools', () => {
+  const previousRoot = process.env.PROCBASE_ROOT;
+  const spies: { mockRestore(): void }[] = [];
+  const tools = new Map<string, RegisteredTool>();
+  let root: string;
+  let procbaseRoot: string;
+
+  const writeFile = (modulePath: string, content: string) => {
+    const filePath = path.join(procbaseRoot, modulePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  // Run a registered tool and parse the JSON text it answers with
+  const callTool = async (name: string, args: Record<string, unknown>) => {
+    const result = await tools.get(name)!.execute(args, undefined as never) as ContentResult;
+    const [content] = result.content;
+    return { isError: result.isError, body: JSON.parse(content?.type === 'text' ? content.text : 'null') };
+  };
+
+  beforeAll(async () => {
+    // Indexing logs are not what these tests look at
+    spies.push(spyOn(console, 'log').mockImplementation(() => {}));
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'register-tools-')));
+    procbaseRoot = path.join(root, 'demo');
+    writeFile('package.json', JSON.stringify({ procbase: { embedding: { provider: 'hashed', dimensions: 64 } } }));
+    writeFile('types/Geo/Vec.ts', '/** A point in the plane */\nexport type Vec = { x: number; y: number };\n');
+    writeFile('types/Geo/Line.ts', "import type { Vec } from './Vec';\nexport type Line = { from: Vec; to: Vec };\n");
+    writeFile('instances/origin/index.ts', "import type { Vec } from '../../types/Geo/Vec';\nconst origin: Vec = { x: 0, y: 0 };\nexport default origin;\n");
+    fs.symlinkSync(procbaseRoot, path.join(root, '__current__'));
+    process.env.PROCBASE_ROOT = root;
+
+    expect((await getCodeAnalyzer(procbaseRoot).analyzeProject(procbaseRoot)).success).toBe(true);
+    registerTools({ addTool: (tool: RegisteredTool) => tools.set(tool.name, tool) } as unknown as FastMCP);
+  });
+
+  afterAll(async () => {
+    closeCodeAnalyzer(procbaseRoot);
+    await closeSemanticIndexer(procbaseRoot);
+    getProcbaseAnalysisContext(procbaseRoot).session.dispose();
+    spies.forEach(spy => spy.mockRestore());
+    if (previousRoot === undefined) {
+      delete process.env.PROCBASE_ROOT;
+    } else {
+      process.env.PROCBASE_ROOT = previousRoot;
+    }
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('list_symbols 应该只列出给定目录下的符号', async () => {
+    const { isError, body } = await callTool('list_symbols', { filePath: 'types' });
+    expect(isError).toBe(false);
+    expect(body.symbols.map((symbol: { name: string }) => symbol.name).sort()).toEqual(['Line', 'Vec']);
+  });
+
+  it('get_type 应该返回源码和导出，未知的类型应该报错', async () => {
+    const found = await callTool('get_type', { namespace: 'Geo.Vec' });
+    expect(found.isError).toBe(false);
+    expect(found.body).toMatchObject({ filePath: path.join(procbaseRoot, 'types', 'Geo', 'Vec.ts'), exports: ['Vec'] });
+
+    const missing = await callTool('get_type', { namespace: 'Geo.Missing' });
+    expect(missing.isError).toBe(true);
+    expect(missing.body.message).toContain("Type 'Geo.Missing' does not exist");
+  });
+
+  it('add_type 和 update_type 应该在返回前索引类型', async () => {
+    const added = await callTool('add_type', { namespace: 'Geo.Angle', code: 'export type Angle = number;\n' });
+    expect(added.isError).toBe(false);
+    expect((await callTool('get_type', { namespace: 'Geo.Angle' })).body.exports).toEqual(['Angle']);
+
+    const updated = await callTool('update_type', { namespace: 'Geo.Angle', code: 'export type Angle = number;\nexport type Turn = number;\n' });
+    expect(updated.isError).toBe(false);
+    expect((await callTool('get_type', { namespace: 'Geo.Angle' })).body.exports.sort()).toEqual(['Angle', 'Turn']);
+  });
+
+  it('search_types 应该只匹配 types 下的符号', async () => {
+    const { body } = await callTool('search_types', { query: 'Vec' });
+    expect(body.matches.map((match: { name: string; namespace: string }) => [match.namespace, match.name])).toEqual([['Geo.Vec', 'Vec']]);
+  });
+
+  it('analyze_file 应该相对于 procbase 根目录解析路径', async () => {
+    const { isError, body } = await callTool('analyze_file', { filePath: 'types/Geo/Line.ts' });
+    expect(isError).toBe(false);
+    expect(body.analysis.filePath).toBe(path.join(procbaseRoot, 'types', 'Geo', 'Line.ts'));
+    expect(body.analysis.symbols.type.map((symbol: { name: string }) => symbol.name)).toEqual(['Line']);
+  });
+});
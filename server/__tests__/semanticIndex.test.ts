@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import ts from 'typescript';
+import { createSymbolDB, type SymbolDB } from '../../storage/SymbolDB';
+import { makeFlatVectorIndex } from '../../storage/FlatVectorIndex';
+import { makeSqliteEmbeddingHashStore } from '../../storage/SqliteEmbeddingHashStore';
+import * as EmbeddingProvider from '../../storage/EmbeddingProvider';
+import { createAnalysisSession, type AnalysisSession } from '../analysisSession';
+import { getSemanticIndexer, closeSemanticIndexer } from '../semanticIndex';
+import { getSemanticIndexPath } from '../../common/paths';
+
+const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  strict: true
+};
+
+describe('semantic index reconciliation', () => {
+  let root: string;
+  let symbolDB: SymbolDB;
+  let session: AnalysisSession;
+
+  const setDimensions = (dimensions: number) => {
+    fs.writeFileSync(path.join(root, 'package.json'), JSON.stringify({
+      procbase: { embedding: { provider: 'hashed', dimensions } }
+    }));
+  };
+
+  const writeSource = (modulePath: string, source: string) => {
+    const filePath = path.join(root, modulePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, source);
+    return filePath;
+  };
+
+  // Analyse files straight into the symbol table, without telling the semantic index
+  const index = (...filePaths: string[]) => {
+    session.update(filePaths).analyzed.forEach((symbols, file) => symbolDB.addSymbols(file, symbols));
+  };
+
+  const getIndexedKeys = async (indexName: string) => {
+    return (await (await makeFlatVectorIndex(getSemanticIndexPath(root, indexName))).keys()).sort();
+  };
+
+  const getEmbeddedHashes = (indexName: string) => {
+    const store = makeSqliteEmbeddingHashStore(path.join(root, 'symbols.sqlite'), indexName);
+    try {
+      return store.getAll();
+    } finally {
+      store.close();
+    }
+  };
+
+  const getContentHashes = () => {
+    return new Map(symbolDB.getSymbolChanges().map(symbol => [symbol.id, symbol.contentHash]));
+  };
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-index-')));
+    setDimensions(64);
+    symbolDB = createSymbolDB(path.join(root, 'symbols.sqlite'));
+    symbolDB.initialize();
+    session = createAnalysisSession(root, compilerOptions);
+  });
+
+  afterEach(async () => {
+    await closeSemanticIndexer(root);
+    symbolDB.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('打开时应该嵌入符号库中已有但索引中缺少的符号', async () => {
+    index(
+      writeSource('types/Geo/Vec.ts', `/** 二维向量 */\nexport type Vec = { x: number; y: number };`),
+      writeSource('behaviors/scale/index.ts', `export const scale = 2;`)
+    );
+
+    const indexer = await getSemanticIndexer(root);
+    expect(await getIndexedKeys('symbols-hashed-64')).toEqual(['types/Geo/Vec.ts#Vec:type']);
+    expect(getEmbeddedHashes('symbols-hashed-64').get('types/Geo/Vec.ts#Vec:type')).toBe(getContentHashes().get('types/Geo/Vec.ts#Vec:type')!);
+
+    const [best] = await indexer.search('二维向量');
+    expect(best?.entry.exportName).toBe('Vec');
+  });
+
+  it('重新打开时应该更新修改过的符号并删除移除的符号', async () => {
+    const vecFile = writeSource('types/Geo/Vec.ts', `export type Vec = { x: number; y: number };\nexport type Angle = number;`);
+    index(vecFile);
+    await getSemanticIndexer(root);
+    await closeSemanticIndexer(root);
+
+    // Changed while the index was closed: Vec gains a field and Angle goes away
+    fs.writeFileSync(vecFile, `/** 三维向量 */\nexport type Vec = { x: number; y: number; z: number };`);
+    index(vecFile);
+
+    const indexer = await getSemanticIndexer(root);
+    expect(await getIndexedKeys('symbols-hashed-64')).toEqual(['types/Geo/Vec.ts#Vec:type']);
+    expect(getEmbeddedHashes('symbols-hashed-64')).toEqual(getContentHashes());
+    expect((await indexer.search('三维向量'))[0]?.entry.description).toBe('三维向量');
+  });
+
+  it('切换嵌入提供者后应该为新的索引嵌入全部符号', async () => {
+    index(writeSource('types/Geo/Vec.ts', `export type Vec = { x: number; y: number };`));
+    await getSemanticIndexer(root);
+    await closeSemanticIndexer(root);
+
+    setDimensions(32);
+    await getSemanticIndexer(root);
+    expect(await getIndexedKeys('symbols-hashed-32')).toEqual(['types/Geo/Vec.ts#Vec:type']);
+    expect(getEmbeddedHashes('symbols-hashed-32')).toEqual(getContentHashes());
+    // The other provider's index is left as it was
+    expect(await getIndexedKeys('symbols-hashed-64')).toEqual(['types/Geo/Vec.ts#Vec:type']);
+  });
+
+  it('向量文件被删除或损坏后应该重建', async () => {
+    index(writeSource('types/Geo/Vec.ts', `export type Vec = { x: number; y: number };`));
+    const vectorsPath = getSemanticIndexPath(root, 'symbols-hashed-64');
+    await getSemanticIndexer(root);
+    await closeSemanticIndexer(root);
+
+    fs.rmSync(vectorsPath);
+    await getSemanticIndexer(root);
+    await closeSemanticIndexer(root);
+    expect(await getIndexedKeys('symbols-hashed-64')).toEqual(['types/Geo/Vec.ts#Vec:type']);
+
+    fs.writeFileSync(vectorsPath, 'not a vector index');
+    await getSemanticIndexer(root);
+    expect(await getIndexedKeys('symbols-hashed-64')).toEqual(['types/Geo/Vec.ts#Vec:type']);
+  });
+
+  it('在尚未初始化的符号库上打开时应该保留语义表', async () => {
+    const emptyRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-index-empty-')));
+    try {
+      const indexer = await getSemanticIndexer(emptyRoot);
+      await indexer.applyChanges({
+        filePath: path.join(emptyRoot, 'types/Geo/Vec.ts'),
+        added: [{
+          id: 'types/Geo/Vec.ts#Vec:type',
+          name: 'Vec',
+          filePath: path.join(emptyRoot, 'types/Geo/Vec.ts'),
+          isExported: true,
+          kind: ts.SymbolFlags.TypeAlias,
+          symbolType: 'Vec',
+          documentation: '二维向量',
+          contentHash: 'hash'
+        }],
+        removed: [],
+        changed: []
+      });
+      expect((await indexer.search('二维向量'))[0]?.entry.exportName).toBe('Vec');
+    } finally {
+      await closeSemanticIndexer(emptyRoot);
+      fs.rmSync(emptyRoot, { recursive: true, force: true });
+    }
+  });
+
+  it('应用变更集时应该只嵌入新增和修改的符号', async () => {
+    const vecFile = writeSource('types/Geo/Vec.ts', `export type Vec = { x: number; y: number };`);
+    index(vecFile);
+    const indexer = await getSemanticIndexer(root);
+
+    fs.writeFileSync(vecFile, `export type Vec = { x: number; y: number };\nexport type Line = { from: Vec; to: Vec };`);
+    const [changes] = Array.from(session.update([vecFile]).analyzed, ([file, symbols]) => symbolDB.addSymbols(file, symbols));
+    expect(changes?.added.map(change => change.id)).toEqual(['types/Geo/Vec.ts#Line:type']);
+
+    await indexer.applyChanges(changes!);
+    expect(await getIndexedKeys('symbols-hashed-64')).toEqual(['types/Geo/Vec.ts#Line:type', 'types/Geo/Vec.ts#Vec:type']);
+    expect(getEmbeddedHashes('symbols-hashed-64')).toEqual(getContentHashes());
+  });
+
+  it('应该用一次嵌入调用处理整个变更集', async () => {
+    const vecFile = writeSource('types/Geo/Vec.ts', `export type Vec = { x: number; y: number };`);
+    index(vecFile);
+
+    // Record every batch the provider is asked to embed
+    const batches: string[][] = [];
+    const makeProvider = EmbeddingProvider.makeEmbeddingProvider;
+    const spy = spyOn(EmbeddingProvider, 'makeEmbeddingProvider').mockImplementation(config => {
+      const provider = makeProvider(config);
+      return { ...provider, embed: texts => (batches.push(texts), provider.embed(texts)) };
+    });
+    try {
+      const indexer = await getSemanticIndexer(root);
+      batches.length = 0;
+
+      fs.writeFileSync(vecFile, [
+        'export type Vec = { x: number; y: number; z: number };',
+        'export type Angle = number;',
+        'export type Line = { from: Vec; to: Vec };'
+      ].join('\n'));
+      const [changes] = Array.from(session.update([vecFile]).analyzed, ([file, symbols]) => symbolDB.addSymbols(file, symbols));
+      await indexer.applyChanges(changes!);
+    } finally {
+      spy.mockRestore();
+    }
+    expect(batches.map(batch => batch.length)).toEqual([3]);
+  });
+});
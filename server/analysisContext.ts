@@ -0,0 +1,116 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import { getCurrentProcbase } from '../common/paths';
+import { createAnalysisSession, type AnalysisSession, type AnalysisSessionStats } from './analysisSession';
+
+export type ProcbaseAnalysisContext = {
+  procbaseRoot: string;
+  compilerOptions: ts.CompilerOptions;
+  session: AnalysisSession;
+  getSourceFile(filePath: string): { sourceFile: ts.SourceFile; typeChecker: ts.TypeChecker };
+};
+
+type CachedContext = {
+  context: ProcbaseAnalysisContext;
+  configStamp: number;
+};
+
+// Used when the procbase has no tsconfig.json or it cannot be read
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  strict: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  forceConsistentCasingInFileNames: true
+};
+
+export const loadTsConfig = (procbaseRoot: string): ts.CompilerOptions => {
+  const tsConfigPath = path.join(procbaseRoot, 'tsconfig.json');
+  
+  if (!fs.existsSync(tsConfigPath)) {
+    return { ...DEFAULT_COMPILER_OPTIONS };
+  }
+
+  try {
+    const configFileText = fs.readFileSync(tsConfigPath, 'utf8');
+    const configFile = ts.parseConfigFileTextToJson(tsConfigPath, configFileText);
+    
+    if (configFile.error) {
+      throw new Error(`Failed to parse tsconfig.json: ${configFile.error.messageText}`);
+    }
+
+    const parsedConfig = ts.parseJsonConfigFileContent(
+      configFile.config,
+      ts.sys,
+      procbaseRoot,
+      undefined,
+      tsConfigPath
+    );
+
+    if (parsedConfig.errors.length > 0) {
+      console.warn('TypeScript config warnings:', parsedConfig.errors.map(e => e.messageText));
+    }
+
+    return parsedConfig.options;
+  } catch (error) {
+    console.warn(`Failed to load tsconfig.json from ${procbaseRoot}, using defaults:`, error);
+    return { ...DEFAULT_COMPILER_OPTIONS };
+  }
+};
+
+// A missing tsconfig.json has its own stamp, so creating one also refreshes the context
+const getConfigStamp = (procbaseRoot: string): number => {
+  return fs.statSync(path.join(procbaseRoot, 'tsconfig.json'), { throwIfNoEntry: false })?.mtimeMs ?? -1;
+};
+
+const createProcbaseAnalysisContext = (procbaseRoot: string): ProcbaseAnalysisContext => {
+  const compilerOptions = loadTsConfig(procbaseRoot);
+  const session = createAnalysisSession(procbaseRoot, compilerOptions);
+
+  const getSourceFile = (filePath: string) => {
+    const sourceFile = session.getSourceFile(filePath);
+    if (!sourceFile) {
+      throw new Error(`Could not parse source file: ${filePath}`);
+    }
+    return { sourceFile, typeChecker: session.getProgram().getTypeChecker() };
+  };
+
+  return {
+    procbaseRoot,
+    compilerOptions,
+    session,
+    getSourceFile
+  };
+};
+
+const contexts = new Map<string, CachedContext>();
+
+/**
+ * Get the analysis context of a procbase, creating it on first use.
+ *
+ * Every analysis path (the CLI, the HTTP endpoint, MCP tools and the watcher) goes
+ * through this context, so they all see the procbase tsconfig and share one program.
+ * The context is rebuilt when tsconfig.json changes.
+ */
+export const getProcbaseAnalysisContext = (procbaseRoot: string = getCurrentProcbase()): ProcbaseAnalysisContext => {
+  const configStamp = getConfigStamp(procbaseRoot);
+  const cached = contexts.get(procbaseRoot);
+  if (cached && cached.configStamp === configStamp) {
+    return cached.context;
+  }
+
+  cached?.context.session.dispose();
+  const context = createProcbaseAnalysisContext(procbaseRoot);
+  contexts.set(procbaseRoot, { context, configStamp });
+  return context;
+};
+
+/**
+ * Get the timing stats of a procbase's analysis session, or null if it has not analyzed anything yet
+ */
+export const getAnalysisStats = (procbaseRoot: string): AnalysisSessionStats | null => {
+  return contexts.get(procbaseRoot)?.context.session.getStats() ?? null;
+};
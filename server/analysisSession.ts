@@ -0,0 +1,302 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import extractSymbolsFromFile from '../functions/extractSymbols';
+import { isInstanceTestPath } from '../common/paths';
+import type { SymbolExtractionOptions } from '../types/analysis/ExtractSymbolOptions';
+import type { ExtractedSymbols } from '../types/project/ExtractedSymbols';
+
+export type AnalysisTimings = {
+  programMs: number;
+  extractMs: number;
+  totalMs: number;
+};
+
+export type AnalysisUpdate = {
+  // Changed files plus everything that imports them, directly or transitively
+  analyzed: Map<string, ExtractedSymbols>;
+  removedFiles: string[];
+  timings: AnalysisTimings;
+};
+
+export type AnalysisSessionStats = {
+  trackedFiles: number;
+  updates: number;
+  filesAnalyzed: number;
+  totalMs: number;
+  lastUpdate: (AnalysisTimings & { changedFiles: number; analyzedFiles: number }) | null;
+};
+
+export type AnalysisUpdateOptions = {
+  // Scan the procbase for added and deleted files; on by default when no files are named
+  rescan?: boolean;
+};
+
+export type AnalysisSession = {
+  procbaseRoot: string;
+  update(changedFiles?: string[], options?: AnalysisUpdateOptions): AnalysisUpdate;
+  getSourceFile(filePath: string): ts.SourceFile | undefined;
+  getProgram(): ts.Program;
+  getStats(): AnalysisSessionStats;
+  dispose(): void;
+};
+
+type TrackedFile = {
+  version: number;
+  mtimeMs: number;
+};
+
+// The procbase catalog indexes members too, so `Shape.area` is searchable on its own
+const EXTRACTION_OPTIONS: SymbolExtractionOptions = {
+  includeNodeModules: false,
+  includeSystemSymbols: false,
+  includeMembers: true
+};
+
+/**
+ * List the TypeScript files under a directory, skipping dot folders and node_modules
+ */
+const listSourceFiles = (dir: string): string[] => {
+  const files: string[] = [];
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+      files.push(...listSourceFiles(fullPath));
+    } else if (entry.isFile() && entry.name.endsWith('.ts')) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+};
+
+/**
+ * List the procbase's own source files under a directory, leaving out behavior suites installed into instances
+ */
+export const listProcbaseSourceFiles = (procbaseRoot: string, dir: string = procbaseRoot): string[] => {
+  return listSourceFiles(dir).filter(fileName => !isInstanceTestPath(procbaseRoot, fileName));
+};
+
+const getMtime = (filePath: string): number | null => {
+  try {
+    return fs.statSync(filePath).mtimeMs;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Map each file to the tracked files that import or re-export from it
+ */
+const buildImporterGraph = (program: ts.Program, trackedFiles: Set<string>): Map<string, Set<string>> => {
+  const checker = program.getTypeChecker();
+  const importers = new Map<string, Set<string>>();
+
+  trackedFiles.forEach(fileName => {
+    const sourceFile = program.getSourceFile(fileName);
+    sourceFile?.statements.forEach(statement => {
+      const moduleSpecifier = ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)
+        ? statement.moduleSpecifier
+        : undefined;
+      if (!moduleSpecifier) {
+        return;
+      }
+      const target = checker.getSymbolAtLocation(moduleSpecifier)?.declarations?.find(ts.isSourceFile);
+      if (target && target.fileName !== fileName) {
+        const fileImporters = importers.get(target.fileName) ?? new Set<string>();
+        fileImporters.add(fileName);
+        importers.set(target.fileName, fileImporters);
+      }
+    });
+  });
+
+  return importers;
+};
+
+/**
+ * Create a long-lived analysis session over a procbase.
+ *
+ * The session keeps a LanguageService over every source file of the procbase, so
+ * cross-file types stay available and unchanged files are not reparsed. Each update
+ * re-extracts only the files that changed and the files that depend on them.
+ */
+export const createAnalysisSession = (procbaseRoot: string, compilerOptions: ts.CompilerOptions): AnalysisSession => {
+  const files = new Map<string, TrackedFile>();
+  // Versions never repeat, so a file that is tracked again is never served from a stale parse
+  let lastVersion = 0;
+  // Import specifiers resolve the same way until files appear or disappear
+  const moduleResolutionCache = ts.createModuleResolutionCache(
+    procbaseRoot,
+    fileName => (ts.sys.useCaseSensitiveFileNames ? fileName : fileName.toLowerCase()),
+    compilerOptions
+  );
+  let filesAddedOrRemoved = false;
+  const stats: AnalysisSessionStats = {
+    trackedFiles: 0,
+    updates: 0,
+    filesAnalyzed: 0,
+    totalMs: 0,
+    lastUpdate: null
+  };
+
+  const host: ts.LanguageServiceHost = {
+    getScriptFileNames: () => Array.from(files.keys()),
+    getScriptVersion: fileName => String(files.get(fileName)?.version ?? 0),
+    getScriptSnapshot: fileName => {
+      if (!fs.existsSync(fileName)) {
+        return undefined;
+      }
+      return ts.ScriptSnapshot.fromString(fs.readFileSync(fileName, 'utf8'));
+    },
+    getCurrentDirectory: () => procbaseRoot,
+    getCompilationSettings: () => compilerOptions,
+    getDefaultLibFileName: options => ts.getDefaultLibFilePath(options),
+    fileExists: ts.sys.fileExists,
+    readFile: ts.sys.readFile,
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+    realpath: ts.sys.realpath
+  };
+  const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+  const getProgram = (): ts.Program => {
+    const program = service.getProgram();
+    if (!program) {
+      throw new Error(`Failed to build a program for ${procbaseRoot}`);
+    }
+    return program;
+  };
+
+  // Deleted files no longer resolve in the new program, so their importers come from the last one
+  let previousImporters = new Map<string, Set<string>>();
+
+  // Changes picked up outside an update still count towards the next one
+  const unreported = { changed: new Set<string>(), removed: new Set<string>() };
+
+  const touch = (fileName: string, force: boolean) => {
+    const mtimeMs = getMtime(fileName);
+    const tracked = files.get(fileName);
+    if (mtimeMs === null) {
+      if (tracked) {
+        files.delete(fileName);
+        filesAddedOrRemoved = true;
+        unreported.changed.delete(fileName);
+        unreported.removed.add(fileName);
+      }
+      return;
+    }
+    if (!tracked) {
+      files.set(fileName, { version: ++lastVersion, mtimeMs });
+      filesAddedOrRemoved = true;
+      unreported.changed.add(fileName);
+    } else if (tracked.mtimeMs !== mtimeMs || (force && !unreported.changed.has(fileName))) {
+      files.set(fileName, { version: ++lastVersion, mtimeMs });
+      unreported.changed.add(fileName);
+    }
+  };
+
+  // Reconcile tracked files with the disk; explicitly named files always count as changed
+  const syncFiles = (changedFiles: string[], rescan: boolean): { changed: Set<string>; removed: string[] } => {
+    if (rescan) {
+      const onDisk = new Set(listProcbaseSourceFiles(procbaseRoot));
+      onDisk.forEach(fileName => touch(fileName, false));
+      // Files that vanished from the scan are only dropped once they are really gone
+      Array.from(files.keys())
+        .filter(fileName => !onDisk.has(fileName))
+        .forEach(fileName => touch(fileName, false));
+    }
+    changedFiles.map(fileName => path.resolve(fileName)).forEach(fileName => touch(fileName, true));
+
+    const changed = new Set(unreported.changed);
+    const removed = Array.from(unreported.removed);
+    unreported.changed.clear();
+    unreported.removed.clear();
+    return { changed, removed };
+  };
+
+  const update = (changedFiles?: string[], options: AnalysisUpdateOptions = {}): AnalysisUpdate => {
+    const start = performance.now();
+    const { changed, removed } = syncFiles(changedFiles ?? [], options.rescan ?? changedFiles === undefined);
+    if (filesAddedOrRemoved) {
+      moduleResolutionCache.clear();
+      filesAddedOrRemoved = false;
+    }
+
+    const program = getProgram();
+    const programDone = performance.now();
+
+    // Whatever imports a changed or removed file may now see different types
+    const importers = buildImporterGraph(program, new Set(files.keys()));
+    const pending = [...changed, ...removed];
+    const affected = new Set(changed);
+    while (pending.length > 0) {
+      const fileName = pending.pop()!;
+      const fileImporters = importers.get(fileName) ?? previousImporters.get(fileName);
+      fileImporters?.forEach(importer => {
+        if (!affected.has(importer) && files.has(importer)) {
+          affected.add(importer);
+          pending.push(importer);
+        }
+      });
+    }
+
+    previousImporters = importers;
+
+    const typeChecker = program.getTypeChecker();
+    const analyzed = new Map<string, ExtractedSymbols>();
+    affected.forEach(fileName => {
+      const sourceFile = program.getSourceFile(fileName);
+      if (sourceFile) {
+        analyzed.set(fileName, extractSymbolsFromFile(sourceFile, typeChecker, { ...EXTRACTION_OPTIONS, compilerOptions, rootDir: procbaseRoot, moduleResolutionCache }));
+      }
+    });
+    // Files outside the procbase are analysed on request, not kept in the program
+    Array.from(files.keys())
+      .filter(fileName => !fileName.startsWith(procbaseRoot + path.sep))
+      .forEach(fileName => files.delete(fileName));
+    const end = performance.now();
+
+    const timings: AnalysisTimings = {
+      programMs: programDone - start,
+      extractMs: end - programDone,
+      totalMs: end - start
+    };
+    stats.trackedFiles = files.size;
+    stats.updates += 1;
+    stats.filesAnalyzed += analyzed.size;
+    stats.totalMs += timings.totalMs;
+    stats.lastUpdate = { ...timings, changedFiles: changed.size + removed.length, analyzedFiles: analyzed.size };
+
+    return { analyzed, removedFiles: removed, timings };
+  };
+
+  // Bring a single file up to date without extracting anything
+  const getSourceFile = (filePath: string): ts.SourceFile | undefined => {
+    const fileName = path.resolve(filePath);
+    touch(fileName, false);
+    return getProgram().getSourceFile(fileName);
+  };
+
+  const getStats = (): AnalysisSessionStats => ({
+    ...stats,
+    lastUpdate: stats.lastUpdate && { ...stats.lastUpdate }
+  });
+
+  const dispose = () => {
+    service.dispose();
+    moduleResolutionCache.clear();
+    files.clear();
+  };
+
+  return {
+    procbaseRoot,
+    update,
+    getSourceFile,
+    getProgram,
+    getStats,
+    dispose
+  };
+};
@@ -0,0 +1,49 @@
+import { apiRoutes, parseApiResponse, type ApiRequest, type ApiResult, type ApiRouteName } from './apiContract';
+
+export type ApiClient = {
+  [Name in ApiRouteName]: (request: ApiRequest<Name>) => Promise<ApiResult<Name>>;
+};
+
+const callRoute = async <Name extends ApiRouteName>(
+  baseUrl: string,
+  name: Name,
+  request: ApiRequest<Name>
+): Promise<ApiResult<Name>> => {
+  const route = apiRoutes[name];
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${route.path}`, route.method === 'GET'
+      ? { method: 'GET' }
+      : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(route.request.parse(request)) });
+  } catch (error) {
+    throw new Error(`Could not reach the analysis server at ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Failures use the same envelope, so the body is parsed before the status is checked
+  const text = await response.text();
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new Error(`Server error (${response.status}): ${text}`);
+  }
+
+  const result = parseApiResponse(name, body);
+  if (!result.success) {
+    // Details are for the server log; the caller gets the status and the message
+    throw new Error(`Server error (${response.status}): ${result.error}`);
+  }
+  return result.data;
+};
+
+/**
+ * Create a typed client for the analysis server, with one method per contract route
+ * @param baseUrl - e.g. `http://localhost:8193`
+ */
+export const createApiClient = (baseUrl: string): ApiClient => {
+  const routeNames = Object.keys(apiRoutes) as ApiRouteName[];
+  return Object.fromEntries(
+    routeNames.map(name => [name, (request: ApiRequest<typeof name>) => callRoute(baseUrl, name, request)])
+  ) as ApiClient;
+};
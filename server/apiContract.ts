@@ -0,0 +1,211 @@
+import { z } from 'zod';
+import type { ReachedSymbol, SymbolCandidate, SymbolPath, SymbolQueryResult, SymbolSearchResult, SymbolSubtype } from '../storage/SymbolDB';
+import type { SourceLocation } from '../types/project/SourceLocation';
+import type { AnalysisSessionStats, AnalysisTimings } from './analysisSession';
+import type { ReindexResult } from './codeAnalyzer';
+import type { FileAnalysis, SerializedSymbol } from './tools/analyze';
+
+// Schemas are pinned to the types they describe, so the contract cannot drift from the code
+
+const sourceLocationSchema: z.ZodType<SourceLocation> = z.object({
+  start: z.number(),
+  end: z.number(),
+  line: z.number(),
+  column: z.number()
+});
+
+const serializedSymbolSchema: z.ZodType<SerializedSymbol> = z.object({
+  name: z.string(),
+  kind: z.number(),
+  type: z.string(),
+  isExported: z.boolean(),
+  sourceLocation: sourceLocationSchema,
+  documentation: z.string().optional(),
+  dependencies: z.array(z.string())
+});
+
+const fileAnalysisSchema: z.ZodType<FileAnalysis> = z.object({
+  fileName: z.string(),
+  filePath: z.string(),
+  symbols: z.object({
+    type: z.array(serializedSymbolSchema),
+    class: z.array(serializedSymbolSchema),
+    interface: z.array(serializedSymbolSchema),
+    enum: z.array(serializedSymbolSchema),
+    namespace: z.array(serializedSymbolSchema),
+    function: z.array(serializedSymbolSchema),
+    const: z.array(serializedSymbolSchema),
+    let: z.array(serializedSymbolSchema),
+    var: z.array(serializedSymbolSchema),
+    alias: z.array(serializedSymbolSchema),
+    default: z.array(serializedSymbolSchema)
+  })
+});
+
+const symbolSearchResultSchema: z.ZodType<SymbolSearchResult> = z.object({
+  id: z.string(),
+  name: z.string(),
+  declarationKind: z.string(),
+  filePath: z.string(),
+  symbolType: z.string(),
+  documentation: z.string().nullable(),
+  isExported: z.boolean(),
+  sourceLocation: sourceLocationSchema
+});
+
+const symbolCandidateSchema: z.ZodType<SymbolCandidate> = z.object({
+  id: z.string(),
+  name: z.string(),
+  filePath: z.string(),
+  declarationKind: z.string(),
+  isExported: z.boolean()
+});
+
+const symbolQueryResultSchema = <T>(result: z.ZodType<T>): z.ZodType<SymbolQueryResult<T>> => z.union([
+  z.object({ status: z.literal('found'), symbol: symbolCandidateSchema, result }),
+  z.object({ status: z.literal('ambiguous'), candidates: z.array(symbolCandidateSchema) }),
+  z.object({ status: z.literal('not-found'), reference: z.string() })
+]) as z.ZodType<SymbolQueryResult<T>>;
+
+const reachedSymbolSchema: z.ZodType<ReachedSymbol> = z.object({
+  id: z.string(),
+  depth: z.number()
+});
+
+const symbolPathSchema: z.ZodType<SymbolPath> = z.object({
+  target: symbolCandidateSchema,
+  path: z.array(z.string()).nullable()
+});
+
+const symbolSubtypeSchema: z.ZodType<SymbolSubtype> = z.object({
+  id: z.string(),
+  relation: z.enum(['extends', 'implements'])
+});
+
+const analysisTimingsSchema: z.ZodType<AnalysisTimings> = z.object({
+  programMs: z.number(),
+  extractMs: z.number(),
+  totalMs: z.number()
+});
+
+const analysisSessionStatsSchema: z.ZodType<AnalysisSessionStats> = z.object({
+  trackedFiles: z.number(),
+  updates: z.number(),
+  filesAnalyzed: z.number(),
+  totalMs: z.number(),
+  lastUpdate: z.intersection(
+    analysisTimingsSchema,
+    z.object({ changedFiles: z.number(), analyzedFiles: z.number() })
+  ).nullable()
+});
+
+const reindexResultSchema: z.ZodType<ReindexResult> = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  analyzedFiles: z.array(z.string()),
+  removedFiles: z.array(z.string()),
+  timings: analysisTimingsSchema.optional()
+});
+
+export type HealthStatus = {
+  status: 'ok';
+  timestamp: string;
+  procbase: string;
+  analysis: AnalysisSessionStats | null;
+};
+
+const healthStatusSchema: z.ZodType<HealthStatus> = z.object({
+  status: z.literal('ok'),
+  timestamp: z.string(),
+  procbase: z.string(),
+  analysis: analysisSessionStatsSchema.nullable()
+});
+
+const filePathRequest = z.object({
+  filePath: z.string().min(1).describe('File path, absolute or relative to the procbase root')
+});
+
+const symbolReference = z.string().min(1).describe('Symbol id such as `types/Geo/Vec.ts#Vec:type`, or a bare name');
+
+const referenceRequest = z.object({
+  reference: symbolReference
+});
+
+const runtimeOnly = z.boolean().optional().describe('Only follow edges that survive compilation');
+
+const closureRequest = referenceRequest.extend({
+  runtimeOnly,
+  maxDepth: z.number().int().positive().optional().describe('Number of edges to follow; unlimited by default')
+});
+
+type Route<Request extends z.ZodTypeAny, Response extends z.ZodTypeAny> = {
+  method: 'GET' | 'POST';
+  path: `/${string}`;
+  request: Request;
+  response: Response;
+};
+
+const route = <Request extends z.ZodTypeAny, Response extends z.ZodTypeAny>(
+  method: 'GET' | 'POST',
+  path: `/${string}`,
+  request: Request,
+  response: Response
+): Route<Request, Response> => ({ method, path, request, response });
+
+/**
+ * Every endpoint of the analysis server. GET routes take no body; POST routes take
+ * their request as JSON. Responses are wrapped in an `ApiResponse` envelope.
+ */
+export const apiRoutes = {
+  health: route('GET', '/health', z.object({}), healthStatusSchema),
+  analyze: route('POST', '/analyze', filePathRequest, fileAnalysisSchema),
+  symbols: route('POST', '/symbols', filePathRequest, z.array(symbolSearchResultSchema)),
+  lookup: route('POST', '/lookup', referenceRequest, symbolQueryResultSchema(symbolCandidateSchema)),
+  dependencies: route('POST', '/dependencies', referenceRequest, symbolQueryResultSchema(z.array(z.string()))),
+  dependents: route('POST', '/dependents', referenceRequest, symbolQueryResultSchema(z.array(z.string()))),
+  closure: route('POST', '/closure', closureRequest, symbolQueryResultSchema(z.array(reachedSymbolSchema))),
+  reverseClosure: route('POST', '/reverse-closure', closureRequest, symbolQueryResultSchema(z.array(reachedSymbolSchema))),
+  path: route(
+    'POST',
+    '/path',
+    z.object({ from: symbolReference, to: symbolReference, runtimeOnly }),
+    symbolQueryResultSchema(symbolPathSchema)
+  ),
+  cycles: route('POST', '/cycles', z.object({ runtimeOnly }), z.array(z.array(z.string()))),
+  subtypes: route('POST', '/subtypes', referenceRequest, symbolQueryResultSchema(z.array(symbolSubtypeSchema))),
+  search: route(
+    'POST',
+    '/search',
+    z.object({
+      query: z.string(),
+      filePathPrefix: z.string().optional().describe('File or directory path, absolute or relative to the procbase root')
+    }),
+    z.array(symbolSearchResultSchema)
+  ),
+  reindex: route(
+    'POST',
+    '/reindex',
+    z.object({ paths: z.array(z.string().min(1)).min(1) }),
+    reindexResultSchema
+  )
+};
+
+export type ApiRoutes = typeof apiRoutes;
+export type ApiRouteName = keyof ApiRoutes;
+export type ApiRequest<Name extends ApiRouteName> = z.infer<ApiRoutes[Name]['request']>;
+export type ApiResult<Name extends ApiRouteName> = z.infer<ApiRoutes[Name]['response']>;
+
+export type ApiResponse<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; details?: string };
+
+/**
+ * Validate a response envelope against the result schema of a route
+ */
+export const parseApiResponse = <Name extends ApiRouteName>(name: Name, body: unknown): ApiResponse<ApiResult<Name>> => {
+  const envelope = z.union([
+    z.object({ success: z.literal(true), data: apiRoutes[name].response }),
+    z.object({ success: z.literal(false), error: z.string(), details: z.string().optional() })
+  ]);
+  return envelope.parse(body) as ApiResponse<ApiResult<Name>>;
+};
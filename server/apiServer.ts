@@ -0,0 +1,140 @@
+import path from 'node:path';
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import { z } from 'zod';
+import { getCodeAnalyzer, type ReindexResult } from './codeAnalyzer';
+import { getAnalysisStats } from './analysisContext';
+import { analyzeTool } from './tools/analyze';
+import { apiRoutes, type ApiRequest, type ApiResponse, type ApiResult, type ApiRouteName } from './apiContract';
+
+export type ApiHandlers = {
+  [Name in ApiRouteName]: (request: ApiRequest<Name>) => ApiResult<Name> | Promise<ApiResult<Name>>;
+};
+
+type ApiServerOptions = {
+  // Called after a successful reindex request, e.g. to notify MCP clients
+  onReindexed?: (result: ReindexResult) => void;
+};
+
+/**
+ * Handlers for every route of the contract, serving the given procbase
+ */
+export const createApiHandlers = (procbaseRoot: string, options: ApiServerOptions = {}): ApiHandlers => {
+  const analyzer = getCodeAnalyzer(procbaseRoot);
+  const resolvePath = (filePath: string) => path.resolve(procbaseRoot, filePath);
+
+  return {
+    health: () => ({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      procbase: procbaseRoot,
+      analysis: getAnalysisStats(procbaseRoot)
+    }),
+    analyze: ({ filePath }) => analyzeTool.createSerializableAnalysis(analyzeTool.analyzeFile(resolvePath(filePath))),
+    symbols: ({ filePath }) => {
+      const absolutePath = resolvePath(filePath);
+      return analyzer.searchSymbols('', absolutePath).filter(symbol => symbol.filePath === absolutePath);
+    },
+    lookup: ({ reference }) => analyzer.lookupSymbol(reference),
+    dependencies: ({ reference }) => analyzer.getDependencies(reference),
+    dependents: ({ reference }) => analyzer.getDependents(reference),
+    closure: ({ reference, ...options }) => analyzer.getClosure(reference, options),
+    reverseClosure: ({ reference, ...options }) => analyzer.getReverseClosure(reference, options),
+    path: ({ from, to, runtimeOnly }) => analyzer.getShortestPath(from, to, { runtimeOnly }),
+    cycles: options => analyzer.getStronglyConnectedComponents(options),
+    subtypes: ({ reference }) => analyzer.getSubtypes(reference),
+    search: ({ query, filePathPrefix }) => analyzer.searchSymbols(query, filePathPrefix && resolvePath(filePathPrefix)),
+    reindex: async ({ paths }) => {
+      const result = await analyzer.reindexFiles(paths.map(resolvePath));
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+      options.onReindexed?.(result);
+      return result;
+    }
+  };
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => {
+    body += chunk.toString();
+  });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const sendJson = <T>(res: ServerResponse, status: number, response: ApiResponse<T>) => {
+  res.writeHead(status);
+  res.end(JSON.stringify(response));
+};
+
+const describeValidationError = (error: z.ZodError): string => {
+  return error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`).join('; ');
+};
+
+/**
+ * Build a `node:http` request listener that routes, validates and answers contract requests
+ */
+export const createApiRequestListener = (handlers: ApiHandlers): RequestListener => {
+  const routes = Object.entries(apiRoutes) as [ApiRouteName, (typeof apiRoutes)[ApiRouteName]][];
+
+  return (req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(200);
+      res.end();
+      return;
+    }
+
+    const pathname = new URL(req.url || '', 'http://localhost').pathname;
+    console.log(`[HTTP] ${req.method} ${pathname} - ${new Date().toISOString()}`);
+
+    const match = routes.find(([, route]) => route.path === pathname && route.method === req.method);
+    if (!match) {
+      console.log(`[HTTP] 404: ${req.method} ${pathname}`);
+      sendJson(res, 404, {
+        success: false,
+        error: 'Not found',
+        details: `Available endpoints: ${routes.map(([, route]) => `${route.method} ${route.path}`).join(', ')}`
+      });
+      return;
+    }
+
+    const [name, route] = match;
+    readBody(req).then(async body => {
+      let payload: unknown = {};
+      if (route.method === 'POST') {
+        try {
+          payload = body ? JSON.parse(body) : {};
+        } catch {
+          sendJson(res, 400, { success: false, error: 'Request body must be valid JSON' });
+          return;
+        }
+      }
+
+      const request = route.request.safeParse(payload);
+      if (!request.success) {
+        console.log(`[HTTP] Invalid ${name} request: ${describeValidationError(request.error)}`);
+        sendJson(res, 400, { success: false, error: describeValidationError(request.error) });
+        return;
+      }
+
+      try {
+        const handler = handlers[name] as (request: unknown) => unknown;
+        const data = await handler(request.data);
+        sendJson(res, 200, { success: true, data });
+      } catch (error) {
+        // The request was valid, so this is the server's fault; the stack stays in the server log
+        console.error(`[HTTP] ${name} error:`, error);
+        sendJson(res, 500, { success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }).catch(error => {
+      console.error(`[HTTP] ${name} request failed:`, error);
+      sendJson(res, 500, { success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    });
+  };
+};
@@ -1,68 +1,65 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import ts from 'typescript';
-import { createSymbolDB } from '../storage/SymbolDB';
-import extractSymbolsFromFile from '../functions/extractSymbols';
-import createProjectContext from '../functions/createProjectContext';
-import { getCurrentProcbase } from '../common/paths';
+import { createSymbolDB, type Behavior, type ClosureOptions, type DependencyGraphOptions, type InstanceBinding, type ReachedSymbol, type SymbolCandidate, type SymbolChangeSet, type SymbolQueryResult, type SymbolPath, type SymbolSearchResult, type SymbolSubtype } from '../storage/SymbolDB';
+import { getCurrentProcbase, isInstanceTestPath } from '../common/paths';
+import { getSemanticIndexer } from './semanticIndex';
+import { listProcbaseSourceFiles, type AnalysisSessionStats, type AnalysisTimings } from './analysisSession';
+import { getProcbaseAnalysisContext, getAnalysisStats as getContextStats } from './analysisContext';
+import type { ExtractedSymbols } from '../types/project/ExtractedSymbols';
+import type { StoredFileSymbols } from '../types/project/StoredFileSymbols';
+
+export type ReindexResult = {
+  success: boolean;
+  message: string;
+  analyzedFiles: string[];
+  removedFiles: string[];
+  timings?: AnalysisTimings;
+};
+
+export type AnalyzeFileResult = {
+  success: boolean;
+  message: string;
+  // Names of the file's symbols by where they are visible
+  symbols?: { exports: string[]; internal: string[]; imports: string[] };
+  timings?: AnalysisTimings;
+};
 
 export type CodeAnalyzer = {
-  analyzeFile(filePath: string): Promise<{ success: boolean; message: string; symbols?: any }>;
+  analyzeFile(filePath: string): Promise<AnalyzeFileResult>;
   analyzeProject(projectRoot: string): Promise<{ success: boolean; message: string }>;
-  getSymbols(filePath: string): any;
-  getDependencies(symbolName: string): string[];
-  getDependents(symbolName: string): string[];
+  reindexFiles(paths: string[]): Promise<ReindexResult>;
+  getAnalysisStats(): AnalysisSessionStats | null;
+  getSymbols(filePath: string): StoredFileSymbols | null;
+  searchSymbols(query: string, filePathPrefix?: string): SymbolSearchResult[];
+  setInstanceBinding(binding: InstanceBinding): void;
+  getInstanceBinding(instanceName: string): InstanceBinding | null;
+  getInstanceBindings(): InstanceBinding[];
+  setBehavior(behavior: Behavior): void;
+  getBehavior(name: string): Behavior | null;
+  getBehaviors(): Behavior[];
+  deleteBehavior(name: string): void;
+  bindBehavior(instanceName: string, behaviorName: string): void;
+  unbindBehavior(instanceName: string, behaviorName: string): void;
+  getBoundBehaviors(instanceName: string): string[];
+  getBoundInstances(behaviorName: string): string[];
+  lookupSymbol(reference: string): SymbolQueryResult<SymbolCandidate>;
+  getDependencies(reference: string): SymbolQueryResult<string[]>;
+  getDependents(reference: string): SymbolQueryResult<string[]>;
+  getClosure(reference: string, options?: ClosureOptions): SymbolQueryResult<ReachedSymbol[]>;
+  getReverseClosure(reference: string, options?: ClosureOptions): SymbolQueryResult<ReachedSymbol[]>;
+  getShortestPath(from: string, to: string, options?: DependencyGraphOptions): SymbolQueryResult<SymbolPath>;
+  getStronglyConnectedComponents(options?: DependencyGraphOptions): string[][];
+  getSubtypes(reference: string): SymbolQueryResult<SymbolSubtype[]>;
+  close(): void;
 };
 
-const loadTsConfig = (procbaseRoot: string): ts.CompilerOptions => {
-  const tsConfigPath = path.join(procbaseRoot, 'tsconfig.json');
-  
-  if (!fs.existsSync(tsConfigPath)) {
-    // Fallback to default options if tsconfig.json doesn't exist
-    return {
-      target: ts.ScriptTarget.ESNext,
-      module: ts.ModuleKind.ESNext,
-      moduleResolution: ts.ModuleResolutionKind.Bundler,
-      strict: true,
-      esModuleInterop: true,
-      skipLibCheck: true,
-      forceConsistentCasingInFileNames: true
-    };
-  }
-
+// A broken embedding setup must not stop symbols from being indexed
+const syncSemanticIndex = async (procbaseRoot: string, changes: SymbolChangeSet) => {
   try {
-    const configFileText = fs.readFileSync(tsConfigPath, 'utf8');
-    const configFile = ts.parseConfigFileTextToJson(tsConfigPath, configFileText);
-    
-    if (configFile.error) {
-      throw new Error(`Failed to parse tsconfig.json: ${configFile.error.messageText}`);
-    }
-
-    const parsedConfig = ts.parseJsonConfigFileContent(
-      configFile.config,
-      ts.sys,
-      procbaseRoot,
-      undefined,
-      tsConfigPath
-    );
-
-    if (parsedConfig.errors.length > 0) {
-      console.warn('TypeScript config warnings:', parsedConfig.errors.map(e => e.messageText));
-    }
-
-    return parsedConfig.options;
+    const indexer = await getSemanticIndexer(procbaseRoot);
+    await indexer.applyChanges(changes);
   } catch (error) {
-    console.warn(`Failed to load tsconfig.json from ${procbaseRoot}, using defaults:`, error);
-    // Fallback to default options
-    return {
-      target: ts.ScriptTarget.ESNext,
-      module: ts.ModuleKind.ESNext,
-      moduleResolution: ts.ModuleResolutionKind.Bundler,
-      strict: true,
-      esModuleInterop: true,
-      skipLibCheck: true,
-      forceConsistentCasingInFileNames: true
-    };
+    console.warn(`Warning: Failed to update the semantic index for ${changes.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
 
@@ -72,30 +69,33 @@ export const createCodeAnalyzer = (dbPath: string): CodeAnalyzer => {
   // Initialize the database
   symbolDB.initialize();
 
-  const analyzeFile = async (filePath: string): Promise<{ success: boolean; message: string; symbols?: any }> => {
+  // Persist what a session update extracted and re-embed only what changed
+  const storeUpdate = async (procbaseRoot: string, analyzed: Map<string, ExtractedSymbols>) => {
+    for (const [file, symbols] of analyzed) {
+      const changes = symbolDB.addSymbols(file, symbols);
+      await syncSemanticIndex(procbaseRoot, changes);
+    }
+  };
+
+  const analyzeFile = async (filePath: string): Promise<AnalyzeFileResult> => {
     try {
       // Check if file exists
       if (!fs.existsSync(filePath)) {
         return { success: false, message: `File not found: ${filePath}` };
       }
 
-      // Get the current procbase root and load its tsconfig.json
+      // The session shares one program across the procbase, built from its tsconfig.json
       const procbaseRoot = getCurrentProcbase();
-      const compilerOptions = loadTsConfig(procbaseRoot);
-
-      // Create a project context using the procbase's tsconfig.json
-      const context = createProjectContext([filePath], compilerOptions);
+      const { session } = getProcbaseAnalysisContext(procbaseRoot);
 
-      // Extract symbols from the file
-      const sourceFile = context.program.getSourceFile(filePath);
-      if (!sourceFile) {
+      // Re-extract the file along with every file that depends on it
+      const { analyzed, timings } = session.update([filePath]);
+      const symbols = analyzed.get(path.resolve(filePath));
+      if (!symbols) {
         return { success: false, message: `Could not parse source file: ${filePath}` };
       }
 
-      const symbols = extractSymbolsFromFile(sourceFile, context.typeChecker);
-      
-      // Store symbols in database
-      symbolDB.addSymbols(filePath, symbols);
+      await storeUpdate(procbaseRoot, analyzed);
 
       return { 
         success: true, 
@@ -104,7 +104,8 @@ export const createCodeAnalyzer = (dbPath: string): CodeAnalyzer => {
           exports: Array.from(symbols.exports.keys()),
           internal: Array.from(symbols.internal.keys()),
           imports: Array.from(symbols.imports.keys())
-        }
+        },
+        timings
       };
     } catch (error) {
       return { 
@@ -116,43 +117,17 @@ export const createCodeAnalyzer = (dbPath: string): CodeAnalyzer => {
 
   const analyzeProject = async (projectRoot: string): Promise<{ success: boolean; message: string }> => {
     try {
-      // Get the current procbase root and load its tsconfig.json
       const procbaseRoot = getCurrentProcbase();
-      const compilerOptions = loadTsConfig(procbaseRoot);
-
-      // Find all TypeScript files in the project
-      const findTsFiles = (dir: string): string[] => {
-        const files: string[] = [];
-        const entries = fs.readdirSync(dir, { withFileTypes: true });
-        
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
-            files.push(...findTsFiles(fullPath));
-          } else if (entry.isFile() && entry.name.endsWith('.ts')) {
-            files.push(fullPath);
-          }
-        }
-        
-        return files;
-      };
+      const { session } = getProcbaseAnalysisContext(procbaseRoot);
 
-      const tsFiles = findTsFiles(projectRoot);
-      
-      // Analyze each file using the procbase's tsconfig.json
-      for (const file of tsFiles) {
-        const context = createProjectContext([file], compilerOptions);
-        const sourceFile = context.program.getSourceFile(file);
-        
-        if (sourceFile) {
-          const symbols = extractSymbolsFromFile(sourceFile, context.typeChecker);
-          symbolDB.addSymbols(file, symbols);
-        }
-      }
+      // Files that did not change since the last update are skipped unless a dependency changed
+      const tsFiles = listProcbaseSourceFiles(procbaseRoot, projectRoot);
+      const { analyzed, timings } = session.update(tsFiles, { rescan: true });
+      await storeUpdate(procbaseRoot, analyzed);
 
       return { 
         success: true, 
-        message: `Successfully analyzed ${tsFiles.length} TypeScript files` 
+        message: `Successfully analyzed ${tsFiles.length} TypeScript files (${analyzed.size} re-extracted in ${Math.round(timings.totalMs)}ms)` 
       };
     } catch (error) {
       return { 
@@ -162,23 +137,193 @@ export const createCodeAnalyzer = (dbPath: string): CodeAnalyzer => {
     }
   };
 
+  // Paths may be files or directories, existing or deleted; whatever is gone loses its rows
+  const reindexFiles = async (paths: string[]): Promise<ReindexResult> => {
+    try {
+      const procbaseRoot = getCurrentProcbase();
+      const { session } = getProcbaseAnalysisContext(procbaseRoot);
+
+      const existing = new Set<string>();
+      const deleted = new Set<string>();
+      paths.map(p => path.resolve(p)).forEach(target => {
+        symbolDB.getIndexedFiles(target)
+          .filter(file => (file === target || file.startsWith(target + path.sep)) && !fs.existsSync(file))
+          .forEach(file => deleted.add(file));
+        if (!fs.existsSync(target)) {
+          return;
+        }
+        if (fs.statSync(target).isDirectory()) {
+          listProcbaseSourceFiles(procbaseRoot, target).forEach(file => existing.add(file));
+        } else if (target.endsWith('.ts') && !isInstanceTestPath(procbaseRoot, target)) {
+          existing.add(target);
+        }
+      });
+
+      // Deleted files only come back as removals when the procbase is rescanned
+      const { analyzed, removedFiles, timings } = session.update(Array.from(existing), { rescan: true });
+      removedFiles.forEach(file => deleted.add(file));
+      await storeUpdate(procbaseRoot, analyzed);
+      for (const file of deleted) {
+        await syncSemanticIndex(procbaseRoot, symbolDB.removeFile(file));
+      }
+
+      return {
+        success: true,
+        message: `Re-indexed ${analyzed.size} file(s) and removed ${deleted.size} in ${Math.round(timings.totalMs)}ms`,
+        analyzedFiles: Array.from(analyzed.keys()),
+        removedFiles: Array.from(deleted),
+        timings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Failed to re-index files: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        analyzedFiles: [],
+        removedFiles: []
+      };
+    }
+  };
+
+  const getAnalysisStats = (): AnalysisSessionStats | null => {
+    return getContextStats(getCurrentProcbase());
+  };
+
   const getSymbols = (filePath: string) => {
     return symbolDB.getSymbols(filePath);
   };
 
-  const getDependencies = (symbolName: string): string[] => {
-    return symbolDB.getDependencies(symbolName);
+  const searchSymbols = (query: string, filePathPrefix?: string): SymbolSearchResult[] => {
+    return symbolDB.searchSymbols(query, filePathPrefix);
+  };
+
+  const setInstanceBinding = (binding: InstanceBinding) => {
+    symbolDB.setInstanceBinding(binding);
+  };
+
+  const getInstanceBinding = (instanceName: string): InstanceBinding | null => {
+    return symbolDB.getInstanceBinding(instanceName);
   };
 
-  const getDependents = (symbolName: string): string[] => {
-    return symbolDB.getDependents(symbolName);
+  const getInstanceBindings = (): InstanceBinding[] => {
+    return symbolDB.getInstanceBindings();
+  };
+
+  const setBehavior = (behavior: Behavior) => {
+    symbolDB.setBehavior(behavior);
+  };
+
+  const getBehavior = (name: string): Behavior | null => {
+    return symbolDB.getBehavior(name);
+  };
+
+  const getBehaviors = (): Behavior[] => {
+    return symbolDB.getBehaviors();
+  };
+
+  const deleteBehavior = (name: string) => {
+    symbolDB.deleteBehavior(name);
+  };
+
+  const bindBehavior = (instanceName: string, behaviorName: string) => {
+    symbolDB.bindBehavior(instanceName, behaviorName);
+  };
+
+  const unbindBehavior = (instanceName: string, behaviorName: string) => {
+    symbolDB.unbindBehavior(instanceName, behaviorName);
+  };
+
+  const getBoundBehaviors = (instanceName: string): string[] => {
+    return symbolDB.getBoundBehaviors(instanceName);
+  };
+
+  const getBoundInstances = (behaviorName: string): string[] => {
+    return symbolDB.getBoundInstances(behaviorName);
+  };
+
+  const lookupSymbol = (reference: string): SymbolQueryResult<SymbolCandidate> => {
+    return symbolDB.lookupSymbol(reference);
+  };
+
+  const getDependencies = (reference: string): SymbolQueryResult<string[]> => {
+    return symbolDB.getDependencies(reference);
+  };
+
+  const getDependents = (reference: string): SymbolQueryResult<string[]> => {
+    return symbolDB.getDependents(reference);
+  };
+
+  const getClosure = (reference: string, options?: ClosureOptions): SymbolQueryResult<ReachedSymbol[]> => {
+    return symbolDB.getClosure(reference, options);
+  };
+
+  const getReverseClosure = (reference: string, options?: ClosureOptions): SymbolQueryResult<ReachedSymbol[]> => {
+    return symbolDB.getReverseClosure(reference, options);
+  };
+
+  const getShortestPath = (from: string, to: string, options?: DependencyGraphOptions): SymbolQueryResult<SymbolPath> => {
+    return symbolDB.getShortestPath(from, to, options);
+  };
+
+  const getStronglyConnectedComponents = (options?: DependencyGraphOptions): string[][] => {
+    return symbolDB.getStronglyConnectedComponents(options);
+  };
+
+  const getSubtypes = (reference: string): SymbolQueryResult<SymbolSubtype[]> => {
+    return symbolDB.getSubtypes(reference);
+  };
+
+  const close = () => {
+    symbolDB.close();
   };
 
   return {
     analyzeFile,
     analyzeProject,
+    reindexFiles,
+    getAnalysisStats,
     getSymbols,
+    searchSymbols,
+    setInstanceBinding,
+    getInstanceBinding,
+    getInstanceBindings,
+    setBehavior,
+    getBehavior,
+    getBehaviors,
+    deleteBehavior,
+    bindBehavior,
+    unbindBehavior,
+    getBoundBehaviors,
+    getBoundInstances,
+    lookupSymbol,
     getDependencies,
-    getDependents
+    getDependents,
+    getClosure,
+    getReverseClosure,
+    getShortestPath,
+    getStronglyConnectedComponents,
+    getSubtypes,
+    close
   };
-}; 
\ No newline at end of file
+}; 
+
+const analyzers = new Map<string, CodeAnalyzer>();
+
+/**
+ * Get the shared code analyzer of a procbase, opening its symbols.sqlite on first use
+ */
+export const getCodeAnalyzer = (procbaseRoot: string): CodeAnalyzer => {
+  let analyzer = analyzers.get(procbaseRoot);
+  if (!analyzer) {
+    analyzer = createCodeAnalyzer(path.join(procbaseRoot, 'symbols.sqlite'));
+    analyzers.set(procbaseRoot, analyzer);
+  }
+  return analyzer;
+};
+
+/**
+ * Close the shared code analyzer of a procbase, if one was opened
+ */
+export const closeCodeAnalyzer = (procbaseRoot: string) => {
+  analyzers.get(procbaseRoot)?.close();
+  analyzers.delete(procbaseRoot);
+};
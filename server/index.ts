@@ -4,12 +4,13 @@ import os from 'node:os';
 import fs from 'node:fs';
 import { createProcbase } from '../bin/procbase/create';
 import { FastMCP } from 'fastmcp';
-import { analyzeTool } from './tools/analyze';
-import { addTypeTool } from './tools/add-type';
-import { updateTypeTool } from './tools/update-type';
+import { registerTools } from './tools/register';
+import { registerResources, getSymbolsResourceUri } from './resources';
+import { createProcbaseWatcher } from './procbaseWatcher';
 import { getCurrentProcbase } from '../common/paths';
+import { createApiHandlers, createApiRequestListener } from './apiServer';
+import type { ReindexResult } from './codeAnalyzer';
 import { createServer } from 'node:http';
-import { URL } from 'node:url';
 
 const writeServerStatus = (pid: number, port: number) => {
   const procbaseRoot = getCurrentProcbase();
@@ -49,11 +50,8 @@ const server = new FastMCP({
     version: '1.0.0',
 });
 
-// TODO: Add MCP tools for type management
-// - add_type: Add a new type to the procbase
-// - update_type: Update an existing type
-// - search_types: Search for types (literal and semantic)
-// - analyze_file: Analyze a TypeScript file
+registerTools(server);
+registerResources(server);
 
 server.start({
   transportType: "httpStream",
@@ -62,91 +60,20 @@ server.start({
   },
 });
 
-// Create a simple HTTP server for analysis requests
-const httpServer = createServer((req, res) => {
-  res.setHeader('Content-Type', 'application/json');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') {
-    res.writeHead(200);
-    res.end();
-    return;
-  }
-
-  const url = new URL(req.url || '', `http://localhost:${port}`);
-  const pathname = url.pathname;
-
-  console.log(`[HTTP] ${req.method} ${pathname} - ${new Date().toISOString()}`);
-
-  if (pathname === '/analyze' && req.method === 'POST') {
-    let body = '';
-    req.on('data', chunk => {
-      body += chunk.toString();
+// Keep connected clients informed about which files were re-indexed
+const notifyReindexed = ({ analyzedFiles, removedFiles }: ReindexResult) => {
+  const uris = [...analyzedFiles, ...removedFiles].map(filePath => getSymbolsResourceUri(root, filePath));
+  server.sessions.forEach(session => {
+    uris.forEach(uri => {
+      session.server.sendResourceUpdated({ uri }).catch(error => {
+        console.warn(`Warning: Failed to notify a client about ${uri}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
     });
-    req.on('end', () => {
-      try {
-        if (!body) {
-          console.log('[HTTP] Error: Empty request body');
-          res.writeHead(400);
-          res.end(JSON.stringify({
-            success: false,
-            error: 'Request body is required'
-          }));
-          return;
-        }
-
-        const requestData = JSON.parse(body);
-        const { filePath } = requestData;
-
-        if (!filePath) {
-          console.log('[HTTP] Error: Missing filePath in request');
-          res.writeHead(400);
-          res.end(JSON.stringify({
-            success: false,
-            error: 'filePath is required in request body'
-          }));
-          return;
-        }
+  });
+};
 
-        console.log(`[HTTP] Analyzing file: ${filePath}`);
-        const result = analyzeTool.analyzeFile(filePath);
-        const formattedOutput = analyzeTool.displayAnalysis(result);
-        
-        console.log(`[HTTP] Analysis completed successfully for: ${filePath}`);
-        res.writeHead(200);
-        res.end(JSON.stringify({
-          success: true,
-          formattedOutput
-        }));
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.log(`[HTTP] Analysis error: ${errorMessage}`);
-        res.writeHead(400);
-        res.end(JSON.stringify({
-          success: false,
-          error: errorMessage,
-          details: error instanceof Error ? error.stack : undefined
-        }));
-      }
-    });
-  } else if (pathname === '/health' && req.method === 'GET') {
-    res.writeHead(200);
-    res.end(JSON.stringify({
-      status: 'ok',
-      timestamp: new Date().toISOString(),
-      procbase: root
-    }));
-  } else {
-    console.log(`[HTTP] 404: ${req.method} ${pathname}`);
-    res.writeHead(404);
-    res.end(JSON.stringify({ 
-      error: 'Not found',
-      availableEndpoints: ['/analyze', '/health']
-    }));
-  }
-});
+// HTTP API for the CLI, described by the route contract in apiContract.ts
+const httpServer = createServer(createApiRequestListener(createApiHandlers(root, { onReindexed: notifyReindexed })));
 
 httpServer.listen(port + 1, () => {
   console.log(`HTTP Analysis Server is running on port ${port + 1}`);
@@ -161,6 +88,9 @@ httpServer.listen(port + 1, () => {
   }
 });
 
+// Keep symbols.sqlite current
+createProcbaseWatcher(root, notifyReindexed);
+
 // Write server status after successful start
 writeServerStatus(process.pid, port);
 
@@ -0,0 +1,100 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { getCodeAnalyzer, type ReindexResult } from './codeAnalyzer';
+import { isInstanceTestPath } from '../common/paths';
+
+export type ProcbaseWatcher = {
+  // Resolves once the re-index in progress has finished; the shared analyzer stays open
+  close(): Promise<void>;
+};
+
+export type ReindexListener = (result: ReindexResult) => void;
+
+// Only catalog content is indexed; behaviors and the databases change on their own
+const WATCHED_DIRS = ['types', 'instances'];
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/**
+ * Watch the types and instances of a procbase and keep symbols.sqlite current.
+ *
+ * Bursts of file events (an editor save, a copied folder) are collected and
+ * re-indexed together once the procbase has been quiet for `debounceMs`. Runs are
+ * serialized, so a slow re-index never overlaps the next one.
+ */
+export const createProcbaseWatcher = (
+  procbaseRoot: string,
+  onReindexed: ReindexListener,
+  debounceMs = DEFAULT_DEBOUNCE_MS
+): ProcbaseWatcher => {
+  const analyzer = getCodeAnalyzer(procbaseRoot);
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = Promise.resolve();
+  let closed = false;
+
+  const flush = () => {
+    timer = null;
+    const paths = Array.from(pending);
+    pending.clear();
+
+    running = running
+      .then(async () => {
+        const result = await analyzer.reindexFiles(paths);
+        if (!result.success) {
+          console.warn(`Warning: ${result.message}`);
+          return;
+        }
+        if (result.analyzedFiles.length + result.removedFiles.length > 0) {
+          console.log(`[watch] ${result.message}`);
+          onReindexed(result);
+        }
+      })
+      // A throwing listener must not reject the chain and stop every later run
+      .catch(error => {
+        console.warn(`Warning: Failed to handle re-indexed files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+  };
+
+  const schedule = (target: string) => {
+    if (closed) {
+      return;
+    }
+    pending.add(target);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  const dirs = WATCHED_DIRS.map(dir => path.join(procbaseRoot, dir)).filter(dir => fs.existsSync(dir));
+  const watchers = dirs.map(dir => fs.watch(dir, { recursive: true }, (_event, fileName) => {
+    if (!fileName) {
+      return;
+    }
+    const target = path.join(dir, fileName.toString());
+    if (target.split(path.sep).includes('node_modules') || isInstanceTestPath(procbaseRoot, target)) {
+      return;
+    }
+    // Deleted paths may be whole folders, so they are passed on whatever their name
+    const stats = fs.statSync(target, { throwIfNoEntry: false });
+    if (target.endsWith('.ts') || !stats || stats.isDirectory()) {
+      schedule(target);
+    }
+  }));
+
+  // Catch up with whatever changed while the server was not running
+  dirs.forEach(schedule);
+
+  const close = async () => {
+    closed = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    watchers.forEach(watcher => watcher.close());
+    await running;
+  };
+
+  return { close };
+};
@@ -0,0 +1,31 @@
+import path from 'node:path';
+import type { FastMCP } from 'fastmcp';
+import { listSymbolsTool } from './tools/list-symbols';
+
+const SYMBOLS_URI_PREFIX = 'procbase://symbols/';
+
+/**
+ * URI of the symbols resource for a file of the procbase
+ */
+export const getSymbolsResourceUri = (procbaseRoot: string, filePath: string): string => {
+  return SYMBOLS_URI_PREFIX + path.relative(procbaseRoot, filePath).split(path.sep).join('/');
+};
+
+/**
+ * Register all procbase MCP resources on the given server
+ * @param server - The FastMCP server serving the current procbase
+ */
+export const registerResources = (server: FastMCP) => {
+  server.addResourceTemplate({
+    uriTemplate: `${SYMBOLS_URI_PREFIX}{+filePath}`,
+    name: 'File symbols',
+    description: 'Symbols indexed for a file of the current procbase; clients are notified when the file is re-indexed',
+    mimeType: 'application/json',
+    arguments: [
+      { name: 'filePath', description: 'File path, relative to the procbase root', required: true }
+    ],
+    load: async ({ filePath }) => ({
+      text: JSON.stringify(listSymbolsTool.listSymbols(filePath), null, 2)
+    })
+  });
+};
@@ -0,0 +1,283 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import { makeSemanticDB, type Entry, type EntryKind, type SemanticDB } from '../storage/SemanticDB';
+import { createSymbolDB, type SymbolChange, type SymbolChangeSet } from '../storage/SymbolDB';
+import { makeFlatVectorIndex } from '../storage/FlatVectorIndex';
+import { makeSqliteEntryStore } from '../storage/SqliteEntryStore';
+import { makeSqliteEmbeddingHashStore } from '../storage/SqliteEmbeddingHashStore';
+import { makeEmbeddingProvider, makeEmbedEntries, type EmbeddingProvider } from '../storage/EmbeddingProvider';
+import { loadProcbaseConfig } from '../common/config';
+import { getSemanticIndexPath, isInstanceTestPath } from '../common/paths';
+
+export type SemanticMatch = {
+  key: string;
+  relevance: number;
+  entry: Entry;
+};
+
+export type SemanticSearchOptions = {
+  // Only return entries whose module lives under this procbase-relative folder
+  modulePrefix?: string;
+  maxResults?: number;
+  minRelevance?: number;
+};
+
+// A behavior suite is searched by what its tests say it checks
+export type BehaviorDescription = {
+  name: string;
+  testTitles: string[];
+};
+
+export type SemanticIndexer = {
+  applyChanges(changes: SymbolChangeSet): Promise<void>;
+  syncBehaviors(behaviors: BehaviorDescription[]): Promise<void>;
+  search(query: string, options?: SemanticSearchOptions): Promise<SemanticMatch[]>;
+  close(): Promise<void>;
+};
+
+// Only the procbase's own types and instances are searchable
+const INDEXED_FOLDERS = ['types/', 'instances/'];
+// Behaviors are indexed from their test titles under keys of their own
+const BEHAVIOR_PREFIX = 'behaviors/';
+const DEFAULT_MAX_RESULTS = 20;
+const DEFAULT_MIN_RELEVANCE = 0.05;
+// Filtering by folder happens after ranking, so ask the index for extra candidates
+const CANDIDATE_FACTOR = 5;
+
+const getEntryKind = (kind: number): EntryKind => {
+  if (kind & ts.SymbolFlags.Class) return 'class';
+  if (kind & ts.SymbolFlags.Enum) return 'enum';
+  if (kind & ts.SymbolFlags.Function) return 'function';
+  if (kind & ts.SymbolFlags.Interface) return 'interface';
+  if (kind & ts.SymbolFlags.TypeAlias) return 'type';
+  return 'value';
+};
+
+export const getModuleId = (procbaseRoot: string, filePath: string): string => {
+  return path.relative(procbaseRoot, filePath).split(path.sep).join('/');
+};
+
+const toEntry = (procbaseRoot: string, change: SymbolChange): Entry => ({
+  description: change.documentation ?? '',
+  kind: getEntryKind(change.kind),
+  // The type string is what tells two values of the same kind apart
+  ...(change.symbolType && change.symbolType !== 'any' ? { subtype: change.symbolType } : {}),
+  exportName: change.name,
+  moduleId: getModuleId(procbaseRoot, change.filePath)
+});
+
+const toBehaviorEntry = (behavior: BehaviorDescription): Entry => ({
+  description: behavior.testTitles.join('\n'),
+  kind: 'behavior',
+  exportName: behavior.name,
+  moduleId: `${BEHAVIOR_PREFIX}${behavior.name}`
+});
+
+const describeEntry = (entry: Entry): string => {
+  return [entry.exportName, entry.kind, entry.subtype ?? '', entry.description, entry.moduleId.replace(/\.ts$/, '')].join('\n');
+};
+
+type IndexedEntry = {
+  key: string;
+  entry: Entry;
+  // Identifies what was embedded, so an unchanged entry is not embedded again
+  contentHash: string | null;
+};
+
+// Behavior suites installed into an instance are found through their behavior, not as instance code
+const isIndexed = (procbaseRoot: string, filePath: string): boolean => {
+  const moduleId = getModuleId(procbaseRoot, filePath);
+  return INDEXED_FOLDERS.some(folder => moduleId.startsWith(folder)) && !isInstanceTestPath(procbaseRoot, filePath);
+};
+
+// The vectors are derived data: an unreadable file is dropped and rebuilt from the symbols
+const openVectorIndex = async (filePath: string) => {
+  try {
+    return await makeFlatVectorIndex(filePath);
+  } catch (error) {
+    console.warn(`Warning: Rebuilding unreadable semantic index ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    await fs.promises.rm(filePath, { force: true });
+    return await makeFlatVectorIndex(filePath);
+  }
+};
+
+const createSemanticIndexer = async (procbaseRoot: string): Promise<SemanticIndexer> => {
+  const provider: EmbeddingProvider = makeEmbeddingProvider(loadProcbaseConfig(procbaseRoot).embedding);
+  // Vectors from different providers are not comparable, so each gets its own file
+  const indexName = `symbols-${provider.id.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+  const dbPath = path.join(procbaseRoot, 'symbols.sqlite');
+  // Migrating an outdated symbols.sqlite drops the semantic tables, so it has to come first
+  const symbolDB = createSymbolDB(dbPath);
+  symbolDB.initialize();
+  const entryStore = await makeSqliteEntryStore(dbPath);
+  const embeddedHashes = makeSqliteEmbeddingHashStore(dbPath, indexName);
+
+  const semanticDB: SemanticDB<Float32Array, Entry> = await makeSemanticDB({
+    makeSemanticIndex: () => openVectorIndex(getSemanticIndexPath(procbaseRoot, indexName)),
+    makeEntryStore: async () => entryStore,
+    embedEntries: makeEmbedEntries(provider, describeEntry)
+  });
+
+  /**
+   * Delete and embed, then record the embedded hashes once the vectors are on disk.
+   * A crash in between leaves vectors without a recorded hash, which the next
+   * reconcile re-embeds, never a recorded hash without its vector.
+   */
+  const write = async (removedKeys: string[], embedded: IndexedEntry[]): Promise<void> => {
+    for (const key of removedKeys) {
+      embeddedHashes.delete(key);
+      await semanticDB.delEntry(key);
+    }
+    // A single embed call, so the provider can batch the whole change set
+    await semanticDB.setEntries(embedded.map(({ key, entry }) => [key, entry]));
+    // One write for the whole change set
+    await semanticDB.flush();
+    embeddedHashes.setAll(embedded.map(({ key, contentHash }) => [key, contentHash]));
+  };
+
+  const fromSymbol = (change: SymbolChange): IndexedEntry => ({
+    key: change.id,
+    entry: toEntry(procbaseRoot, change),
+    contentHash: change.contentHash
+  });
+
+  // Embed what is missing or stale among the given entries and drop the other keys the predicate owns
+  const sync = async (entries: IndexedEntry[], ownsKey: (key: string) => boolean): Promise<void> => {
+    const current = new Set(entries.map(({ key }) => key));
+    const indexedKeys = new Set(await semanticDB.indexedKeys());
+    const hashes = embeddedHashes.getAll();
+
+    const removedKeys = Array.from(new Set([...indexedKeys, ...hashes.keys()])).filter(key => ownsKey(key) && !current.has(key));
+    const stale = entries.filter(({ key, contentHash }) => {
+      return !indexedKeys.has(key) || !hashes.has(key) || hashes.get(key) !== contentHash;
+    });
+    await write(removedKeys, stale);
+  };
+
+  // Compare what the index holds with the symbols table and fix up the difference
+  const reconcile = async (): Promise<void> => {
+    const symbols = symbolDB.getSymbolChanges().filter(symbol => isIndexed(procbaseRoot, symbol.filePath));
+    await sync(symbols.map(fromSymbol), key => !key.startsWith(BEHAVIOR_PREFIX));
+  };
+
+  // Reconciling and applying changes both write the index, so they take turns
+  let queue: Promise<void> = Promise.resolve();
+  const enqueue = (task: () => Promise<void>): Promise<void> => {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  // Set when a write failed part way; the next call starts by reconciling
+  let needsReconcile = false;
+  const runWrite = (task: () => Promise<void>): Promise<void> => {
+    return enqueue(async () => {
+      try {
+        if (needsReconcile) {
+          await reconcile();
+          needsReconcile = false;
+        }
+        await task();
+      } catch (error) {
+        needsReconcile = true;
+        throw error;
+      }
+    });
+  };
+
+  const applyChanges = async (changes: SymbolChangeSet): Promise<void> => {
+    if (!isIndexed(procbaseRoot, changes.filePath)) {
+      return;
+    }
+    await runWrite(async () => {
+      // Changes the open-time reconcile already picked up need no second embedding
+      const hashes = embeddedHashes.getAll();
+      const embedded = [...changes.added, ...changes.changed].filter(change => {
+        return !hashes.has(change.id) || hashes.get(change.id) !== change.contentHash;
+      });
+      await write(changes.removed.map(change => change.id), embedded.map(fromSymbol));
+    });
+  };
+
+  const syncBehaviors = async (behaviors: BehaviorDescription[]): Promise<void> => {
+    const entries = behaviors.map((behavior): IndexedEntry => {
+      const entry = toBehaviorEntry(behavior);
+      return { key: entry.moduleId, entry, contentHash: createHash('sha1').update(entry.description).digest('hex') };
+    });
+    await runWrite(() => sync(entries, key => key.startsWith(BEHAVIOR_PREFIX)));
+  };
+
+  // Catch up with whatever changed while the index was closed or on another provider
+  await runWrite(reconcile).catch(error => {
+    console.warn(`Warning: Failed to reconcile semantic index ${indexName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  });
+
+  const search = async (query: string, options: SemanticSearchOptions = {}): Promise<SemanticMatch[]> => {
+    // Finish an interrupted write before answering from the index
+    if (needsReconcile) {
+      await runWrite(async () => {});
+    }
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const [embedding] = await provider.embed([query]);
+    if (!embedding) {
+      return [];
+    }
+
+    const results = await semanticDB.search({
+      embedding,
+      maxResults: options.modulePrefix ? maxResults * CANDIDATE_FACTOR : maxResults,
+      minRelevance: options.minRelevance ?? DEFAULT_MIN_RELEVANCE
+    });
+
+    const matches: SemanticMatch[] = [];
+    for (const result of results) {
+      const entry = await semanticDB.getEntry(result.key);
+      if (entry && (!options.modulePrefix || entry.moduleId.startsWith(options.modulePrefix))) {
+        matches.push({ ...result, entry });
+      }
+    }
+    return matches.slice(0, maxResults);
+  };
+
+  return {
+    applyChanges,
+    syncBehaviors,
+    search,
+    close: async () => {
+      await queue;
+      await semanticDB.close();
+      embeddedHashes.close();
+      symbolDB.close();
+    }
+  };
+};
+
+const indexers = new Map<string, Promise<SemanticIndexer>>();
+
+/**
+ * Get the semantic indexer of a procbase, creating it on first use
+ */
+export const getSemanticIndexer = (procbaseRoot: string): Promise<SemanticIndexer> => {
+  let indexer = indexers.get(procbaseRoot);
+  if (!indexer) {
+    indexer = createSemanticIndexer(procbaseRoot);
+    // A failed start (bad config, unreadable index) should be retried next time
+    indexer.catch(() => indexers.delete(procbaseRoot));
+    indexers.set(procbaseRoot, indexer);
+  }
+  return indexer;
+};
+
+/**
+ * Close the semantic indexer of a procbase, if one was started
+ */
+export const closeSemanticIndexer = async (procbaseRoot: string): Promise<void> => {
+  const indexer = indexers.get(procbaseRoot);
+  if (!indexer) {
+    return;
+  }
+  indexers.delete(procbaseRoot);
+  await (await indexer.catch(() => null))?.close();
+};
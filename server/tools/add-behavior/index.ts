@@ -0,0 +1,85 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { checkFolderName, getBehaviorDirPath, getCurrentProcbase } from '../../../common/paths';
+
+type AddBehaviorResult = {
+  success: boolean;
+  message: string;
+  behaviorName?: string;
+  testFiles?: string[];
+};
+
+/**
+ * List the .test.ts files of a behavior folder, relative to the folder; assets are skipped
+ */
+export const getBehaviorTestFiles = (behaviorDir: string): string[] => {
+  const collect = (dir: string): string[] => {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return entry.name === 'assets' || entry.name === 'node_modules' ? [] : collect(entryPath);
+      }
+      return entry.name.endsWith('.test.ts') ? [path.relative(behaviorDir, entryPath)] : [];
+    });
+  };
+  return collect(behaviorDir).sort();
+};
+
+/**
+ * Check that a folder can serve as a behavior suite, returning a reason when it cannot
+ */
+export const checkBehaviorSource = (sourceDir: string): string | null => {
+  if (!fs.existsSync(sourceDir) || !fs.statSync(sourceDir).isDirectory()) {
+    return `Behavior source must be a directory: ${sourceDir}`;
+  }
+  if (getBehaviorTestFiles(sourceDir).length === 0) {
+    return `Behavior source ${sourceDir} contains no .test.ts files`;
+  }
+  return null;
+};
+
+const addBehavior = (sourceDir: string, behaviorName?: string): AddBehaviorResult => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const absoluteSource = path.resolve(sourceDir);
+    const name = behaviorName ?? path.basename(absoluteSource);
+
+    const nameError = checkFolderName('behavior', name);
+    if (nameError) {
+      return { success: false, message: nameError };
+    }
+
+    const problem = checkBehaviorSource(absoluteSource);
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    const behaviorDir = getBehaviorDirPath(procbaseRoot, name);
+    if (fs.existsSync(behaviorDir)) {
+      return { success: false, message: `Behavior '${name}' already exists at ${behaviorDir}. Use update instead.` };
+    }
+
+    fs.mkdirSync(path.dirname(behaviorDir), { recursive: true });
+    fs.cpSync(absoluteSource, behaviorDir, { recursive: true });
+
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    analyzer.setBehavior({ name, dirPath: behaviorDir });
+
+    return {
+      success: true,
+      message: `Behavior '${name}' added`,
+      behaviorName: name,
+      testFiles: getBehaviorTestFiles(behaviorDir)
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to add behavior: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const addBehaviorTool = {
+  addBehavior
+};
@@ -0,0 +1,103 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase, getInstanceDirPath } from '../../../common/paths';
+import { checkInstanceName, parseTypeReference, verifyInstanceTool } from '../verify-instance';
+import type { ValidationIssue } from '../../../types/validation/ValidationIssue';
+
+type AddInstanceResult = {
+  success: boolean;
+  message: string;
+  instanceName?: string;
+  filePath?: string;
+  issues?: ValidationIssue[];
+};
+
+/**
+ * Derive an instance name from its source: a folder keeps its name, a single
+ * file uses its base name (or its folder name when it is already an index.ts)
+ */
+export const getInstanceName = (sourcePath: string): string => {
+  if (fs.statSync(sourcePath).isDirectory()) {
+    return path.basename(sourcePath);
+  }
+  const baseName = path.basename(sourcePath, path.extname(sourcePath));
+  return baseName === 'index' ? path.basename(path.dirname(sourcePath)) : baseName;
+};
+
+/**
+ * Copy an instance folder, or a single file as its index.ts, into the target folder
+ */
+export const copyInstanceSource = (sourcePath: string, instanceDir: string) => {
+  if (fs.statSync(sourcePath).isDirectory()) {
+    fs.cpSync(sourcePath, instanceDir, { recursive: true });
+  } else {
+    fs.mkdirSync(instanceDir, { recursive: true });
+    fs.copyFileSync(sourcePath, path.join(instanceDir, 'index.ts'));
+  }
+};
+
+const addInstance = async (
+  sourcePath: string,
+  typeReference: string,
+  instanceName?: string
+): Promise<AddInstanceResult> => {
+  try {
+    // The name becomes a path under instances/, so check it before touching the file system
+    const explicitNameError = instanceName === undefined ? null : checkInstanceName(instanceName);
+    if (explicitNameError) {
+      return { success: false, message: explicitNameError };
+    }
+
+    const procbaseRoot = getCurrentProcbase();
+    const absoluteSource = path.resolve(sourcePath);
+    if (!fs.existsSync(absoluteSource)) {
+      return { success: false, message: `Instance source not found: ${sourcePath}` };
+    }
+
+    const name = instanceName ?? getInstanceName(absoluteSource);
+    const nameError = checkInstanceName(name);
+    if (nameError) {
+      return { success: false, message: nameError };
+    }
+    const instanceDir = getInstanceDirPath(procbaseRoot, name);
+    if (fs.existsSync(instanceDir)) {
+      return {
+        success: false,
+        message: `Instance '${name}' already exists at ${instanceDir}. Use update instead.`
+      };
+    }
+
+    // Verify in place so relative and alias imports resolve as they will at runtime
+    copyInstanceSource(absoluteSource, instanceDir);
+    const verification = verifyInstanceTool.verifyInstance(instanceDir, typeReference);
+    if (!verification.success) {
+      fs.rmSync(instanceDir, { recursive: true, force: true });
+      return { ...verification, instanceName: name };
+    }
+
+    const indexFile = path.join(instanceDir, 'index.ts');
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    const analysis = await analyzer.analyzeFile(indexFile);
+    if (!analysis.success) {
+      console.warn(`Warning: Failed to analyze symbols for ${indexFile}: ${analysis.message}`);
+    }
+    analyzer.setInstanceBinding({ instanceName: name, ...parseTypeReference(typeReference), filePath: indexFile });
+
+    return {
+      success: true,
+      message: `Instance '${name}' added and bound to '${typeReference}'`,
+      instanceName: name,
+      filePath: indexFile
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to add instance: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const addInstanceTool = {
+  addInstance
+};
@@ -1,22 +1,17 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { createCodeAnalyzer } from '../../codeAnalyzer';
-import { getCurrentProcbase } from '../../../common/paths';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase, getTypeFilePath } from '../../../common/paths';
+import validateTypeFile from '../../../functions/validateTypeFile';
+import type { ValidationIssue } from '../../../types/validation/ValidationIssue';
 
-const addType = (code: string, namespace: string): { success: boolean; message: string; filePath?: string } => {
+const addType = async (code: string, namespace: string): Promise<{ success: boolean; message: string; filePath?: string; issues?: ValidationIssue[] }> => {
   try {
     // Resolve procbase root
     const procbaseRoot = getCurrentProcbase();
     // Convert dot-separated namespace to file path
-    const namespaceParts = namespace.split('.');
-    const fileName = namespaceParts.pop() + '.ts';
-    const directoryPath = path.join(procbaseRoot, 'types', ...namespaceParts);
-    const fullPath = path.join(directoryPath, fileName);
-    
-    // Ensure the directory exists
-    if (!fs.existsSync(directoryPath)) {
-      fs.mkdirSync(directoryPath, { recursive: true });
-    }
+    const fullPath = getTypeFilePath(procbaseRoot, namespace);
+    const directoryPath = path.dirname(fullPath);
     
     // Check if file already exists
     if (fs.existsSync(fullPath)) {
@@ -26,21 +21,36 @@ const addType = (code: string, namespace: string): { success: boolean; message:
       };
     }
     
+    // Reject code that breaks the procbase rules for types
+    const issues = validateTypeFile(fullPath, code);
+    if (issues.length > 0) {
+      return {
+        success: false,
+        message: `Type '${namespace}' violates procbase rules (${issues.length} issue(s)).`,
+        issues
+      };
+    }
+    
+    // Ensure the directory exists
+    if (!fs.existsSync(directoryPath)) {
+      fs.mkdirSync(directoryPath, { recursive: true });
+    }
+    
     // Write the code to the file
     fs.writeFileSync(fullPath, code, 'utf8');
     
     // Analyze the code and store symbols in database
-    const dbPath = path.join(procbaseRoot, 'symbols.sqlite');
-    const analyzer = createCodeAnalyzer(dbPath);
+    const analyzer = getCodeAnalyzer(procbaseRoot);
     
     // Analyze the newly created file
-    analyzer.analyzeFile(fullPath).then(result => {
-      if (!result.success) {
-        console.warn(`Warning: Failed to analyze symbols for ${fullPath}: ${result.message}`);
-      }
-    }).catch(error => {
-      console.warn(`Warning: Error analyzing symbols for ${fullPath}: ${error}`);
-    });
+    const analysis = await analyzer.analyzeFile(fullPath);
+    if (!analysis.success) {
+      return {
+        success: false,
+        message: `Type file written to ${fullPath}, but indexing its symbols failed: ${analysis.message}`,
+        filePath: fullPath
+      };
+    }
     
     return {
       success: true,
@@ -2,52 +2,100 @@ import fs from 'node:fs';
 import path from 'node:path';
 import ts from 'typescript';
 import extractSymbolsFromFile from '../../../functions/extractSymbols';
+import { getProcbaseAnalysisContext } from '../../analysisContext';
 import type { SymbolInfo } from '../../../types/project/SymbolInfo';
+import type { SourceLocation } from '../../../types/project/SourceLocation';
 
-type SymbolCategory = 'type' | 'class' | 'interface' | 'enum' | 'function' | 'let' | 'var' | 'const';
+export type SymbolCategory =
+  | 'type'
+  | 'class'
+  | 'interface'
+  | 'enum'
+  | 'namespace'
+  | 'function'
+  | 'let'
+  | 'var'
+  | 'const'
+  | 'alias'
+  | 'default';
 
 interface AnalysisResult {
   fileName: string;
+  filePath: string;
   symbols: {
     [category in SymbolCategory]: SymbolInfo[];
   };
 }
 
+// The JSON shape shared by the HTTP endpoint, the MCP tool and the CLI
+export type SerializedSymbol = {
+  name: string;
+  kind: number;
+  type: string;
+  isExported: boolean;
+  sourceLocation: SourceLocation;
+  documentation?: string;
+  dependencies: string[];
+};
+
+export type FileAnalysis = {
+  fileName: string;
+  filePath: string;
+  symbols: Record<SymbolCategory, SerializedSymbol[]>;
+};
+
+// Order in which categories are listed
+export const SYMBOL_CATEGORIES: SymbolCategory[] = [
+  'type',
+  'class',
+  'interface',
+  'enum',
+  'namespace',
+  'function',
+  'const',
+  'let',
+  'var',
+  'alias',
+  'default'
+];
+
+// Destructured bindings take their keyword from the enclosing variable declaration
+const getVariableDeclaration = (declaration: ts.Node): ts.VariableDeclaration | undefined => {
+  let node = declaration;
+  while (ts.isBindingElement(node) || ts.isObjectBindingPattern(node) || ts.isArrayBindingPattern(node)) {
+    node = node.parent;
+  }
+  return ts.isVariableDeclaration(node) ? node : undefined;
+};
+
 const getSymbolCategory = (symbol: SymbolInfo): SymbolCategory => {
   const flags = symbol.kind;
-  
+  const declaration = symbol.declaration;
+
+  // `export default <expr>` and `export =` carry the flags of whatever they point at
+  if (ts.isExportAssignment(declaration)) return 'default';
+  if (flags & ts.SymbolFlags.Alias) return 'alias';
   if (flags & ts.SymbolFlags.TypeAlias) return 'type';
   if (flags & ts.SymbolFlags.Class) return 'class';
   if (flags & ts.SymbolFlags.Interface) return 'interface';
   if (flags & ts.SymbolFlags.Enum) return 'enum';
   if (flags & ts.SymbolFlags.Function) return 'function';
-  
-  // For variables, we need to check the declaration type
-  const declaration = symbol.declaration;
-  if (ts.isVariableDeclaration(declaration)) {
-    const parent = declaration.parent;
-    if (ts.isVariableDeclarationList(parent)) {
-      // Check if it's a const, let, or var declaration
-      if (parent.flags & ts.NodeFlags.Const) return 'const';
-      if (parent.flags & ts.NodeFlags.Let) return 'let';
-      // Default to var if neither const nor let
-      return 'var';
-    }
-  }
-  
-  // For arrow functions and other function-like declarations
-  if (ts.isVariableDeclaration(declaration) && declaration.initializer) {
-    if (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer)) {
-      return 'function';
-    }
+  if (flags & ts.SymbolFlags.Module) return 'namespace';
+
+  const variable = getVariableDeclaration(declaration);
+  const list = variable?.parent;
+  if (list && ts.isVariableDeclarationList(list)) {
+    if (list.flags & ts.NodeFlags.Const) return 'const';
+    if (list.flags & ts.NodeFlags.Let) return 'let';
   }
-  
-  // Default to function if we can't determine
-  return 'function';
+  return 'var';
 };
 
 const analyzeFile = (filePath: string): AnalysisResult => {
-  const absolutePath = path.resolve(filePath);
+  // Resolve against the procbase tsconfig, sharing the program the indexer keeps warm
+  const context = getProcbaseAnalysisContext();
+  // Relative paths name files in the procbase, whatever the working directory is
+  const absolutePath = path.resolve(context.procbaseRoot, filePath);
   
   if (!fs.existsSync(absolutePath)) {
     throw new Error(`File not found: ${filePath}`);
@@ -57,34 +105,27 @@ const analyzeFile = (filePath: string): AnalysisResult => {
     throw new Error(`File must be a TypeScript file (.ts or .tsx): ${filePath}`);
   }
   
-  // Create a simple program for single file analysis
-  const program = ts.createProgram([absolutePath], {
-    target: ts.ScriptTarget.ES2020,
-    module: ts.ModuleKind.CommonJS,
-    strict: true,
-    esModuleInterop: true,
-    skipLibCheck: true,
-    forceConsistentCasingInFileNames: true
+  const { sourceFile, typeChecker } = context.getSourceFile(absolutePath);
+  const extractedSymbols = extractSymbolsFromFile(sourceFile, typeChecker, {
+    includeNodeModules: false,
+    includeSystemSymbols: false,
+    compilerOptions: context.compilerOptions,
+    rootDir: context.procbaseRoot
   });
   
-  const sourceFile = program.getSourceFile(absolutePath);
-  if (!sourceFile) {
-    throw new Error(`Could not parse source file: ${filePath}`);
-  }
-  
-  const typeChecker = program.getTypeChecker();
-  const extractedSymbols = extractSymbolsFromFile(sourceFile, typeChecker);
-  
   // Organize symbols by category
   const categorizedSymbols: AnalysisResult['symbols'] = {
     type: [],
     class: [],
     interface: [],
     enum: [],
+    namespace: [],
     function: [],
     let: [],
     var: [],
-    const: []
+    const: [],
+    alias: [],
+    default: []
   };
   
   // Process exports and internal symbols
@@ -97,75 +138,34 @@ const analyzeFile = (filePath: string): AnalysisResult => {
   
   return {
     fileName: path.basename(absolutePath),
+    filePath: absolutePath,
     symbols: categorizedSymbols
   };
 };
 
-const formatSymbol = (symbol: SymbolInfo): string => {
-  const exportStatus = symbol.isExported ? 'export ' : '';
-  const location = `[${symbol.sourceLocation.line}:${symbol.sourceLocation.column}]`;
-  const documentation = symbol.documentation ? `\n    📝 ${symbol.documentation}` : '';
-  const dependencies = symbol.dependencies && symbol.dependencies.size > 0
-    ? `\n    🔗 depends on: ${Array.from(symbol.dependencies).join(', ')}`
-    : '';
-  
-  return `  ${exportStatus}${symbol.name}: ${symbol.type} ${location}${documentation}${dependencies}`;
-};
+const serializeSymbol = (symbol: SymbolInfo): SerializedSymbol => ({
+  name: symbol.name,
+  kind: symbol.kind,
+  type: symbol.type,
+  isExported: symbol.isExported,
+  sourceLocation: symbol.sourceLocation,
+  documentation: symbol.documentation,
+  dependencies: Array.from(symbol.dependencies ?? [])
+});
 
-const displayAnalysis = (result: AnalysisResult): string => {
-  let output = `\n📁 Analysis of: ${result.fileName}\n`;
-  
-  const categories: { name: string; key: SymbolCategory }[] = [
-    { name: 'Types', key: 'type' },
-    { name: 'Classes', key: 'class' },
-    { name: 'Interfaces', key: 'interface' },
-    { name: 'Enums', key: 'enum' },
-    { name: 'Functions', key: 'function' },
-    { name: 'Constants', key: 'const' },
-    { name: 'Let Variables', key: 'let' },
-    { name: 'Var Variables', key: 'var' }
-  ];
-  
-  categories.forEach(({ name, key }) => {
-    const symbols = result.symbols[key];
-    if (symbols.length > 0) {
-      output += `\n🔹 ${name} (${symbols.length}):`;
-      symbols.forEach(symbol => {
-        output += `\n${formatSymbol(symbol)}`;
-      });
-    }
-  });
-  
-  // Summary
-  const totalSymbols = Object.values(result.symbols).reduce((sum, symbols) => sum + symbols.length, 0);
-  output += `\n\n📊 Summary: ${totalSymbols} top-level symbols found\n`;
-  
-  return output;
-};
+const createSerializableAnalysis = (result: AnalysisResult): FileAnalysis => {
+  const symbols = Object.fromEntries(
+    SYMBOL_CATEGORIES.map(category => [category, result.symbols[category].map(serializeSymbol)])
+  ) as Record<SymbolCategory, SerializedSymbol[]>;
 
-const createSerializableAnalysis = (result: AnalysisResult) => {
-  const serializableSymbols: any = {};
-  
-  Object.entries(result.symbols).forEach(([category, symbols]) => {
-    serializableSymbols[category] = symbols.map(symbol => ({
-      name: symbol.name,
-      type: symbol.type,
-      isExported: symbol.isExported,
-      sourceLocation: symbol.sourceLocation,
-      documentation: symbol.documentation,
-      dependencies: symbol.dependencies ? Array.from(symbol.dependencies) : [],
-      kind: symbol.kind
-    }));
-  });
-  
   return {
     fileName: result.fileName,
-    symbols: serializableSymbols
+    filePath: result.filePath,
+    symbols
   };
 };
 
 export const analyzeTool = {
   analyzeFile,
-  displayAnalysis,
   createSerializableAnalysis
 }; 
\ No newline at end of file
@@ -0,0 +1,89 @@
+import fs from 'node:fs';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase, getInstanceDirPath } from '../../../common/paths';
+import { checkInstanceName } from '../verify-instance';
+import { installBehavior, runBehaviorsTool, uninstallBehavior, type BehaviorRun } from '../run-behaviors';
+
+type BindBehaviorResult = {
+  success: boolean;
+  message: string;
+  runs?: BehaviorRun[];
+};
+
+const bindBehavior = (instanceName: string, behaviorName: string): BindBehaviorResult => {
+  try {
+    // The name becomes a path under instances/, so check it before touching the file system
+    const nameError = checkInstanceName(instanceName);
+    if (nameError) {
+      return { success: false, message: nameError };
+    }
+
+    const procbaseRoot = getCurrentProcbase();
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+
+    if (!fs.existsSync(getInstanceDirPath(procbaseRoot, instanceName))) {
+      return { success: false, message: `Instance '${instanceName}' does not exist` };
+    }
+    if (!analyzer.getBehavior(behaviorName)) {
+      return { success: false, message: `Behavior '${behaviorName}' does not exist` };
+    }
+    if (analyzer.getBoundBehaviors(instanceName).includes(behaviorName)) {
+      return { success: false, message: `Instance '${instanceName}' is already bound to behavior '${behaviorName}'` };
+    }
+
+    // The instance has to pass the behavior before the binding is recorded
+    installBehavior(procbaseRoot, instanceName, behaviorName);
+    const result = runBehaviorsTool.runBehaviors(procbaseRoot, [{ instanceName, behaviorName }]);
+    if (!result.success) {
+      uninstallBehavior(procbaseRoot, instanceName, behaviorName);
+      return {
+        success: false,
+        message: `Binding rejected: instance '${instanceName}' does not satisfy behavior '${behaviorName}'`,
+        runs: result.runs
+      };
+    }
+
+    analyzer.bindBehavior(instanceName, behaviorName);
+    return {
+      success: true,
+      message: `Instance '${instanceName}' bound to behavior '${behaviorName}'`,
+      runs: result.runs
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to bind behavior: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+const unbindBehavior = (instanceName: string, behaviorName: string): BindBehaviorResult => {
+  try {
+    // The name becomes a path under instances/, so check it before touching the file system
+    const nameError = checkInstanceName(instanceName);
+    if (nameError) {
+      return { success: false, message: nameError };
+    }
+
+    const procbaseRoot = getCurrentProcbase();
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+
+    if (!analyzer.getBoundBehaviors(instanceName).includes(behaviorName)) {
+      return { success: false, message: `Instance '${instanceName}' is not bound to behavior '${behaviorName}'` };
+    }
+
+    uninstallBehavior(procbaseRoot, instanceName, behaviorName);
+    analyzer.unbindBehavior(instanceName, behaviorName);
+    return { success: true, message: `Instance '${instanceName}' unbound from behavior '${behaviorName}'` };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to unbind behavior: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const bindBehaviorTool = {
+  bindBehavior,
+  unbindBehavior
+};
@@ -0,0 +1,147 @@
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase } from '../../../common/paths';
+import type {
+  ClosureOptions,
+  DependencyGraphOptions,
+  ReachedSymbol,
+  SymbolCandidate,
+  SymbolQueryResult,
+  SymbolSubtype
+} from '../../../storage/SymbolDB';
+
+type DependencyDirection = 'dependencies' | 'dependents';
+
+type DependencyQueryOptions = ClosureOptions & {
+  // Follow edges past the direct neighbours
+  transitive?: boolean;
+};
+
+type DependencyGraphResult = {
+  success: boolean;
+  message: string;
+  symbol?: SymbolCandidate;
+  candidates?: SymbolCandidate[];
+};
+
+type DependenciesResult = DependencyGraphResult & {
+  symbols?: ReachedSymbol[];
+};
+
+type DependencyPathResult = DependencyGraphResult & {
+  target?: SymbolCandidate;
+  path?: string[] | null;
+};
+
+type SubtypesResult = DependencyGraphResult & {
+  subtypes?: SymbolSubtype[];
+};
+
+type DependencyCyclesResult = {
+  success: boolean;
+  message: string;
+  cycles?: string[][];
+};
+
+const describeFailure = (error: unknown): string => {
+  return error instanceof Error ? error.message : 'Unknown error';
+};
+
+// Ambiguous and unknown references fail with the candidates to choose from
+const unresolvedResult = (lookup: Exclude<SymbolQueryResult<unknown>, { status: 'found' }>): DependencyGraphResult => {
+  return lookup.status === 'ambiguous'
+    ? {
+      success: false,
+      message: `Ambiguous symbol reference; use one of the candidate ids: ${lookup.candidates.map(candidate => candidate.id).join(', ')}`,
+      candidates: lookup.candidates
+    }
+    : { success: false, message: `Symbol not found: ${lookup.reference}` };
+};
+
+const getDependencies = (
+  reference: string,
+  direction: DependencyDirection,
+  options: DependencyQueryOptions = {}
+): DependenciesResult => {
+  try {
+    const analyzer = getCodeAnalyzer(getCurrentProcbase());
+    const { transitive, ...closureOptions } = options;
+
+    // One hop is a closure limited to depth 1, so both report the same shape
+    const maxDepth = transitive ? closureOptions.maxDepth : 1;
+    const query = direction === 'dependencies' ? analyzer.getClosure : analyzer.getReverseClosure;
+    const result = query(reference, { ...closureOptions, maxDepth });
+    if (result.status !== 'found') {
+      return unresolvedResult(result);
+    }
+
+    return {
+      success: true,
+      message: `Found ${result.result.length} ${transitive ? 'transitive ' : ''}${direction} of ${result.symbol.id}`,
+      symbol: result.symbol,
+      symbols: result.result
+    };
+  } catch (error) {
+    return { success: false, message: `Failed to query ${direction}: ${describeFailure(error)}` };
+  }
+};
+
+const findPath = (from: string, to: string, options: DependencyGraphOptions = {}): DependencyPathResult => {
+  try {
+    const result = getCodeAnalyzer(getCurrentProcbase()).getShortestPath(from, to, options);
+    if (result.status !== 'found') {
+      return unresolvedResult(result);
+    }
+
+    const { target, path: symbolPath } = result.result;
+    return {
+      success: true,
+      message: symbolPath
+        ? `${result.symbol.id} reaches ${target.id} in ${symbolPath.length - 1} step(s)`
+        : `${result.symbol.id} does not depend on ${target.id}`,
+      symbol: result.symbol,
+      target,
+      path: symbolPath
+    };
+  } catch (error) {
+    return { success: false, message: `Failed to find a dependency path: ${describeFailure(error)}` };
+  }
+};
+
+const findCycles = (options: DependencyGraphOptions = {}): DependencyCyclesResult => {
+  try {
+    const cycles = getCodeAnalyzer(getCurrentProcbase()).getStronglyConnectedComponents(options);
+    return {
+      success: true,
+      message: `Found ${cycles.length} dependency cycle(s)`,
+      cycles
+    };
+  } catch (error) {
+    return { success: false, message: `Failed to find dependency cycles: ${describeFailure(error)}` };
+  }
+};
+
+// Direct subtypes only; follow a subtype's own id to walk further down the hierarchy
+const findSubtypes = (reference: string): SubtypesResult => {
+  try {
+    const result = getCodeAnalyzer(getCurrentProcbase()).getSubtypes(reference);
+    if (result.status !== 'found') {
+      return unresolvedResult(result);
+    }
+
+    return {
+      success: true,
+      message: `Found ${result.result.length} subtype(s) of ${result.symbol.id}`,
+      symbol: result.symbol,
+      subtypes: result.result
+    };
+  } catch (error) {
+    return { success: false, message: `Failed to find subtypes: ${describeFailure(error)}` };
+  }
+};
+
+export const dependencyGraphTool = {
+  getDependencies,
+  findPath,
+  findCycles,
+  findSubtypes
+};
@@ -0,0 +1,51 @@
+import fs from 'node:fs';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase, getTypeFilePath } from '../../../common/paths';
+
+type GetTypeResult = {
+  success: boolean;
+  message: string;
+  filePath?: string;
+  code?: string;
+  exports?: string[];
+};
+
+const getType = (namespace: string): GetTypeResult => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const fullPath = getTypeFilePath(procbaseRoot, namespace);
+
+    if (!fs.existsSync(fullPath)) {
+      return {
+        success: false,
+        message: `Type '${namespace}' does not exist at ${fullPath}.`
+      };
+    }
+
+    const code = fs.readFileSync(fullPath, 'utf8');
+
+    // Indexed symbols are optional; a type that was never analyzed still has code
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    const symbols = analyzer.getSymbols(fullPath);
+
+    return {
+      success: true,
+      message: `Found type '${namespace}'`,
+      filePath: fullPath,
+      code,
+      // Members such as `Shape.area` belong to their parent export
+      exports: symbols
+        ? symbols.symbols.filter(symbol => symbol.exportNames.includes(symbol.name) && !symbol.memberOf).map(symbol => symbol.name)
+        : []
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to get type: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const getTypeTool = {
+  getType
+};
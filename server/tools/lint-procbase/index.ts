@@ -0,0 +1,83 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import { loadTsConfig } from '../../analysisContext';
+import { listProcbaseSourceFiles } from '../../analysisSession';
+import { getCurrentProcbase } from '../../../common/paths';
+import lintProcbaseFile from '../../../functions/lintProcbaseFile';
+import applyValidationFixes from '../../../functions/applyValidationFixes';
+import type { ValidationFix } from '../../../types/validation/ValidationFix';
+import type { ValidationIssue } from '../../../types/validation/ValidationIssue';
+
+type LintProcbaseOptions = {
+  fix?: boolean;
+};
+
+type LintProcbaseResult = {
+  success: boolean;
+  message: string;
+  issues?: ValidationIssue[];
+  fixedFiles?: string[];
+};
+
+const LINTED_AREAS = ['types', 'instances'];
+
+const lintFiles = (procbaseRoot: string, files: string[]): ValidationIssue[] => {
+  const program = ts.createProgram(files, loadTsConfig(procbaseRoot));
+  return files.flatMap(file => lintProcbaseFile(program, file, procbaseRoot));
+};
+
+const fixFiles = (issues: ValidationIssue[]): string[] => {
+  const fixesByFile = new Map<string, ValidationFix[]>();
+  issues.forEach(issue => {
+    if (issue.fix) {
+      fixesByFile.set(issue.fileName, [...(fixesByFile.get(issue.fileName) ?? []), issue.fix]);
+    }
+  });
+
+  return Array.from(fixesByFile.entries()).flatMap(([fileName, fixes]) => {
+    const code = fs.readFileSync(fileName, 'utf8');
+    const result = applyValidationFixes(code, fixes);
+    if (result.applied === 0) {
+      return [];
+    }
+    fs.writeFileSync(fileName, result.code);
+    return [fileName];
+  });
+};
+
+const lintProcbase = (options: LintProcbaseOptions = {}): LintProcbaseResult => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    // Installed behavior suites are left out: they are copies of the canonical ones
+    const files = LINTED_AREAS.map(area => path.join(procbaseRoot, area))
+      .filter(dir => fs.existsSync(dir))
+      .flatMap(dir => listProcbaseSourceFiles(procbaseRoot, dir))
+      .filter(file => !file.endsWith('.d.ts'));
+
+    let issues = lintFiles(procbaseRoot, files);
+    let fixedFiles: string[] = [];
+    if (options.fix && issues.some(issue => issue.fix)) {
+      fixedFiles = fixFiles(issues);
+      // Report what is left after the fixes rather than what was found before them
+      issues = lintFiles(procbaseRoot, files);
+    }
+
+    const fixable = issues.filter(issue => issue.fix).length;
+    return {
+      success: true,
+      message: `Linted ${files.length} file(s): ${issues.length} issue(s)${fixable > 0 ? `, ${fixable} fixable with --fix` : ''}`,
+      issues,
+      fixedFiles
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to lint procbase: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const lintProcbaseTool = {
+  lintProcbase
+};
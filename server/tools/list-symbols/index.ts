@@ -0,0 +1,36 @@
+import path from 'node:path';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase } from '../../../common/paths';
+import type { SymbolSearchResult } from '../../../storage/SymbolDB';
+
+type ListSymbolsResult = {
+  success: boolean;
+  message: string;
+  symbols?: SymbolSearchResult[];
+};
+
+const listSymbols = (filePath?: string): ListSymbolsResult => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+
+    // An empty query matches every symbol under the given path prefix
+    const prefix = filePath ? path.resolve(procbaseRoot, filePath) : procbaseRoot;
+    const symbols = analyzer.searchSymbols('', prefix);
+
+    return {
+      success: true,
+      message: `Found ${symbols.length} symbol(s) under ${prefix}`,
+      symbols
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to list symbols: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const listSymbolsTool = {
+  listSymbols
+};
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import type { ContentResult, FastMCP } from 'fastmcp';
+import { analyzeTool } from './analyze';
+import { addTypeTool } from './add-type';
+import { updateTypeTool } from './update-type';
+import { getTypeTool } from './get-type';
+import { searchTypesTool } from './search-types';
+import { listSymbolsTool } from './list-symbols';
+import { dependencyGraphTool } from './dependency-graph';
+
+/**
+ * Wrap a tool result as JSON text, flagging `success: false` results as MCP errors
+ */
+const toToolResult = <T extends { success: boolean }>(result: T): ContentResult => ({
+  content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+  isError: !result.success
+});
+
+const namespaceParameter = z
+  .string()
+  .regex(/^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/, 'Namespace must be dot-separated identifiers, e.g. Procbase.TypeScriptProject')
+  .describe('Dot-separated type namespace, mapped to types/<A>/<B>.ts');
+
+const symbolParameter = z
+  .string()
+  .min(1)
+  .describe('Symbol id such as `types/Geo/Vec.ts#Vec:type`, or a bare name');
+
+const runtimeOnlyParameter = z
+  .boolean()
+  .optional()
+  .describe('Ignore edges that only exist in type positions (type, typeof, implements)');
+
+const dependencyQueryParameters = z.object({
+  symbol: symbolParameter,
+  transitive: z.boolean().optional().describe('Follow edges past the direct neighbours'),
+  maxDepth: z.number().int().positive().optional().describe('Number of edges to follow when transitive; unlimited by default'),
+  runtimeOnly: runtimeOnlyParameter
+});
+
+/**
+ * Register all procbase MCP tools on the given server
+ * @param server - The FastMCP server serving the current procbase
+ */
+export const registerTools = (server: FastMCP) => {
+  server.addTool({
+    name: 'add_type',
+    description: 'Add a new type file to the current procbase and index its symbols',
+    parameters: z.object({
+      namespace: namespaceParameter,
+      code: z.string().min(1).describe('TypeScript source of the type file')
+    }),
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+    execute: async ({ namespace, code }) => toToolResult(await addTypeTool.addType(code, namespace))
+  });
+
+  server.addTool({
+    name: 'update_type',
+    description: 'Replace the source of an existing type file in the current procbase and re-index it',
+    parameters: z.object({
+      namespace: namespaceParameter,
+      code: z.string().min(1).describe('New TypeScript source of the type file')
+    }),
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+    execute: async ({ namespace, code }) => toToolResult(await updateTypeTool.updateType(code, namespace))
+  });
+
+  server.addTool({
+    name: 'get_type',
+    description: 'Get the source and exported symbols of a type in the current procbase',
+    parameters: z.object({
+      namespace: namespaceParameter
+    }),
+    annotations: { readOnlyHint: true },
+    execute: async ({ namespace }) => toToolResult(getTypeTool.getType(namespace))
+  });
+
+  server.addTool({
+    name: 'search_types',
+    description: 'Search type names, documentation and type strings in the current procbase, literally or by meaning',
+    parameters: z.object({
+      query: z.string().min(1).describe('Case-insensitive substring, or a description when semantic is set'),
+      semantic: z.boolean().optional().describe('Rank types by semantic similarity instead of substring matching')
+    }),
+    annotations: { readOnlyHint: true },
+    execute: async ({ query, semantic }) => toToolResult(
+      semantic ? await searchTypesTool.searchTypesSemantic(query) : searchTypesTool.searchTypes(query)
+    )
+  });
+
+  server.addTool({
+    name: 'analyze_file',
+    description: 'Analyze a TypeScript file and return its top-level symbols grouped by category',
+    parameters: z.object({
+      filePath: z.string().min(1).describe('Path to a .ts or .tsx file, relative to the procbase root')
+    }),
+    annotations: { readOnlyHint: true },
+    execute: async ({ filePath }) => {
+      try {
+        const result = analyzeTool.analyzeFile(filePath);
+        return toToolResult({ success: true, analysis: analyzeTool.createSerializableAnalysis(result) });
+      } catch (error) {
+        return toToolResult({
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  });
+
+  server.addTool({
+    name: 'list_symbols',
+    description: 'List indexed symbols in the current procbase, optionally restricted to a file or directory',
+    parameters: z.object({
+      filePath: z.string().optional().describe('File or directory path, relative to the procbase root')
+    }),
+    annotations: { readOnlyHint: true },
+    execute: async ({ filePath }) => toToolResult(listSymbolsTool.listSymbols(filePath))
+  });
+
+  server.addTool({
+    name: 'get_dependencies',
+    description: 'List the symbols a symbol depends on, directly or transitively, with the depth at which each is reached',
+    parameters: dependencyQueryParameters,
+    annotations: { readOnlyHint: true },
+    execute: async ({ symbol, ...options }) => toToolResult(dependencyGraphTool.getDependencies(symbol, 'dependencies', options))
+  });
+
+  server.addTool({
+    name: 'get_dependents',
+    description: 'List the symbols that depend on a symbol, directly or transitively, with the depth at which each is reached',
+    parameters: dependencyQueryParameters,
+    annotations: { readOnlyHint: true },
+    execute: async ({ symbol, ...options }) => toToolResult(dependencyGraphTool.getDependencies(symbol, 'dependents', options))
+  });
+
+  server.addTool({
+    name: 'find_dependency_path',
+    description: 'Explain why one symbol depends on another with a shortest chain of dependency edges between them',
+    parameters: z.object({
+      from: symbolParameter,
+      to: symbolParameter,
+      runtimeOnly: runtimeOnlyParameter
+    }),
+    annotations: { readOnlyHint: true },
+    execute: async ({ from, to, runtimeOnly }) => toToolResult(dependencyGraphTool.findPath(from, to, { runtimeOnly }))
+  });
+
+  server.addTool({
+    name: 'find_dependency_cycles',
+    description: 'List groups of symbols in the current procbase that depend on each other in a cycle',
+    parameters: z.object({
+      runtimeOnly: runtimeOnlyParameter
+    }),
+    annotations: { readOnlyHint: true },
+    execute: async ({ runtimeOnly }) => toToolResult(dependencyGraphTool.findCycles({ runtimeOnly }))
+  });
+
+  server.addTool({
+    name: 'find_subtypes',
+    description: 'List the classes and interfaces that directly extend or implement a symbol',
+    parameters: z.object({
+      symbol: symbolParameter
+    }),
+    annotations: { readOnlyHint: true },
+    execute: async ({ symbol }) => toToolResult(dependencyGraphTool.findSubtypes(symbol))
+  });
+};
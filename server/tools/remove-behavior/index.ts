@@ -0,0 +1,40 @@
+import fs from 'node:fs';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getBehaviorDirPath, getCurrentProcbase } from '../../../common/paths';
+import { uninstallBehavior } from '../run-behaviors';
+
+type RemoveBehaviorResult = {
+  success: boolean;
+  message: string;
+  unboundInstances?: string[];
+};
+
+const removeBehavior = (behaviorName: string): RemoveBehaviorResult => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    if (!analyzer.getBehavior(behaviorName)) {
+      return { success: false, message: `Behavior '${behaviorName}' does not exist` };
+    }
+
+    const boundInstances = analyzer.getBoundInstances(behaviorName);
+    boundInstances.forEach(instanceName => uninstallBehavior(procbaseRoot, instanceName, behaviorName));
+    fs.rmSync(getBehaviorDirPath(procbaseRoot, behaviorName), { recursive: true, force: true });
+    analyzer.deleteBehavior(behaviorName);
+
+    return {
+      success: true,
+      message: `Behavior '${behaviorName}' removed`,
+      unboundInstances: boundInstances
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to remove behavior: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const removeBehaviorTool = {
+  removeBehavior
+};
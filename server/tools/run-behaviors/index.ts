@@ -0,0 +1,91 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { spawnSync } from 'node:child_process';
+import { getBehaviorDirPath, getInstalledBehaviorDirPath } from '../../../common/paths';
+
+export type BehaviorRun = {
+  instanceName: string;
+  behaviorName: string;
+  passed: boolean;
+  output: string;
+};
+
+type RunBehaviorsResult = {
+  success: boolean;
+  message: string;
+  runs: BehaviorRun[];
+};
+
+const TEST_TIMEOUT_MS = 120_000;
+
+// Prefer the bun binary running us so the gate does not depend on PATH
+const getBunExecutable = (): string => {
+  return process.versions.bun ? process.execPath : 'bun';
+};
+
+/**
+ * Copy the canonical suite of a behavior into the __tests__ folder of an instance
+ */
+export const installBehavior = (procbaseRoot: string, instanceName: string, behaviorName: string) => {
+  const installedDir = getInstalledBehaviorDirPath(procbaseRoot, instanceName, behaviorName);
+  fs.rmSync(installedDir, { recursive: true, force: true });
+  fs.mkdirSync(path.dirname(installedDir), { recursive: true });
+  fs.cpSync(getBehaviorDirPath(procbaseRoot, behaviorName), installedDir, { recursive: true });
+};
+
+/**
+ * Remove an installed behavior suite, dropping the __tests__ folder once it is empty
+ */
+export const uninstallBehavior = (procbaseRoot: string, instanceName: string, behaviorName: string) => {
+  const installedDir = getInstalledBehaviorDirPath(procbaseRoot, instanceName, behaviorName);
+  fs.rmSync(installedDir, { recursive: true, force: true });
+
+  const testsDir = path.dirname(installedDir);
+  if (fs.existsSync(testsDir) && fs.readdirSync(testsDir).length === 0) {
+    fs.rmdirSync(testsDir);
+  }
+};
+
+const runBehavior = (procbaseRoot: string, instanceName: string, behaviorName: string): BehaviorRun => {
+  const installedDir = getInstalledBehaviorDirPath(procbaseRoot, instanceName, behaviorName);
+  if (!fs.existsSync(installedDir)) {
+    return { instanceName, behaviorName, passed: false, output: `Behavior suite is not installed at ${installedDir}` };
+  }
+
+  // A leading ./ makes bun treat the argument as a path rather than a name filter
+  const testPath = `.${path.sep}${path.relative(procbaseRoot, installedDir)}`;
+  const child = spawnSync(getBunExecutable(), ['test', testPath], {
+    cwd: procbaseRoot,
+    encoding: 'utf8',
+    timeout: TEST_TIMEOUT_MS
+  });
+
+  if (child.error) {
+    return { instanceName, behaviorName, passed: false, output: child.error.message };
+  }
+
+  return {
+    instanceName,
+    behaviorName,
+    passed: child.status === 0,
+    // bun test reports to stderr
+    output: `${child.stdout ?? ''}${child.stderr ?? ''}`.trim()
+  };
+};
+
+const runBehaviors = (procbaseRoot: string, pairs: { instanceName: string; behaviorName: string }[]): RunBehaviorsResult => {
+  const runs = pairs.map(({ instanceName, behaviorName }) => runBehavior(procbaseRoot, instanceName, behaviorName));
+  const failed = runs.filter(run => !run.passed);
+
+  if (failed.length > 0) {
+    const names = failed.map(run => `${run.instanceName} › ${run.behaviorName}`).join(', ');
+    return { success: false, message: `${failed.length} of ${runs.length} behavior run(s) failed: ${names}`, runs };
+  }
+
+  return { success: true, message: `${runs.length} behavior run(s) passed`, runs };
+};
+
+export const runBehaviorsTool = {
+  runBehavior,
+  runBehaviors
+};
@@ -0,0 +1,134 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase } from '../../../common/paths';
+import { getSemanticIndexer } from '../../semanticIndex';
+import { getBehaviorTestFiles } from '../add-behavior';
+
+type BehaviorSearchMatch = {
+  behaviorName: string;
+  boundInstances: string[];
+  testFiles: string[];
+  // A semantic match ranks the suite as a whole, so it lists every test title
+  matchedTests: string[];
+  relevance?: number;
+};
+
+type SearchBehaviorsResult = {
+  success: boolean;
+  message: string;
+  matches?: BehaviorSearchMatch[];
+};
+
+const TEST_FUNCTIONS = new Set(['describe', 'it', 'test']);
+
+/**
+ * Collect the titles passed to describe/it/test in a test file
+ */
+const getTestTitles = (filePath: string): string[] => {
+  const sourceFile = ts.createSourceFile(filePath, fs.readFileSync(filePath, 'utf8'), ts.ScriptTarget.Latest, true);
+  const titles: string[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      // Covers plain calls as well as modifiers like it.skip or describe.each
+      const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.expression : node.expression;
+      const [title] = node.arguments;
+      if (ts.isIdentifier(callee) && TEST_FUNCTIONS.has(callee.text) && title && ts.isStringLiteralLike(title)) {
+        titles.push(title.text);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return titles;
+};
+
+const searchBehaviors = (query: string): SearchBehaviorsResult => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    const needle = query.toLowerCase();
+    const includesNeedle = (text: string) => text.toLowerCase().includes(needle);
+
+    const matches = analyzer.getBehaviors().flatMap((behavior): BehaviorSearchMatch[] => {
+      if (!fs.existsSync(behavior.dirPath)) {
+        return [];
+      }
+
+      const testFiles = getBehaviorTestFiles(behavior.dirPath);
+      const matchedTests = testFiles.flatMap(testFile => getTestTitles(path.join(behavior.dirPath, testFile))).filter(includesNeedle);
+      if (!includesNeedle(behavior.name) && !testFiles.some(includesNeedle) && matchedTests.length === 0) {
+        return [];
+      }
+
+      return [{
+        behaviorName: behavior.name,
+        boundInstances: analyzer.getBoundInstances(behavior.name),
+        testFiles,
+        matchedTests
+      }];
+    });
+
+    return {
+      success: true,
+      message: `Found ${matches.length} matching behavior(s)`,
+      matches
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to search behaviors: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+const searchBehaviorsSemantic = async (query: string): Promise<SearchBehaviorsResult> => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    const indexer = await getSemanticIndexer(procbaseRoot);
+
+    // Suites change without going through the analyzer, so bring their entries up to date first
+    const suites = new Map(analyzer.getBehaviors()
+      .filter(behavior => fs.existsSync(behavior.dirPath))
+      .map(behavior => {
+        const testFiles = getBehaviorTestFiles(behavior.dirPath);
+        const testTitles = testFiles.flatMap(testFile => getTestTitles(path.join(behavior.dirPath, testFile)));
+        return [behavior.name, { testFiles, testTitles }] as const;
+      }));
+    await indexer.syncBehaviors(Array.from(suites, ([name, { testTitles }]) => ({ name, testTitles })));
+
+    const matches = (await indexer.search(query, { modulePrefix: 'behaviors/' })).flatMap(({ entry, relevance }): BehaviorSearchMatch[] => {
+      const suite = suites.get(entry.exportName);
+      if (!suite) {
+        return [];
+      }
+      return [{
+        behaviorName: entry.exportName,
+        boundInstances: analyzer.getBoundInstances(entry.exportName),
+        testFiles: suite.testFiles,
+        matchedTests: suite.testTitles,
+        relevance
+      }];
+    });
+
+    return {
+      success: true,
+      message: `Found ${matches.length} semantically related behavior(s)`,
+      matches
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to search behaviors semantically: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const searchBehaviorsTool = {
+  searchBehaviors,
+  searchBehaviorsSemantic
+};
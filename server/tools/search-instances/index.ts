@@ -0,0 +1,133 @@
+import path from 'node:path';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase } from '../../../common/paths';
+import { getSemanticIndexer } from '../../semanticIndex';
+
+type InstanceSearchMatch = {
+  instanceName: string;
+  typeNamespace: string | null;
+  filePath: string;
+  matchedSymbols: string[];
+};
+
+type SemanticInstanceMatch = {
+  instanceName: string;
+  typeNamespace: string | null;
+  filePath: string;
+  relevance: number;
+  matchedSymbols: string[];
+};
+
+type SearchInstancesSemanticResult = {
+  success: boolean;
+  message: string;
+  matches?: SemanticInstanceMatch[];
+};
+
+type SearchInstancesResult = {
+  success: boolean;
+  message: string;
+  matches?: InstanceSearchMatch[];
+};
+
+const searchInstances = (query: string): SearchInstancesResult => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    const instancesDir = path.join(procbaseRoot, 'instances');
+    const needle = query.toLowerCase();
+
+    const bindings = new Map(analyzer.getInstanceBindings().map(binding => [binding.instanceName, binding]));
+    const matches = new Map<string, InstanceSearchMatch>();
+
+    const getMatch = (instanceName: string): InstanceSearchMatch => {
+      const existing = matches.get(instanceName);
+      if (existing) {
+        return existing;
+      }
+      const binding = bindings.get(instanceName);
+      const match: InstanceSearchMatch = {
+        instanceName,
+        typeNamespace: binding?.typeNamespace ?? null,
+        filePath: binding?.filePath ?? path.join(instancesDir, instanceName, 'index.ts'),
+        matchedSymbols: []
+      };
+      matches.set(instanceName, match);
+      return match;
+    };
+
+    // Instance names and bound types match directly
+    bindings.forEach(binding => {
+      if (binding.instanceName.toLowerCase().includes(needle) || binding.typeNamespace.toLowerCase().includes(needle)) {
+        getMatch(binding.instanceName);
+      }
+    });
+
+    // Symbols match through the instance folder they live in
+    analyzer.searchSymbols(query, instancesDir + path.sep).forEach(symbol => {
+      const instanceName = path.relative(instancesDir, symbol.filePath).split(path.sep)[0];
+      if (instanceName) {
+        getMatch(instanceName).matchedSymbols.push(symbol.name);
+      }
+    });
+
+    const sortedMatches = Array.from(matches.values()).sort((a, b) => a.instanceName.localeCompare(b.instanceName));
+    return {
+      success: true,
+      message: `Found ${sortedMatches.length} matching instance(s)`,
+      matches: sortedMatches
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to search instances: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+const searchInstancesSemantic = async (query: string): Promise<SearchInstancesSemanticResult> => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    const indexer = await getSemanticIndexer(procbaseRoot);
+    const bindings = new Map(analyzer.getInstanceBindings().map(binding => [binding.instanceName, binding]));
+
+    // An instance ranks by its most relevant symbol; results arrive best first
+    const matches = new Map<string, SemanticInstanceMatch>();
+    (await indexer.search(query, { modulePrefix: 'instances/' })).forEach(({ entry, relevance }) => {
+      const instanceName = entry.moduleId.split('/')[1];
+      if (!instanceName) {
+        return;
+      }
+      const existing = matches.get(instanceName);
+      if (existing) {
+        existing.matchedSymbols.push(entry.exportName);
+        return;
+      }
+      const binding = bindings.get(instanceName);
+      matches.set(instanceName, {
+        instanceName,
+        typeNamespace: binding?.typeNamespace ?? null,
+        filePath: binding?.filePath ?? path.join(procbaseRoot, 'instances', instanceName, 'index.ts'),
+        relevance,
+        matchedSymbols: [entry.exportName]
+      });
+    });
+
+    return {
+      success: true,
+      message: `Found ${matches.size} semantically related instance(s)`,
+      matches: Array.from(matches.values())
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to search instances semantically: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const searchInstancesTool = {
+  searchInstances,
+  searchInstancesSemantic
+};
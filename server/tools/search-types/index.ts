@@ -0,0 +1,93 @@
+import path from 'node:path';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase, getTypeNamespace } from '../../../common/paths';
+import { getSemanticIndexer } from '../../semanticIndex';
+import type { SymbolSearchResult } from '../../../storage/SymbolDB';
+import type { EntryKind } from '../../../storage/SemanticDB';
+
+type TypeSearchMatch = SymbolSearchResult & {
+  namespace: string;
+};
+
+type SemanticTypeMatch = {
+  namespace: string;
+  name: string;
+  kind: EntryKind;
+  subtype?: string;
+  description: string;
+  filePath: string;
+  relevance: number;
+};
+
+type SearchTypesResult = {
+  success: boolean;
+  message: string;
+  matches?: TypeSearchMatch[];
+};
+
+type SearchTypesSemanticResult = {
+  success: boolean;
+  message: string;
+  matches?: SemanticTypeMatch[];
+};
+
+const searchTypes = (query: string): SearchTypesResult => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+
+    // Only symbols declared under types/ are considered types
+    const typesDir = path.join(procbaseRoot, 'types');
+    const matches = analyzer.searchSymbols(query, typesDir + path.sep).map(match => ({
+      ...match,
+      namespace: getTypeNamespace(procbaseRoot, match.filePath)
+    }));
+
+    return {
+      success: true,
+      message: `Found ${matches.length} matching type symbol(s)`,
+      matches
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to search types: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+const searchTypesSemantic = async (query: string): Promise<SearchTypesSemanticResult> => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const indexer = await getSemanticIndexer(procbaseRoot);
+
+    const matches = (await indexer.search(query, { modulePrefix: 'types/' })).map(({ entry, relevance }) => {
+      const filePath = path.join(procbaseRoot, entry.moduleId);
+      return {
+        namespace: getTypeNamespace(procbaseRoot, filePath),
+        name: entry.exportName,
+        kind: entry.kind,
+        ...(entry.subtype ? { subtype: entry.subtype } : {}),
+        description: entry.description,
+        filePath,
+        relevance
+      };
+    });
+
+    return {
+      success: true,
+      message: `Found ${matches.length} semantically related type symbol(s)`,
+      matches
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to search types semantically: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const searchTypesTool = {
+  searchTypes,
+  searchTypesSemantic
+};
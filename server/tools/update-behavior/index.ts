@@ -0,0 +1,77 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getBehaviorDirPath, getCurrentProcbase } from '../../../common/paths';
+import { checkBehaviorSource } from '../add-behavior';
+import { installBehavior, runBehaviorsTool, type BehaviorRun } from '../run-behaviors';
+
+type UpdateBehaviorResult = {
+  success: boolean;
+  message: string;
+  runs?: BehaviorRun[];
+};
+
+const replaceBehavior = (sourceDir: string, behaviorDir: string) => {
+  fs.rmSync(behaviorDir, { recursive: true, force: true });
+  fs.cpSync(sourceDir, behaviorDir, { recursive: true });
+};
+
+const updateBehavior = (behaviorName: string, sourceDir: string): UpdateBehaviorResult => {
+  try {
+    const procbaseRoot = getCurrentProcbase();
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    const behavior = analyzer.getBehavior(behaviorName);
+    if (!behavior) {
+      return { success: false, message: `Behavior '${behaviorName}' does not exist. Use add instead.` };
+    }
+
+    const absoluteSource = path.resolve(sourceDir);
+    const problem = checkBehaviorSource(absoluteSource);
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    const behaviorDir = getBehaviorDirPath(procbaseRoot, behaviorName);
+    const boundInstances = analyzer.getBoundInstances(behaviorName);
+    const installAll = () => boundInstances.forEach(instanceName => installBehavior(procbaseRoot, instanceName, behaviorName));
+
+    const backupDir = fs.mkdtempSync(path.join(os.tmpdir(), `procbase-behavior-${behaviorName}-`));
+    fs.cpSync(behaviorDir, backupDir, { recursive: true });
+    try {
+      replaceBehavior(absoluteSource, behaviorDir);
+      installAll();
+
+      // Every instance already bound to the behavior has to keep passing it
+      const pairs = boundInstances.map(instanceName => ({ instanceName, behaviorName }));
+      const result = runBehaviorsTool.runBehaviors(procbaseRoot, pairs);
+      if (!result.success) {
+        replaceBehavior(backupDir, behaviorDir);
+        installAll();
+        return { success: false, message: `Update rejected: ${result.message}`, runs: result.runs };
+      }
+
+      analyzer.setBehavior({ name: behaviorName, dirPath: behaviorDir });
+      return {
+        success: true,
+        message: `Behavior '${behaviorName}' updated; ${boundInstances.length} bound instance(s) still pass`,
+        runs: result.runs
+      };
+    } catch (error) {
+      replaceBehavior(backupDir, behaviorDir);
+      installAll();
+      throw error;
+    } finally {
+      fs.rmSync(backupDir, { recursive: true, force: true });
+    }
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to update behavior: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const updateBehaviorTool = {
+  updateBehavior
+};
@@ -0,0 +1,110 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase, getInstanceDirPath } from '../../../common/paths';
+import { copyInstanceSource } from '../add-instance';
+import { checkInstanceName, verifyInstanceTool } from '../verify-instance';
+import { installBehavior, runBehaviorsTool, type BehaviorRun } from '../run-behaviors';
+import type { ValidationIssue } from '../../../types/validation/ValidationIssue';
+
+type UpdateInstanceResult = {
+  success: boolean;
+  message: string;
+  filePath?: string;
+  issues?: ValidationIssue[];
+  runs?: BehaviorRun[];
+};
+
+const restoreInstance = (backupDir: string, instanceDir: string) => {
+  fs.rmSync(instanceDir, { recursive: true, force: true });
+  fs.cpSync(backupDir, instanceDir, { recursive: true });
+};
+
+const updateInstance = async (instanceName: string, sourcePath: string): Promise<UpdateInstanceResult> => {
+  try {
+    // The name becomes a path under instances/, so check it before touching the file system
+    const nameError = checkInstanceName(instanceName);
+    if (nameError) {
+      return { success: false, message: nameError };
+    }
+
+    const procbaseRoot = getCurrentProcbase();
+    const instanceDir = getInstanceDirPath(procbaseRoot, instanceName);
+    if (!fs.existsSync(instanceDir)) {
+      return { success: false, message: `Instance '${instanceName}' does not exist at ${instanceDir}. Use add instead.` };
+    }
+
+    const absoluteSource = path.resolve(sourcePath);
+    if (!fs.existsSync(absoluteSource)) {
+      return { success: false, message: `Instance source not found: ${sourcePath}` };
+    }
+
+    const analyzer = getCodeAnalyzer(procbaseRoot);
+    const binding = analyzer.getInstanceBinding(instanceName);
+    if (!binding) {
+      return { success: false, message: `Instance '${instanceName}' has no recorded type binding.` };
+    }
+
+    const boundBehaviors = analyzer.getBoundBehaviors(instanceName);
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), `procbase-${instanceName}-`));
+    const backupDir = path.join(workDir, 'backup');
+    const stagedDir = path.join(workDir, 'staged');
+    fs.cpSync(instanceDir, backupDir, { recursive: true });
+    // Stage the source first: it may live inside the instance folder that is about to be replaced
+    copyInstanceSource(absoluteSource, stagedDir);
+    try {
+      fs.rmSync(instanceDir, { recursive: true, force: true });
+      fs.cpSync(stagedDir, instanceDir, { recursive: true });
+
+      // Tests travel with the instance unless the update brings its own
+      const backupTests = path.join(backupDir, '__tests__');
+      const instanceTests = path.join(instanceDir, '__tests__');
+      if (fs.existsSync(backupTests) && !fs.existsSync(instanceTests)) {
+        fs.cpSync(backupTests, instanceTests, { recursive: true });
+      }
+      // Bound behaviors always come from their canonical suites
+      boundBehaviors.forEach(behaviorName => installBehavior(procbaseRoot, instanceName, behaviorName));
+
+      const verification = verifyInstanceTool.verifyInstance(instanceDir, binding.typeNamespace);
+      if (!verification.success) {
+        restoreInstance(backupDir, instanceDir);
+        return { ...verification, message: `Update rejected: ${verification.message}` };
+      }
+
+      const pairs = boundBehaviors.map(behaviorName => ({ instanceName, behaviorName }));
+      const behaviorResult = runBehaviorsTool.runBehaviors(procbaseRoot, pairs);
+      if (!behaviorResult.success) {
+        restoreInstance(backupDir, instanceDir);
+        return { success: false, message: `Update rejected: ${behaviorResult.message}`, runs: behaviorResult.runs };
+      }
+    } catch (error) {
+      restoreInstance(backupDir, instanceDir);
+      throw error;
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+
+    const indexFile = path.join(instanceDir, 'index.ts');
+    const analysis = await analyzer.analyzeFile(indexFile);
+    if (!analysis.success) {
+      console.warn(`Warning: Failed to analyze symbols for ${indexFile}: ${analysis.message}`);
+    }
+    analyzer.setInstanceBinding({ ...binding, filePath: indexFile });
+
+    return {
+      success: true,
+      message: `Instance '${instanceName}' updated; binding to '${binding.typeNamespace}' and ${boundBehaviors.length} behavior(s) still hold`,
+      filePath: indexFile
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to update instance: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const updateInstanceTool = {
+  updateInstance
+};
@@ -1,17 +1,15 @@
 import fs from 'node:fs';
-import path from 'node:path';
-import { createCodeAnalyzer } from '../../codeAnalyzer';
-import { getCurrentProcbase } from '../../../common/paths';
+import { getCodeAnalyzer } from '../../codeAnalyzer';
+import { getCurrentProcbase, getTypeFilePath } from '../../../common/paths';
+import validateTypeFile from '../../../functions/validateTypeFile';
+import type { ValidationIssue } from '../../../types/validation/ValidationIssue';
 
-const updateType = (code: string, namespace: string): { success: boolean; message: string; filePath?: string } => {
+const updateType = async (code: string, namespace: string): Promise<{ success: boolean; message: string; filePath?: string; issues?: ValidationIssue[] }> => {
   try {
     // Resolve procbase root
     const procbaseRoot = getCurrentProcbase();
     // Convert dot-separated namespace to file path
-    const namespaceParts = namespace.split('.');
-    const fileName = namespaceParts.pop() + '.ts';
-    const directoryPath = path.join(procbaseRoot, 'types', ...namespaceParts);
-    const fullPath = path.join(directoryPath, fileName);
+    const fullPath = getTypeFilePath(procbaseRoot, namespace);
     
     // Check if file exists
     if (!fs.existsSync(fullPath)) {
@@ -21,21 +19,31 @@ const updateType = (code: string, namespace: string): { success: boolean; messag
       };
     }
     
+    // Reject code that breaks the procbase rules for types
+    const issues = validateTypeFile(fullPath, code);
+    if (issues.length > 0) {
+      return {
+        success: false,
+        message: `Type '${namespace}' violates procbase rules (${issues.length} issue(s)).`,
+        issues
+      };
+    }
+    
     // Write the code to the file
     fs.writeFileSync(fullPath, code, 'utf8');
     
     // Analyze the updated code and store symbols in database
-    const dbPath = path.join(procbaseRoot, 'symbols.sqlite');
-    const analyzer = createCodeAnalyzer(dbPath);
+    const analyzer = getCodeAnalyzer(procbaseRoot);
     
     // Analyze the updated file
-    analyzer.analyzeFile(fullPath).then(result => {
-      if (!result.success) {
-        console.warn(`Warning: Failed to analyze symbols for ${fullPath}: ${result.message}`);
-      }
-    }).catch(error => {
-      console.warn(`Warning: Error analyzing symbols for ${fullPath}: ${error}`);
-    });
+    const analysis = await analyzer.analyzeFile(fullPath);
+    if (!analysis.success) {
+      return {
+        success: false,
+        message: `Type file written to ${fullPath}, but indexing its symbols failed: ${analysis.message}`,
+        filePath: fullPath
+      };
+    }
     
     return {
       success: true,
@@ -0,0 +1,118 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+import { getProcbaseAnalysisContext } from '../../analysisContext';
+import { listProcbaseSourceFiles } from '../../analysisSession';
+import { checkFolderName, getCurrentProcbase, getTypeFilePath, isInstanceTestPath } from '../../../common/paths';
+import checkInstanceBinding from '../../../functions/checkInstanceBinding';
+import createValidationIssue from '../../../functions/validateTypeFile/createValidationIssue';
+import type { ValidationIssue } from '../../../types/validation/ValidationIssue';
+
+type VerifyInstanceResult = {
+  success: boolean;
+  message: string;
+  issues?: ValidationIssue[];
+};
+
+/**
+ * Check that an instance name is safe to use as a folder under `instances/`
+ */
+export const checkInstanceName = (instanceName: string): string | null => {
+  return checkFolderName('instance', instanceName);
+};
+
+/**
+ * Split a bound type reference such as `Geo.Vec` into its type file namespace and exported type name
+ */
+export const parseTypeReference = (typeReference: string): { typeNamespace: string; typeName: string } => {
+  const typeName = typeReference.split('.').pop() ?? typeReference;
+  return { typeNamespace: typeReference, typeName };
+};
+
+const toIssue = (diagnostic: ts.Diagnostic): ValidationIssue => {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  if (diagnostic.file) {
+    return createValidationIssue('compile', message, diagnostic.file, diagnostic.start ?? 0);
+  }
+  return { rule: 'compile', message, fileName: '', line: 0, column: 0 };
+};
+
+const checkLayout = (instanceDir: string): string | null => {
+  const instanceName = path.basename(instanceDir);
+  const nameError = checkInstanceName(instanceName);
+  if (nameError) {
+    return nameError;
+  }
+  if (!fs.existsSync(path.join(instanceDir, 'index.ts'))) {
+    return `Instance '${instanceName}' must have an index.ts entry point.`;
+  }
+  return null;
+};
+
+/**
+ * Verify an instance folder in place: layout, compile errors, and its binding to a type
+ */
+const verifyInstance = (instanceDir: string, typeReference: string): VerifyInstanceResult => {
+  try {
+    const layoutError = checkLayout(instanceDir);
+    if (layoutError) {
+      return { success: false, message: layoutError };
+    }
+
+    const procbaseRoot = getCurrentProcbase();
+    const { typeNamespace, typeName } = parseTypeReference(typeReference);
+    const typeFile = getTypeFilePath(procbaseRoot, typeNamespace);
+    if (!fs.existsSync(typeFile)) {
+      return { success: false, message: `Bound type '${typeReference}' does not exist at ${typeFile}.` };
+    }
+
+    // Check against the shared program, bringing every file of the instance up to date first
+    const context = getProcbaseAnalysisContext(procbaseRoot);
+    const indexFile = path.join(instanceDir, 'index.ts');
+    const isInstanceSource = (fileName: string) => {
+      return fileName.startsWith(instanceDir + path.sep) && !isInstanceTestPath(procbaseRoot, fileName);
+    };
+    [...listProcbaseSourceFiles(procbaseRoot, instanceDir), typeFile].forEach(fileName => context.getSourceFile(fileName));
+    const program = context.session.getProgram();
+
+    // Only report compile errors from the instance's own sources; installed behavior suites are run, not checked here
+    const compileIssues = program.getSourceFiles()
+      .filter(sourceFile => isInstanceSource(sourceFile.fileName))
+      .flatMap(sourceFile => [
+        ...program.getSyntacticDiagnostics(sourceFile),
+        ...program.getSemanticDiagnostics(sourceFile)
+      ])
+      .filter(d => d.category === ts.DiagnosticCategory.Error)
+      .map(toIssue);
+    if (compileIssues.length > 0) {
+      return {
+        success: false,
+        message: `Instance '${path.basename(instanceDir)}' has ${compileIssues.length} compile error(s).`,
+        issues: compileIssues
+      };
+    }
+
+    const bindingIssues = checkInstanceBinding(program, indexFile, typeFile, typeName);
+    if (bindingIssues.length > 0) {
+      return {
+        success: false,
+        message: `Instance '${path.basename(instanceDir)}' does not satisfy its bound type '${typeReference}'.`,
+        issues: bindingIssues
+      };
+    }
+
+    return {
+      success: true,
+      message: `Instance '${path.basename(instanceDir)}' satisfies its bound type '${typeReference}'`
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to verify instance: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const verifyInstanceTool = {
+  verifyInstance
+};
@@ -0,0 +1,32 @@
+import type { EmbeddingConfig } from '../common/config';
+import { makeHashedEmbeddingProvider } from './HashedEmbeddingProvider';
+import { makeHttpEmbeddingProvider } from './HttpEmbeddingProvider';
+
+export type EmbeddingProvider = {
+  // Identifies the provider and model; vectors from different ids are not comparable
+  id: string;
+  embed(texts: string[]): Promise<Float32Array[]>;
+};
+
+export const makeEmbeddingProvider = (config: EmbeddingConfig): EmbeddingProvider => {
+  switch (config.provider) {
+    case 'hashed':
+      return makeHashedEmbeddingProvider({ dimensions: config.dimensions });
+    case 'http':
+      return makeHttpEmbeddingProvider(config);
+  }
+};
+
+/**
+ * Adapt a provider to the `embedEntries` callback of `makeSemanticDB`, embedding all entries in one call
+ */
+export const makeEmbedEntries = <Entry>(
+  provider: EmbeddingProvider,
+  describeEntry: (entry: Entry) => string
+) => async (entries: Entry[]): Promise<Float32Array[]> => {
+  const embeddings = await provider.embed(entries.map(describeEntry));
+  if (embeddings.length !== entries.length) {
+    throw new Error(`Embedding provider '${provider.id}' returned ${embeddings.length} embedding(s) for ${entries.length} entries`);
+  }
+  return embeddings;
+};
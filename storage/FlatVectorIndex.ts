@@ -0,0 +1,186 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { SemanticIndex, SemanticSearchQuery, SemanticSearchResult } from './SemanticDB';
+
+// File layout: magic, version, dimensions, count, then per vector a
+// length-prefixed UTF-8 key followed by its normalized components
+const MAGIC = 0x49564250; // 'PBVI'
+const VERSION = 1;
+const HEADER_BYTES = 16;
+
+type StoredVector = {
+  key: string;
+  vector: Float32Array;
+};
+
+const normalize = (embedding: Float32Array): Float32Array => {
+  let sumOfSquares = 0;
+  for (let i = 0; i < embedding.length; i++) {
+    sumOfSquares += embedding[i]! * embedding[i]!;
+  }
+  const norm = Math.sqrt(sumOfSquares);
+  const normalized = new Float32Array(embedding.length);
+  if (norm > 0) {
+    for (let i = 0; i < embedding.length; i++) {
+      normalized[i] = embedding[i]! / norm;
+    }
+  }
+  return normalized;
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * b[i]!;
+  }
+  return sum;
+};
+
+const encode = (dimensions: number, vectors: StoredVector[]): Buffer => {
+  const keys = vectors.map(({ key }) => Buffer.from(key, 'utf8'));
+  const size = HEADER_BYTES + keys.reduce((total, key) => total + 4 + key.length + dimensions * 4, 0);
+  const buffer = Buffer.alloc(size);
+
+  buffer.writeUInt32LE(MAGIC, 0);
+  buffer.writeUInt32LE(VERSION, 4);
+  buffer.writeUInt32LE(dimensions, 8);
+  buffer.writeUInt32LE(vectors.length, 12);
+
+  let offset = HEADER_BYTES;
+  vectors.forEach(({ vector }, i) => {
+    const key = keys[i]!;
+    buffer.writeUInt32LE(key.length, offset);
+    key.copy(buffer, offset + 4);
+    offset += 4 + key.length;
+    vector.forEach(value => {
+      buffer.writeFloatLE(value, offset);
+      offset += 4;
+    });
+  });
+
+  return buffer;
+};
+
+const decode = (buffer: Buffer, filePath: string): { dimensions: number; vectors: StoredVector[] } => {
+  if (buffer.length < HEADER_BYTES || buffer.readUInt32LE(0) !== MAGIC) {
+    throw new Error(`Not a vector index file: ${filePath}`);
+  }
+  const version = buffer.readUInt32LE(4);
+  if (version !== VERSION) {
+    throw new Error(`Unsupported vector index version ${version} in ${filePath}`);
+  }
+
+  const dimensions = buffer.readUInt32LE(8);
+  const count = buffer.readUInt32LE(12);
+  const vectors: StoredVector[] = [];
+
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < count; i++) {
+    const keyLength = buffer.readUInt32LE(offset);
+    const key = buffer.toString('utf8', offset + 4, offset + 4 + keyLength);
+    offset += 4 + keyLength;
+    const vector = new Float32Array(dimensions);
+    for (let d = 0; d < dimensions; d++) {
+      vector[d] = buffer.readFloatLE(offset);
+      offset += 4;
+    }
+    vectors.push({ key, vector });
+  }
+
+  return { dimensions, vectors };
+};
+
+/**
+ * Create an exact (flat) cosine-similarity index persisted to a single file.
+ * Vectors are kept normalized in memory, so a search is one dot product per
+ * entry; that is plenty for the few thousand symbols a procbase holds.
+ * Mutations stay in memory until `flush`, so a batch costs one file write.
+ */
+export const makeFlatVectorIndex = async (filePath: string): Promise<SemanticIndex<Float32Array>> => {
+  const vectors = new Map<string, Float32Array>();
+  let dimensions = 0;
+
+  if (fs.existsSync(filePath)) {
+    const stored = decode(await fs.promises.readFile(filePath), filePath);
+    dimensions = stored.dimensions;
+    stored.vectors.forEach(({ key, vector }) => vectors.set(key, vector));
+  }
+
+  let dirty = false;
+  // Writes are chained so concurrent flushes never interleave on disk
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (!dirty) {
+      return pendingWrite.catch(() => undefined);
+    }
+    dirty = false;
+    const snapshot = encode(dimensions, Array.from(vectors, ([key, vector]) => ({ key, vector })));
+    // A failed write must not stop later ones, so each starts from a settled chain
+    const write = pendingWrite.catch(() => undefined).then(async () => {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, snapshot);
+      await fs.promises.rename(tempPath, filePath);
+    });
+    pendingWrite = write;
+    return write.catch(error => {
+      dirty = true;
+      throw error;
+    });
+  };
+
+  const set = async (embedding: Float32Array, key: string): Promise<void> => {
+    if (vectors.size === 0) {
+      dimensions = embedding.length;
+    } else if (embedding.length !== dimensions) {
+      throw new Error(`Embedding for '${key}' has ${embedding.length} dimensions, index expects ${dimensions}`);
+    }
+    vectors.set(key, normalize(embedding));
+    dirty = true;
+  };
+
+  const del = async (key: string): Promise<void> => {
+    if (vectors.delete(key)) {
+      dirty = true;
+    }
+  };
+
+  const keys = async (): Promise<string[]> => {
+    return Array.from(vectors.keys());
+  };
+
+  const search = async ({
+    embedding,
+    maxResults,
+    minRelevance = 0
+  }: SemanticSearchQuery<Float32Array>): Promise<SemanticSearchResult[]> => {
+    if (vectors.size === 0) {
+      return [];
+    }
+    if (embedding.length !== dimensions) {
+      throw new Error(`Query embedding has ${embedding.length} dimensions, index expects ${dimensions}`);
+    }
+
+    const query = normalize(embedding);
+    const results: SemanticSearchResult[] = [];
+    vectors.forEach((vector, key) => {
+      // Opposite directions are as irrelevant as orthogonal ones
+      const relevance = Math.min(1, Math.max(0, dot(query, vector)));
+      if (relevance > 0 && relevance >= minRelevance) {
+        results.push({ key, relevance });
+      }
+    });
+
+    results.sort((a, b) => b.relevance - a.relevance || a.key.localeCompare(b.key));
+    return maxResults === undefined ? results : results.slice(0, maxResults);
+  };
+
+  return {
+    search,
+    set,
+    del,
+    keys,
+    flush
+  };
+};
@@ -0,0 +1,72 @@
+import type { EmbeddingProvider } from './EmbeddingProvider';
+
+const DEFAULT_DIMENSIONS = 512;
+// Character trigrams let related spellings (vector/vectors, parse/parser) overlap
+const TRIGRAM_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'to', 'in', 'for', 'is', 'on', 'or', 'with', 'by', 'as', 'at']);
+
+// 32-bit FNV-1a
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Split identifiers, doc comments and type strings into lowercase words,
+ * breaking camelCase, PascalCase, snake_case and dotted names apart
+ */
+export const tokenize = (text: string): string[] => {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token));
+};
+
+/**
+ * Deterministic offline embeddings: a signed, hashed bag of words and
+ * character trigrams with sublinear term frequency. Needs no model or network.
+ */
+export const makeHashedEmbeddingProvider = (
+  { dimensions = DEFAULT_DIMENSIONS }: { dimensions?: number } = {}
+): EmbeddingProvider => {
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`Hashed embeddings need a positive integer number of dimensions, got ${dimensions}`);
+  }
+
+  const addFeature = (vector: Float32Array, feature: string, weight: number) => {
+    const h = hash(feature);
+    // The sign bit keeps collisions from systematically inflating similarity
+    vector[h % dimensions]! += (h & 0x80000000 ? -1 : 1) * weight;
+  };
+
+  const embedText = (text: string): Float32Array => {
+    const counts = new Map<string, number>();
+    tokenize(text).forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+
+    const vector = new Float32Array(dimensions);
+    counts.forEach((count, token) => {
+      const weight = 1 + Math.log(count);
+      addFeature(vector, `w:${token}`, weight);
+      const padded = `^${token}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(vector, `t:${padded.slice(i, i + 3)}`, weight * TRIGRAM_WEIGHT);
+      }
+    });
+    // Unit length, so scores do not depend on how long the text was; empty text stays zero
+    // Spreading a large vector into Math.hypot overflows the call stack
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  };
+
+  return {
+    id: `hashed-${dimensions}`,
+    embed: async (texts: string[]) => texts.map(embedText)
+  };
+};
@@ -0,0 +1,77 @@
+import type { EmbeddingProvider } from './EmbeddingProvider';
+
+const DEFAULT_BATCH_SIZE = 64;
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+type HttpEmbeddingOptions = {
+  url: string;
+  model: string;
+  apiKeyEnv?: string;
+  batchSize?: number;
+  timeoutMs?: number;
+};
+
+type EmbeddingsResponse = {
+  data: { embedding: number[]; index: number }[];
+};
+
+/**
+ * Embeddings from an OpenAI-compatible `/embeddings` endpoint, such as a
+ * local Ollama, llama.cpp or LM Studio server
+ */
+export const makeHttpEmbeddingProvider = ({
+  url,
+  model,
+  apiKeyEnv,
+  batchSize = DEFAULT_BATCH_SIZE,
+  timeoutMs = DEFAULT_TIMEOUT_MS
+}: HttpEmbeddingOptions): EmbeddingProvider => {
+  const embedBatch = async (input: string[]): Promise<Float32Array[]> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const apiKey = apiKeyEnv ? process.env[apiKeyEnv] : undefined;
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model, input }),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`Embedding request to ${url} timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    }
+    if (!response.ok) {
+      throw new Error(`Embedding request to ${url} failed: ${response.status} ${await response.text()}`);
+    }
+
+    const body = await response.json() as EmbeddingsResponse;
+    if (!Array.isArray(body.data) || body.data.length !== input.length) {
+      throw new Error(`Embedding response from ${url} has ${body.data?.length ?? 0} embeddings for ${input.length} inputs`);
+    }
+
+    // The API allows results in any order; `index` ties them back to the inputs
+    return [...body.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => Float32Array.from(item.embedding));
+  };
+
+  const embed = async (texts: string[]): Promise<Float32Array[]> => {
+    const embeddings: Float32Array[] = [];
+    for (let start = 0; start < texts.length; start += batchSize) {
+      embeddings.push(...await embedBatch(texts.slice(start, start + batchSize)));
+    }
+    return embeddings;
+  };
+
+  return {
+    id: `http-${model}`,
+    embed
+  };
+};
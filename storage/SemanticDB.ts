@@ -13,36 +13,57 @@ export type SemanticIndex<Embedding> = {
   search(query: SemanticSearchQuery<Embedding>): Promise<SemanticSearchResult[]>;
   set(embedding: Embedding, key: string): Promise<void>;
   del(value: string): Promise<void>;
+  keys(): Promise<string[]>; // 索引中所有向量的键
+  flush(): Promise<void>; // 持久化尚未写入的修改
 };
 
 export type EntryStore<Entry> = {
   set(key: string, entry: Entry): Promise<void>;
   get(key: string): Promise<Entry | null>;
   del(key: string): Promise<void>;
+  keys(): Promise<string[]>; // 存储中所有条目的键
+  close(): Promise<void>; // 释放底层存储
 };
 
 export type SemanticDB<Embedding, Entry extends Record<string, any>> = {
   setEntry(key: string, entry: Entry): Promise<void>;
+  setEntries(entries: [string, Entry][]): Promise<void>; // 一次嵌入所有条目
   getEntry(key: string): Promise<Entry | null>;
   delEntry(key: string): Promise<void>;
   search(query: SemanticSearchQuery<Embedding>): Promise<SemanticSearchResult[]>;
+  indexedKeys(): Promise<string[]>;
+  flush(): Promise<void>;
+  close(): Promise<void>;
 };
 
 export const makeSemanticDB = async <Embedding, Entry extends Record<string, any>>({
   makeSemanticIndex,
   makeEntryStore,
-  embedEntry,
+  embedEntries,
 }:{
   makeSemanticIndex: () => Promise<SemanticIndex<Embedding>>,
   makeEntryStore: () => Promise<EntryStore<Entry>>,
-  embedEntry: (entry: Entry) => Promise<Embedding>,
+  embedEntries: (entries: Entry[]) => Promise<Embedding[]>,
 }): Promise<SemanticDB<Embedding, Entry>> => {
   const index = await makeSemanticIndex();
   const entryStore = await makeEntryStore();
 
+  const setEntries = async (entries: [string, Entry][]): Promise<void> => {
+    if (entries.length === 0) {
+      return;
+    }
+    const embeddings = await embedEntries(entries.map(([, entry]) => entry));
+    if (embeddings.length !== entries.length) {
+      throw new Error(`Expected ${entries.length} embedding(s), got ${embeddings.length}`);
+    }
+    for (const [i, [key, entry]] of entries.entries()) {
+      await entryStore.set(key, entry);
+      await index.set(embeddings[i]!, key);
+    }
+  };
+
   const setEntry = async (key: string, entry: Entry): Promise<void> => {
-    await entryStore.set(key, entry);
-    await index.set(await embedEntry(entry), key);
+    await setEntries([[key, entry]]);
   };
 
   const getEntry = async (key: string): Promise<Entry | null> => {
@@ -57,18 +78,37 @@ export const makeSemanticDB = async <Embedding, Entry extends Record<string, any
     return await index.search(query);
   };
 
+  const indexedKeys = async (): Promise<string[]> => {
+    return await index.keys();
+  };
+
+  const flush = async (): Promise<void> => {
+    await index.flush();
+  };
+
+  const close = async (): Promise<void> => {
+    await index.flush();
+    await entryStore.close();
+  };
+
   return {
     setEntry,
+    setEntries,
     getEntry,
     delEntry,
     search,
+    indexedKeys,
+    flush,
+    close,
   };
 };
 
-// export type Entry = {
-//   decription: string;
-//   type: 'type' | 'value' | 'function' | 'class' | 'interface' | 'enum';
-//   subtype?: string; // 可选的子类型，用于更细粒度的分类
-//   exportName: string;
-//   moduleId: string;
-// };
+export type EntryKind = 'type' | 'value' | 'function' | 'class' | 'interface' | 'enum' | 'behavior';
+
+export type Entry = {
+  description: string;
+  kind: EntryKind;
+  subtype?: string; // 可选的子类型，用于更细粒度的分类
+  exportName: string;
+  moduleId: string;
+};
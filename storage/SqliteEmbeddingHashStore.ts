@@ -0,0 +1,73 @@
+import { Database } from 'bun:sqlite';
+
+export type EmbeddingHashStore = {
+  // Content hash each key had when it was last embedded into the index
+  getAll(): Map<string, string | null>;
+  setAll(hashes: Iterable<[key: string, contentHash: string | null]>): void;
+  delete(key: string): void;
+  close(): void;
+};
+
+type EmbeddingHashRow = {
+  key: string;
+  content_hash: string | null;
+};
+
+/**
+ * Create the record of what went into one vector index, kept in the procbase's
+ * symbols.sqlite. Comparing it with the symbols table shows which vectors are
+ * missing or stale, e.g. after switching embedding providers.
+ */
+export const makeSqliteEmbeddingHashStore = (dbPath: string, indexName: string): EmbeddingHashStore => {
+  const db = new Database(dbPath);
+  // SymbolDB holds its own connection to the same file, so wait for its writes
+  db.run('PRAGMA busy_timeout = 5000');
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS semantic_embeddings (
+      index_name TEXT NOT NULL,
+      key TEXT NOT NULL,
+      content_hash TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY(index_name, key)
+    )
+  `);
+
+  const getAllStatement = db.prepare('SELECT key, content_hash FROM semantic_embeddings WHERE index_name = ?');
+  const setStatement = db.prepare(`
+    INSERT INTO semantic_embeddings (index_name, key, content_hash)
+    VALUES (?, ?, ?)
+    ON CONFLICT(index_name, key) DO UPDATE SET
+      content_hash = excluded.content_hash,
+      updated_at = CURRENT_TIMESTAMP
+  `);
+  const deleteStatement = db.prepare('DELETE FROM semantic_embeddings WHERE index_name = ? AND key = ?');
+
+  const getAll = (): Map<string, string | null> => {
+    const rows = getAllStatement.all(indexName) as EmbeddingHashRow[];
+    return new Map(rows.map(row => [row.key, row.content_hash]));
+  };
+
+  const setAll = (hashes: Iterable<[string, string | null]>) => {
+    db.transaction(() => {
+      for (const [key, contentHash] of hashes) {
+        setStatement.run(indexName, key, contentHash);
+      }
+    })();
+  };
+
+  const remove = (key: string) => {
+    deleteStatement.run(indexName, key);
+  };
+
+  const close = () => {
+    db.close();
+  };
+
+  return {
+    getAll,
+    setAll,
+    delete: remove,
+    close
+  };
+};
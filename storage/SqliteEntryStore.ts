@@ -0,0 +1,88 @@
+import { Database } from 'bun:sqlite';
+import type { Entry, EntryKind, EntryStore } from './SemanticDB';
+
+type EntryRow = {
+  key: string;
+  description: string;
+  kind: EntryKind;
+  subtype: string | null;
+  export_name: string;
+  module_id: string;
+};
+
+/**
+ * Create an entry store in the procbase's symbols.sqlite. Keys are fully
+ * qualified symbol ids, so semantic search results can be shown without
+ * reparsing the source they came from.
+ */
+export const makeSqliteEntryStore = async (dbPath: string): Promise<EntryStore<Entry>> => {
+  const db = new Database(dbPath);
+  // SymbolDB holds its own connection to the same file, so wait for its writes
+  db.run('PRAGMA busy_timeout = 5000');
+
+  db.run(`
+    CREATE TABLE IF NOT EXISTS semantic_entries (
+      key TEXT PRIMARY KEY,
+      description TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      subtype TEXT,
+      export_name TEXT NOT NULL,
+      module_id TEXT NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  db.run('CREATE INDEX IF NOT EXISTS idx_semantic_entries_module ON semantic_entries(module_id)');
+
+  const setStatement = db.prepare(`
+    INSERT INTO semantic_entries (key, description, kind, subtype, export_name, module_id)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET
+      description = excluded.description,
+      kind = excluded.kind,
+      subtype = excluded.subtype,
+      export_name = excluded.export_name,
+      module_id = excluded.module_id,
+      updated_at = CURRENT_TIMESTAMP
+  `);
+  const getStatement = db.prepare('SELECT * FROM semantic_entries WHERE key = ?');
+  const delStatement = db.prepare('DELETE FROM semantic_entries WHERE key = ?');
+  const keysStatement = db.prepare('SELECT key FROM semantic_entries ORDER BY key');
+
+  const set = async (key: string, entry: Entry): Promise<void> => {
+    setStatement.run(key, entry.description, entry.kind, entry.subtype ?? null, entry.exportName, entry.moduleId);
+  };
+
+  const get = async (key: string): Promise<Entry | null> => {
+    const row = getStatement.get(key) as EntryRow | null;
+    if (!row) {
+      return null;
+    }
+    return {
+      description: row.description,
+      kind: row.kind,
+      ...(row.subtype !== null ? { subtype: row.subtype } : {}),
+      exportName: row.export_name,
+      moduleId: row.module_id
+    };
+  };
+
+  const del = async (key: string): Promise<void> => {
+    delStatement.run(key);
+  };
+
+  const keys = async (): Promise<string[]> => {
+    return (keysStatement.all() as { key: string }[]).map(row => row.key);
+  };
+
+  const close = async (): Promise<void> => {
+    db.close();
+  };
+
+  return {
+    set,
+    get,
+    del,
+    keys,
+    close
+  };
+};
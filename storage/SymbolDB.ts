@@ -1,47 +1,376 @@
 import { Database } from 'bun:sqlite';
+import { createHash } from 'node:crypto';
+import fs from 'node:fs';
 import path from 'node:path';
+import ts from 'typescript';
+import { getSemanticIndexPath } from '../common/paths';
+import getDeclarationKind from '../functions/extractSymbols/getDeclarationKind';
+import getModulePath from '../functions/extractSymbols/getModulePath';
+import formatSymbolId from '../functions/extractSymbols/formatSymbolId';
+import parseSymbolId from '../functions/extractSymbols/parseSymbolId';
 import type { ExtractedSymbols } from '../types/project/ExtractedSymbols';
 import type { SymbolInfo } from '../types/project/SymbolInfo';
+import type { SymbolRecord } from '../types/project/SymbolRecord';
+import type { StoredFileSymbols } from '../types/project/StoredFileSymbols';
 import type { ImportInfo } from '../types/project/ImportInfo';
+import type { SourceLocation } from '../types/project/SourceLocation';
+import type { DependencyKind } from '../types/project/DependencyKind';
+
+export type SymbolSearchResult = {
+  id: string;
+  name: string;
+  declarationKind: string;
+  filePath: string;
+  symbolType: string;
+  documentation: string | null;
+  isExported: boolean;
+  sourceLocation: SourceLocation;
+};
+
+export type InstanceBinding = {
+  instanceName: string;
+  typeNamespace: string;
+  typeName: string;
+  filePath: string;
+};
+
+export type Behavior = {
+  name: string;
+  dirPath: string;
+};
+
+export type SymbolChange = {
+  id: string;
+  name: string;
+  filePath: string;
+  isExported: boolean;
+  // ts.SymbolFlags of the new declaration, or of the stored one for removed symbols
+  kind: number;
+  symbolType: string;
+  documentation: string | null;
+  contentHash: string | null;
+};
+
+export type SymbolChangeSet = {
+  filePath: string;
+  added: SymbolChange[];
+  removed: SymbolChange[];
+  changed: SymbolChange[];
+};
+
+export type SymbolCandidate = {
+  id: string;
+  name: string;
+  filePath: string;
+  declarationKind: string;
+  isExported: boolean;
+};
+
+export type HeritageRelation = 'extends' | 'implements';
+
+export type SymbolSubtype = {
+  id: string;
+  relation: HeritageRelation;
+};
+
+// Bare names may match symbols in several modules; callers get the candidates back
+export type SymbolQueryResult<T> =
+  | { status: 'found'; symbol: SymbolCandidate; result: T }
+  | { status: 'ambiguous'; candidates: SymbolCandidate[] }
+  | { status: 'not-found'; reference: string };
+
+export type DependencyGraphOptions = {
+  // Skip edges that only exist in type positions (type, typeof, implements)
+  runtimeOnly?: boolean;
+};
+
+export type ClosureOptions = DependencyGraphOptions & {
+  // Number of edges to follow from the starting symbol; unlimited by default
+  maxDepth?: number;
+};
+
+// A symbol reached from the starting one, at the length of the shortest path to it
+export type ReachedSymbol = {
+  id: string;
+  depth: number;
+};
+
+export type SymbolPath = {
+  target: SymbolCandidate;
+  // Symbol ids from the source to the target, both included; null when unreachable
+  path: string[] | null;
+};
+
+export type SymbolChangeListener = (changes: SymbolChangeSet) => void;
 
 export type SymbolDB = {
   initialize(): void;
-  addSymbols(filePath: string, symbols: ExtractedSymbols): void;
-  getSymbols(filePath: string): ExtractedSymbols | null;
-  getAllSymbols(): SymbolInfo[];
-  getDependencies(symbolName: string): string[];
-  getDependents(symbolName: string): string[];
+  addSymbols(filePath: string, symbols: ExtractedSymbols): SymbolChangeSet;
+  removeFile(filePath: string): SymbolChangeSet;
+  getIndexedFiles(filePathPrefix?: string): string[];
+  onSymbolsChanged(listener: SymbolChangeListener): () => void;
+  getSymbols(filePath: string): StoredFileSymbols | null;
+  getAllSymbols(): SymbolRecord[];
+  getSymbolChanges(): SymbolChange[];
+  searchSymbols(query: string, filePathPrefix?: string): SymbolSearchResult[];
+  setInstanceBinding(binding: InstanceBinding): void;
+  getInstanceBinding(instanceName: string): InstanceBinding | null;
+  getInstanceBindings(): InstanceBinding[];
+  setBehavior(behavior: Behavior): void;
+  getBehavior(name: string): Behavior | null;
+  getBehaviors(): Behavior[];
+  deleteBehavior(name: string): void;
+  bindBehavior(instanceName: string, behaviorName: string): void;
+  unbindBehavior(instanceName: string, behaviorName: string): void;
+  getBoundBehaviors(instanceName: string): string[];
+  getBoundInstances(behaviorName: string): string[];
+  lookupSymbol(reference: string): SymbolQueryResult<SymbolCandidate>;
+  getDependencies(reference: string): SymbolQueryResult<string[]>;
+  getDependents(reference: string): SymbolQueryResult<string[]>;
+  getClosure(reference: string, options?: ClosureOptions): SymbolQueryResult<ReachedSymbol[]>;
+  getReverseClosure(reference: string, options?: ClosureOptions): SymbolQueryResult<ReachedSymbol[]>;
+  getShortestPath(from: string, to: string, options?: DependencyGraphOptions): SymbolQueryResult<SymbolPath>;
+  getStronglyConnectedComponents(options?: DependencyGraphOptions): string[][];
+  getSubtypes(reference: string): SymbolQueryResult<SymbolSubtype[]>;
   close(): void;
 };
 
+// Bump when the derived tables change shape; they are rebuilt by reanalysing
+const SCHEMA_VERSION = 9;
+
+// Rows as stored; SQLite hands booleans back as 0/1 and JSON columns as text
+
+type SymbolRow = {
+  id: string;
+  name: string;
+  module_path: string;
+  declaration_kind: string;
+  file_path: string;
+  export_type: 'export' | 'internal';
+  kind: number;
+  symbol_type: string;
+  signature: string;
+  source_location: string | null;
+  documentation: string | null;
+  is_exported: number;
+  export_names: string;
+  alias_of: string | null;
+  member_of: string | null;
+  augments: string | null;
+  content_hash: string | null;
+};
+
+type DependencyRow = {
+  dependent_id: string;
+  dependency_ref: string;
+  dependency_name: string;
+  dependency_id: string | null;
+  kinds: string | null;
+  file_path: string;
+};
+
+type HeritageRow = {
+  symbol_id: string;
+  relation: HeritageRelation;
+  base_ref: string;
+  base_name: string;
+  base_id: string | null;
+  file_path: string;
+};
+
+type ImportRow = {
+  file_path: string;
+  name: string;
+  from_module: string;
+  specifier: string;
+  resolved_file: string | null;
+  package_name: string | null;
+  is_default: number;
+  original_name: string | null;
+  is_type_only: number;
+};
+
+type InstanceBindingRow = {
+  instance_name: string;
+  type_namespace: string;
+  type_name: string;
+  file_path: string;
+};
+
+type BehaviorRow = {
+  name: string;
+  dir_path: string;
+};
+
+type ResolvedEdgeRow = {
+  dependent_id: string;
+  dependency_id: string;
+};
+
+// Hash the declaration text so re-analysing an untouched symbol is not a change
+const getContentHash = (symbol: SymbolInfo): string => {
+  const text = symbol.declaration ? symbol.declaration.getText() : '';
+  return createHash('sha1').update(`${text}\0${symbol.type}\0${symbol.documentation ?? ''}`).digest('hex');
+};
+
+// Where the part of a declaration that is left out of its signature begins
+const getBodyStart = (declaration: ts.Node): number | undefined => {
+  if (ts.isVariableDeclaration(declaration) && declaration.initializer && ts.isFunctionLike(declaration.initializer)) {
+    return getBodyStart(declaration.initializer);
+  }
+  if (ts.isFunctionLike(declaration) && 'body' in declaration && declaration.body) {
+    return declaration.body.getStart();
+  }
+  if (ts.isClassLike(declaration) || ts.isInterfaceDeclaration(declaration) || ts.isEnumDeclaration(declaration)) {
+    // The member list starts right after the opening brace
+    return declaration.members.pos - 1;
+  }
+  if (ts.isModuleDeclaration(declaration) && declaration.body) {
+    return declaration.body.getStart();
+  }
+  return undefined;
+};
+
+// The declaration text without function bodies or member lists, e.g. `class Cart extends Base`
+const getSignature = (symbol: SymbolInfo): string => {
+  if (!symbol.declaration) {
+    return '';
+  }
+  // `const f = () => ...` is declared by its function; the signature keeps the name
+  const parent = symbol.declaration.parent;
+  const declaration = parent && ts.isVariableDeclaration(parent) && parent.initializer === (symbol.declaration as ts.Node)
+    ? parent
+    : symbol.declaration;
+  const text = declaration.getText();
+  const bodyStart = getBodyStart(declaration);
+  return (bodyStart === undefined ? text : text.slice(0, bodyStart - declaration.getStart())).trim();
+};
+
+// Reference kinds that leave nothing behind after compilation
+const TYPE_ONLY_KINDS: ReadonlySet<string> = new Set<DependencyKind>(['type', 'typeof', 'implements']);
+
+// The LIKE patterns below escape with a backslash, so `%` and `_` in user text match literally
+const escapeLike = (text: string): string => text.replace(/[\\%_]/g, '\\$&');
+
+// Rows keep their query order within each group
+const groupRows = <Row>(rows: Row[], getKey: (row: Row) => string): Map<string, Row[]> => {
+  const groups = new Map<string, Row[]>();
+  rows.forEach(row => {
+    const key = getKey(row);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+  return groups;
+};
+
+/**
+ * SQL condition keeping the edges of a dependencies row alias that survive compilation.
+ * Edges stored without kinds predate kind tracking and count as runtime edges.
+ */
+const runtimeEdgeCondition = (alias: string, options: DependencyGraphOptions): string => {
+  if (!options.runtimeOnly) {
+    return '1';
+  }
+  const typeOnly = Array.from(TYPE_ONLY_KINDS).map(kind => `'${kind}'`).join(', ');
+  return `(${alias}.kinds IS NULL OR EXISTS (
+    SELECT 1 FROM json_each('["' || REPLACE(${alias}.kinds, ',', '","') || '"]') WHERE value NOT IN (${typeOnly})
+  ))`;
+};
+
 export const createSymbolDB = (dbPath: string): SymbolDB => {
   const db = new Database(dbPath);
+  const listeners = new Set<SymbolChangeListener>();
+  // Module paths are relative to the procbase, which holds symbols.sqlite at its root
+  const rootDir = path.dirname(path.resolve(dbPath));
+
+  db.run('PRAGMA foreign_keys = ON');
+  // The semantic entry store writes to the same file through its own connection
+  db.run('PRAGMA busy_timeout = 5000');
+
+  // Extraction with this root produces the same ids, so references match rows exactly
+  const getSymbolId = (modulePath: string, symbol: SymbolInfo): string => {
+    return formatSymbolId(modulePath, symbol.name, getDeclarationKind(symbol.kind));
+  };
   
+  // The vector indexes hold the same keys as semantic_entries, one file per embedding provider
+  const removeSymbolVectors = () => {
+    const vectorsDir = path.dirname(getSemanticIndexPath(rootDir, 'symbols'));
+    if (!fs.existsSync(vectorsDir)) {
+      return;
+    }
+    fs.readdirSync(vectorsDir)
+      .filter(file => file.startsWith('symbols-') && file.endsWith('.vectors'))
+      .forEach(file => fs.rmSync(path.join(vectorsDir, file), { force: true }));
+  };
+
   const initialize = () => {
+    const { user_version: version } = db.prepare('PRAGMA user_version').get() as { user_version: number };
+    if (version < SCHEMA_VERSION) {
+      // Symbols, dependencies and imports are derived from source and rebuilt on the
+      // next analysis; semantic entries and embedded hashes are keyed by symbol id, so they go too
+      db.run('DROP TABLE IF EXISTS heritage');
+      db.run('DROP TABLE IF EXISTS dependencies');
+      db.run('DROP TABLE IF EXISTS symbols');
+      db.run('DROP TABLE IF EXISTS imports');
+      db.run('DROP TABLE IF EXISTS semantic_entries');
+      db.run('DROP TABLE IF EXISTS semantic_embeddings');
+      removeSymbolVectors();
+    }
+
     // Create tables for symbols and dependencies
     db.run(`
       CREATE TABLE IF NOT EXISTS symbols (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
+        module_path TEXT NOT NULL,
+        declaration_kind TEXT NOT NULL,
         file_path TEXT NOT NULL,
         export_type TEXT NOT NULL,
+        kind INTEGER NOT NULL,
         symbol_type TEXT NOT NULL,
+        signature TEXT NOT NULL,
         source_location TEXT,
         documentation TEXT,
         is_exported BOOLEAN NOT NULL,
+        export_names TEXT NOT NULL,
+        alias_of TEXT,
+        member_of TEXT,
+        augments TEXT,
+        content_hash TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
     `);
     
+    // dependency_ref is the reference as extracted; dependency_id is filled in once
+    // it resolves to an indexed symbol and cleared again if that symbol goes away
     db.run(`
       CREATE TABLE IF NOT EXISTS dependencies (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        dependent_symbol TEXT NOT NULL,
-        dependency_symbol TEXT NOT NULL,
+        dependent_id TEXT NOT NULL REFERENCES symbols(id) ON DELETE CASCADE,
+        dependency_ref TEXT NOT NULL,
+        dependency_name TEXT NOT NULL,
+        dependency_id TEXT REFERENCES symbols(id) ON DELETE SET NULL,
+        kinds TEXT,
         file_path TEXT NOT NULL,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        UNIQUE(dependent_symbol, dependency_symbol)
+        PRIMARY KEY(dependent_id, dependency_ref)
+      )
+    `);
+    
+    // extends/implements clauses, resolved the same way as dependencies
+    db.run(`
+      CREATE TABLE IF NOT EXISTS heritage (
+        symbol_id TEXT NOT NULL REFERENCES symbols(id) ON DELETE CASCADE,
+        relation TEXT NOT NULL,
+        base_ref TEXT NOT NULL,
+        base_name TEXT NOT NULL,
+        base_id TEXT REFERENCES symbols(id) ON DELETE SET NULL,
+        file_path TEXT NOT NULL,
+        PRIMARY KEY(symbol_id, relation, base_ref)
       )
     `);
     
@@ -51,156 +380,670 @@ export const createSymbolDB = (dbPath: string): SymbolDB => {
         file_path TEXT NOT NULL,
         name TEXT NOT NULL,
         from_module TEXT NOT NULL,
+        specifier TEXT NOT NULL,
+        resolved_file TEXT,
+        package_name TEXT,
         is_default BOOLEAN NOT NULL,
         original_name TEXT,
+        is_type_only BOOLEAN NOT NULL DEFAULT 0,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
     `);
     
+    db.run(`
+      CREATE TABLE IF NOT EXISTS instance_bindings (
+        instance_name TEXT PRIMARY KEY,
+        type_namespace TEXT NOT NULL,
+        type_name TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    db.run(`
+      CREATE TABLE IF NOT EXISTS behaviors (
+        name TEXT PRIMARY KEY,
+        dir_path TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    
+    db.run(`
+      CREATE TABLE IF NOT EXISTS behavior_bindings (
+        instance_name TEXT NOT NULL,
+        behavior_name TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY(instance_name, behavior_name)
+      )
+    `);
+    
     db.run('CREATE INDEX IF NOT EXISTS idx_symbols_name ON symbols(name)');
     db.run('CREATE INDEX IF NOT EXISTS idx_symbols_file ON symbols(file_path)');
-    db.run('CREATE INDEX IF NOT EXISTS idx_dependencies_dependent ON dependencies(dependent_symbol)');
-    db.run('CREATE INDEX IF NOT EXISTS idx_dependencies_dependency ON dependencies(dependency_symbol)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_symbols_module ON symbols(module_path, name)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_dependencies_dependency ON dependencies(dependency_id)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_dependencies_pending ON dependencies(dependency_name) WHERE dependency_id IS NULL');
+    db.run('CREATE INDEX IF NOT EXISTS idx_heritage_base ON heritage(base_id)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_heritage_pending ON heritage(base_name) WHERE base_id IS NULL');
     db.run('CREATE INDEX IF NOT EXISTS idx_imports_file ON imports(file_path)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_behavior_bindings_behavior ON behavior_bindings(behavior_name)');
+
+    db.run(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+  };
+
+  const toCandidate = (row: SymbolRow): SymbolCandidate => ({
+    id: row.id,
+    name: row.name,
+    filePath: row.file_path,
+    declarationKind: row.declaration_kind,
+    isExported: Boolean(row.is_exported)
+  });
+
+  // Extracted references are symbol ids; one into a file that is not indexed yet stays pending
+  const resolveReference = (reference: string): string | null => {
+    const row = db.prepare('SELECT id FROM symbols WHERE id = ?').get(reference) as Pick<SymbolRow, 'id'> | null;
+    return row ? row.id : null;
+  };
+
+  const getReferenceName = (reference: string): string => {
+    return parseSymbolId(reference)?.name ?? reference;
   };
 
-  const addSymbols = (filePath: string, symbols: ExtractedSymbols) => {
-    // Clear existing symbols for this file
-    db.prepare('DELETE FROM symbols WHERE file_path = ?').run(filePath);
-    db.prepare('DELETE FROM dependencies WHERE file_path = ?').run(filePath);
-    db.prepare('DELETE FROM imports WHERE file_path = ?').run(filePath);
+  const toSymbolChange = (row: SymbolRow): SymbolChange => ({
+    id: row.id,
+    name: row.name,
+    filePath: row.file_path,
+    isExported: Boolean(row.is_exported),
+    kind: row.kind,
+    symbolType: row.symbol_type,
+    documentation: row.documentation,
+    contentHash: row.content_hash
+  });
+
+  const addSymbols = (filePath: string, symbols: ExtractedSymbols): SymbolChangeSet => {
+    const modulePath = getModulePath(filePath, rootDir);
+    const previousRows = db.prepare('SELECT * FROM symbols WHERE file_path = ?').all(filePath) as SymbolRow[];
+    const previous = new Map(previousRows.map(row => [row.id, row]));
+
+    const current = new Map<string, { symbol: SymbolInfo; exportType: 'export' | 'internal' }>();
+    symbols.internal.forEach(symbol => {
+      current.set(getSymbolId(modulePath, symbol), { symbol, exportType: 'internal' });
+    });
+    symbols.exports.forEach(symbol => {
+      current.set(getSymbolId(modulePath, symbol), { symbol, exportType: 'export' });
+    });
+
+    // A declaration is exported under its own name and under any local `export { a as b }`
+    const exportNames = new Map<string, Set<string>>();
+    const addExportName = (localName: string, exportName: string) => {
+      exportNames.set(localName, (exportNames.get(localName) ?? new Set<string>()).add(exportName));
+    };
+    current.forEach(({ symbol, exportType }) => {
+      if (exportType === 'export') {
+        addExportName(symbol.name, symbol.name);
+      }
+      const origin = symbol.aliasOf ? parseSymbolId(symbol.aliasOf) : undefined;
+      if (origin?.modulePath === modulePath) {
+        addExportName(origin.name, symbol.name);
+      }
+    });
 
     const insertSymbol = db.prepare(`
-      INSERT OR REPLACE INTO symbols (name, file_path, export_type, symbol_type, source_location, documentation, is_exported, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      INSERT INTO symbols (id, name, module_path, declaration_kind, file_path, export_type, kind, symbol_type, signature, source_location, documentation, is_exported, export_names, alias_of, member_of, augments, content_hash, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `);
 
     const insertDependency = db.prepare(`
-      INSERT OR IGNORE INTO dependencies (dependent_symbol, dependency_symbol, file_path)
-      VALUES (?, ?, ?)
+      INSERT OR IGNORE INTO dependencies (dependent_id, dependency_ref, dependency_name, dependency_id, kinds, file_path)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertHeritage = db.prepare(`
+      INSERT OR IGNORE INTO heritage (symbol_id, relation, base_ref, base_name, base_id, file_path)
+      VALUES (?, ?, ?, ?, ?, ?)
     `);
 
     const insertImport = db.prepare(`
-      INSERT OR REPLACE INTO imports (file_path, name, from_module, is_default, original_name)
-      VALUES (?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO imports (file_path, name, from_module, specifier, resolved_file, package_name, is_default, original_name, is_type_only)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    // Add exported symbols
-    symbols.exports.forEach((symbol, name) => {
-      insertSymbol.run(
-        name,
-        filePath,
-        'export',
-        symbol.type,
-        JSON.stringify(symbol.sourceLocation),
-        symbol.documentation || null,
-        symbol.isExported
-      );
-    });
+    const replaceFile = db.transaction(() => {
+      // Outgoing edges cascade away; edges into this file fall back to pending
+      db.prepare('DELETE FROM symbols WHERE file_path = ?').run(filePath);
+      db.prepare('DELETE FROM imports WHERE file_path = ?').run(filePath);
 
-    // Add internal symbols
-    symbols.internal.forEach((symbol, name) => {
-      insertSymbol.run(
-        name,
-        filePath,
-        'internal',
-        symbol.type,
-        JSON.stringify(symbol.sourceLocation),
-        symbol.documentation || null,
-        symbol.isExported
-      );
-    });
+      current.forEach(({ symbol, exportType }, id) => {
+        insertSymbol.run(
+          id,
+          symbol.name,
+          modulePath,
+          getDeclarationKind(symbol.kind),
+          filePath,
+          exportType,
+          symbol.kind,
+          symbol.type,
+          getSignature(symbol),
+          JSON.stringify(symbol.sourceLocation),
+          symbol.documentation || null,
+          symbol.isExported,
+          JSON.stringify(Array.from(exportNames.get(symbol.name) ?? []).sort()),
+          symbol.aliasOf ?? null,
+          symbol.memberOf ?? null,
+          symbol.augments ?? null,
+          getContentHash(symbol)
+        );
+      });
 
-    // Add dependencies
-    symbols.exports.forEach((symbol, name) => {
-      symbol.dependencies.forEach(dep => {
-        insertDependency.run(name, dep, filePath);
+      current.forEach(({ symbol }, id) => {
+        symbol.dependencies.forEach(reference => {
+          const kinds = symbol.dependencyKinds?.get(reference);
+          insertDependency.run(
+            id,
+            reference,
+            getReferenceName(reference),
+            resolveReference(reference),
+            kinds ? Array.from(kinds).sort().join(',') : null,
+            filePath
+          );
+        });
+        const relations: [HeritageRelation, Set<string> | undefined][] = [['extends', symbol.extends], ['implements', symbol.implements]];
+        relations.forEach(([relation, references]) => {
+          references?.forEach(reference => {
+            insertHeritage.run(id, relation, reference, getReferenceName(reference), resolveReference(reference), filePath);
+          });
+        });
+      });
+
+      // Edges elsewhere that were waiting for one of these symbols resolve now
+      const resolvePending = db.prepare('UPDATE dependencies SET dependency_id = dependency_ref WHERE dependency_id IS NULL AND dependency_name = ? AND dependency_ref = ?');
+      const resolvePendingHeritage = db.prepare('UPDATE heritage SET base_id = base_ref WHERE base_id IS NULL AND base_name = ? AND base_ref = ?');
+      current.forEach(({ symbol }, id) => {
+        resolvePending.run(symbol.name, id);
+        resolvePendingHeritage.run(symbol.name, id);
       });
-    });
 
-    symbols.internal.forEach((symbol, name) => {
-      symbol.dependencies.forEach(dep => {
-        insertDependency.run(name, dep, filePath);
+      symbols.imports.forEach((importInfo, name) => {
+        insertImport.run(
+          filePath,
+          name,
+          importInfo.fromModule,
+          importInfo.specifier,
+          importInfo.resolvedFile ?? null,
+          importInfo.packageName ?? null,
+          importInfo.isDefault,
+          importInfo.originalName || null,
+          importInfo.isTypeOnly ?? false
+        );
       });
     });
+    replaceFile();
+
+    const changes: SymbolChangeSet = { filePath, added: [], removed: [], changed: [] };
 
-    // Add imports
-    symbols.imports.forEach((importInfo, name) => {
-      insertImport.run(
+    current.forEach(({ symbol }, id) => {
+      const change: SymbolChange = {
+        id,
+        name: symbol.name,
         filePath,
-        name,
-        importInfo.fromModule,
-        importInfo.isDefault,
-        importInfo.originalName || null
-      );
+        isExported: symbol.isExported,
+        kind: symbol.kind,
+        symbolType: symbol.type,
+        documentation: symbol.documentation || null,
+        contentHash: getContentHash(symbol)
+      };
+      const row = previous.get(id);
+      if (!row) {
+        changes.added.push(change);
+      } else if (row.content_hash !== change.contentHash || Boolean(row.is_exported) !== change.isExported) {
+        changes.changed.push(change);
+      }
+    });
+
+    previous.forEach((row, id) => {
+      if (!current.has(id)) {
+        changes.removed.push(toSymbolChange(row));
+      }
     });
+
+    if (changes.added.length + changes.removed.length + changes.changed.length > 0) {
+      listeners.forEach(listener => listener(changes));
+    }
+    return changes;
   };
 
-  const getSymbols = (filePath: string): ExtractedSymbols | null => {
-    const symbols = db.prepare('SELECT * FROM symbols WHERE file_path = ?').all(filePath) as any[];
-    const dependencies = db.prepare('SELECT * FROM dependencies WHERE file_path = ?').all(filePath) as any[];
-    const imports = db.prepare('SELECT * FROM imports WHERE file_path = ?').all(filePath) as any[];
+  // A deleted file is a file with nothing left in it: its rows go and edges into it fall back to pending
+  const removeFile = (filePath: string): SymbolChangeSet => {
+    return addSymbols(filePath, { exports: new Map(), internal: new Map(), imports: new Map() });
+  };
 
-    if (symbols.length === 0) return null;
+  const getIndexedFiles = (filePathPrefix?: string): string[] => {
+    const rows = db.prepare(`
+      SELECT file_path FROM symbols WHERE file_path LIKE ?1 ESCAPE '\\'
+      UNION
+      SELECT file_path FROM imports WHERE file_path LIKE ?1 ESCAPE '\\'
+      ORDER BY file_path
+    `).all(`${escapeLike(filePathPrefix ?? '')}%`) as { file_path: string }[];
+    return rows.map(row => row.file_path);
+  };
 
-    const result: ExtractedSymbols = {
-      exports: new Map(),
-      internal: new Map(),
-      imports: new Map()
+  const onSymbolsChanged = (listener: SymbolChangeListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
     };
+  };
 
-    // Reconstruct symbols from database
-    symbols.forEach(row => {
-      const symbol: SymbolInfo = {
+  // Edges and heritage for a whole batch of symbols, three queries however many rows there are
+  const toSymbolRecords = (rows: SymbolRow[]): SymbolRecord[] => {
+    const ids = JSON.stringify(rows.map(row => row.id));
+    const dependencies = groupRows(db.prepare(`
+      SELECT dependent_id, dependency_ref, kinds FROM dependencies
+      WHERE dependent_id IN (SELECT value FROM json_each(?))
+      ORDER BY dependent_id, dependency_ref
+    `).all(ids) as Pick<DependencyRow, 'dependent_id' | 'dependency_ref' | 'kinds'>[], d => d.dependent_id);
+    const dependents = groupRows(db.prepare(`
+      SELECT DISTINCT dependency_id, dependent_id FROM dependencies
+      WHERE dependency_id IN (SELECT value FROM json_each(?))
+      ORDER BY dependency_id, dependent_id
+    `).all(ids) as { dependency_id: string; dependent_id: string }[], d => d.dependency_id);
+    const heritage = groupRows(db.prepare(`
+      SELECT symbol_id, relation, base_ref FROM heritage
+      WHERE symbol_id IN (SELECT value FROM json_each(?))
+      ORDER BY symbol_id, base_ref
+    `).all(ids) as Pick<HeritageRow, 'symbol_id' | 'relation' | 'base_ref'>[], h => h.symbol_id);
+
+    return rows.map(row => {
+      const symbolDependencies = dependencies.get(row.id) ?? [];
+      const symbolHeritage = heritage.get(row.id) ?? [];
+      return {
+        id: row.id,
         name: row.name,
-        kind: 0, // Default value, would need to be reconstructed from type
+        kind: row.kind,
+        declarationKind: row.declaration_kind,
         type: row.symbol_type,
-        declaration: null as any, // Would need to be reconstructed from AST
+        signature: row.signature,
         isExported: Boolean(row.is_exported),
-        documentation: row.documentation,
+        exportNames: JSON.parse(row.export_names),
+        ...(row.documentation ? { documentation: row.documentation } : {}),
         sourceLocation: JSON.parse(row.source_location || '{}'),
-        fileName: row.file_path,
-        dependencies: new Set(),
-        dependents: new Set()
+        filePath: row.file_path,
+        modulePath: row.module_path,
+        dependencies: symbolDependencies.map(d => d.dependency_ref),
+        dependencyKinds: Object.fromEntries(symbolDependencies.flatMap(d => {
+          return d.kinds ? [[d.dependency_ref, d.kinds.split(',') as DependencyKind[]]] : [];
+        })),
+        dependents: (dependents.get(row.id) ?? []).map(d => d.dependent_id),
+        ...(row.alias_of ? { aliasOf: row.alias_of } : {}),
+        ...(row.member_of ? { memberOf: row.member_of } : {}),
+        extends: symbolHeritage.filter(h => h.relation === 'extends').map(h => h.base_ref),
+        implements: symbolHeritage.filter(h => h.relation === 'implements').map(h => h.base_ref),
+        ...(row.augments ? { augments: row.augments } : {})
       };
+    });
+  };
+
+  const toImportInfo = (row: ImportRow): ImportInfo => ({
+    name: row.name,
+    fromModule: row.from_module,
+    specifier: row.specifier,
+    ...(row.resolved_file ? { resolvedFile: row.resolved_file } : {}),
+    ...(row.package_name ? { packageName: row.package_name } : {}),
+    isDefault: Boolean(row.is_default),
+    ...(row.original_name ? { originalName: row.original_name } : {}),
+    isTypeOnly: Boolean(row.is_type_only)
+  });
+
+  const getSymbols = (filePath: string): StoredFileSymbols | null => {
+    const symbols = db.prepare('SELECT * FROM symbols WHERE file_path = ? ORDER BY id').all(filePath) as SymbolRow[];
+    const imports = db.prepare('SELECT * FROM imports WHERE file_path = ? ORDER BY name').all(filePath) as ImportRow[];
+
+    if (symbols.length === 0) return null;
+
+    return {
+      filePath,
+      symbols: toSymbolRecords(symbols),
+      imports: imports.map(toImportInfo)
+    };
+  };
+
+  const getAllSymbols = (): SymbolRecord[] => {
+    const rows = db.prepare('SELECT * FROM symbols ORDER BY id').all() as SymbolRow[];
+    return toSymbolRecords(rows);
+  };
+
+  // Every stored symbol as change listeners see it, for consumers rebuilding what they derive from it
+  const getSymbolChanges = (): SymbolChange[] => {
+    return (db.prepare('SELECT * FROM symbols ORDER BY id').all() as SymbolRow[]).map(toSymbolChange);
+  };
+
+  const searchSymbols = (query: string, filePathPrefix?: string): SymbolSearchResult[] => {
+    // Literal, case-insensitive match over names, documentation and type strings
+    const pattern = `%${escapeLike(query.toLowerCase())}%`;
+    const rows = db.prepare(`
+      SELECT * FROM symbols
+      WHERE (LOWER(name) LIKE ?1 ESCAPE '\\' OR LOWER(IFNULL(documentation, '')) LIKE ?1 ESCAPE '\\' OR LOWER(symbol_type) LIKE ?1 ESCAPE '\\')
+        AND file_path LIKE ?2 ESCAPE '\\'
+      ORDER BY name
+    `).all(pattern, `${escapeLike(filePathPrefix ?? '')}%`) as SymbolRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      declarationKind: row.declaration_kind,
+      filePath: row.file_path,
+      symbolType: row.symbol_type,
+      documentation: row.documentation,
+      isExported: Boolean(row.is_exported),
+      sourceLocation: JSON.parse(row.source_location || '{}')
+    }));
+  };
+
+  const toInstanceBinding = (row: InstanceBindingRow): InstanceBinding => ({
+    instanceName: row.instance_name,
+    typeNamespace: row.type_namespace,
+    typeName: row.type_name,
+    filePath: row.file_path
+  });
+
+  const setInstanceBinding = (binding: InstanceBinding) => {
+    db.prepare(`
+      INSERT INTO instance_bindings (instance_name, type_namespace, type_name, file_path)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(instance_name) DO UPDATE SET
+        type_namespace = excluded.type_namespace,
+        type_name = excluded.type_name,
+        file_path = excluded.file_path,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(binding.instanceName, binding.typeNamespace, binding.typeName, binding.filePath);
+  };
+
+  const getInstanceBinding = (instanceName: string): InstanceBinding | null => {
+    const row = db.prepare('SELECT * FROM instance_bindings WHERE instance_name = ?').get(instanceName) as InstanceBindingRow | null;
+    return row ? toInstanceBinding(row) : null;
+  };
+
+  const getInstanceBindings = (): InstanceBinding[] => {
+    const rows = db.prepare('SELECT * FROM instance_bindings ORDER BY instance_name').all() as InstanceBindingRow[];
+    return rows.map(toInstanceBinding);
+  };
+
+  const setBehavior = (behavior: Behavior) => {
+    db.prepare(`
+      INSERT INTO behaviors (name, dir_path)
+      VALUES (?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        dir_path = excluded.dir_path,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(behavior.name, behavior.dirPath);
+  };
+
+  const getBehavior = (name: string): Behavior | null => {
+    const row = db.prepare('SELECT * FROM behaviors WHERE name = ?').get(name) as BehaviorRow | null;
+    return row ? { name: row.name, dirPath: row.dir_path } : null;
+  };
+
+  const getBehaviors = (): Behavior[] => {
+    const rows = db.prepare('SELECT * FROM behaviors ORDER BY name').all() as BehaviorRow[];
+    return rows.map(row => ({ name: row.name, dirPath: row.dir_path }));
+  };
+
+  const deleteBehavior = (name: string) => {
+    db.prepare('DELETE FROM behavior_bindings WHERE behavior_name = ?').run(name);
+    db.prepare('DELETE FROM behaviors WHERE name = ?').run(name);
+  };
+
+  const bindBehavior = (instanceName: string, behaviorName: string) => {
+    db.prepare('INSERT OR IGNORE INTO behavior_bindings (instance_name, behavior_name) VALUES (?, ?)').run(instanceName, behaviorName);
+  };
+
+  const unbindBehavior = (instanceName: string, behaviorName: string) => {
+    db.prepare('DELETE FROM behavior_bindings WHERE instance_name = ? AND behavior_name = ?').run(instanceName, behaviorName);
+  };
+
+  const getBoundBehaviors = (instanceName: string): string[] => {
+    const rows = db.prepare('SELECT behavior_name FROM behavior_bindings WHERE instance_name = ? ORDER BY behavior_name').all(instanceName) as { behavior_name: string }[];
+    return rows.map(row => row.behavior_name);
+  };
+
+  const getBoundInstances = (behaviorName: string): string[] => {
+    const rows = db.prepare('SELECT instance_name FROM behavior_bindings WHERE behavior_name = ? ORDER BY instance_name').all(behaviorName) as { instance_name: string }[];
+    return rows.map(row => row.instance_name);
+  };
 
-      // Add dependencies
-      const symbolDeps = dependencies.filter(d => d.dependent_symbol === row.name);
-      symbolDeps.forEach(d => symbol.dependencies.add(d.dependency_symbol));
+  const lookupSymbol = (reference: string): SymbolQueryResult<SymbolCandidate> => {
+    // A symbol id identifies a single symbol; anything else is taken as a name
+    const exact = db.prepare('SELECT * FROM symbols WHERE id = ?').get(reference) as SymbolRow | null;
+    const rows = exact ? [exact] : db.prepare('SELECT * FROM symbols WHERE name = ? ORDER BY id').all(reference) as SymbolRow[];
 
-      if (row.export_type === 'export') {
-        result.exports.set(row.name, symbol);
+    if (rows.length === 0) {
+      return { status: 'not-found', reference };
+    }
+    if (rows.length > 1) {
+      return { status: 'ambiguous', candidates: rows.map(toCandidate) };
+    }
+    const symbol = toCandidate(rows[0]!);
+    return { status: 'found', symbol, result: symbol };
+  };
+
+  const querySymbol = <T>(reference: string, query: (symbol: SymbolCandidate) => T): SymbolQueryResult<T> => {
+    const lookup = lookupSymbol(reference);
+    return lookup.status === 'found'
+      ? { status: 'found', symbol: lookup.symbol, result: query(lookup.symbol) }
+      : lookup;
+  };
+
+  // Unresolved edges report the reference as it was extracted
+  const getDependencies = (reference: string): SymbolQueryResult<string[]> => {
+    return querySymbol(reference, symbol => {
+      const deps = db.prepare('SELECT dependency_id, dependency_ref FROM dependencies WHERE dependent_id = ? ORDER BY dependency_ref').all(symbol.id) as Pick<DependencyRow, 'dependency_id' | 'dependency_ref'>[];
+      return deps.map(d => d.dependency_id ?? d.dependency_ref);
+    });
+  };
+
+  const getDependents = (reference: string): SymbolQueryResult<string[]> => {
+    return querySymbol(reference, symbol => {
+      const deps = db.prepare('SELECT dependent_id FROM dependencies WHERE dependency_id = ? ORDER BY dependent_id').all(symbol.id) as Pick<DependencyRow, 'dependent_id'>[];
+      return deps.map(d => d.dependent_id);
+    });
+  };
+
+  /**
+   * Resolved edges as adjacency lists. `forward` maps each symbol to its dependencies,
+   * otherwise to its dependents.
+   */
+  const getAdjacency = (forward: boolean, options: DependencyGraphOptions): Map<string, string[]> => {
+    const edges = db.prepare(`
+      SELECT DISTINCT dependent_id, dependency_id FROM dependencies d
+      WHERE dependency_id IS NOT NULL AND ${runtimeEdgeCondition('d', options)}
+      ORDER BY dependent_id, dependency_id
+    `).all() as ResolvedEdgeRow[];
+    const adjacency = new Map<string, string[]>();
+    edges.forEach(edge => {
+      const [from, to] = forward ? [edge.dependent_id, edge.dependency_id] : [edge.dependency_id, edge.dependent_id];
+      const targets = adjacency.get(from);
+      if (targets) {
+        targets.push(to);
       } else {
-        result.internal.set(row.name, symbol);
+        adjacency.set(from, [to]);
       }
     });
+    return adjacency;
+  };
 
-    // Reconstruct imports
-    imports.forEach(row => {
-      const importInfo: ImportInfo = {
-        name: row.name,
-        fromModule: row.from_module,
-        isDefault: Boolean(row.is_default),
-        originalName: row.original_name
-      };
-      result.imports.set(row.name, importInfo);
+  /**
+   * Breadth-first walk over resolved edges, with the shortest depth of every symbol
+   * reached. `forward` follows dependencies, otherwise dependents. Each symbol is
+   * visited once, so cycles cost no more than any other edge.
+   */
+  const walkGraph = (startId: string, forward: boolean, options: ClosureOptions): Map<string, number> => {
+    const adjacency = getAdjacency(forward, options);
+    const maxDepth = options.maxDepth ?? Infinity;
+    const depths = new Map<string, number>([[startId, 0]]);
+    let frontier = [startId];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      frontier.forEach(id => {
+        adjacency.get(id)?.forEach(target => {
+          if (!depths.has(target)) {
+            depths.set(target, depth);
+            next.push(target);
+          }
+        });
+      });
+      frontier = next;
+    }
+    return depths;
+  };
+
+  const toReached = (depths: Map<string, number>, startId: string): ReachedSymbol[] => {
+    return Array.from(depths, ([id, depth]) => ({ id, depth }))
+      .filter(reached => reached.id !== startId)
+      .sort((a, b) => a.depth - b.depth || a.id.localeCompare(b.id));
+  };
+
+  // Everything reachable through dependency edges; an unresolved edge ends its branch with the reference
+  const getClosure = (reference: string, options: ClosureOptions = {}): SymbolQueryResult<ReachedSymbol[]> => {
+    return querySymbol(reference, symbol => {
+      const depths = walkGraph(symbol.id, true, options);
+      const maxDepth = options.maxDepth ?? Infinity;
+      const unresolved = db.prepare(`
+        SELECT dependency_ref FROM dependencies d
+        WHERE dependent_id = ? AND dependency_id IS NULL AND ${runtimeEdgeCondition('d', options)}
+      `);
+
+      // Visiting the nearest symbols first gives each reference its shortest depth
+      const references = new Map<string, number>();
+      Array.from(depths)
+        .filter(([, depth]) => depth < maxDepth)
+        .sort(([, a], [, b]) => a - b)
+        .forEach(([id, depth]) => {
+          (unresolved.all(id) as Pick<DependencyRow, 'dependency_ref'>[]).forEach(edge => {
+            if (!references.has(edge.dependency_ref)) {
+              references.set(edge.dependency_ref, depth + 1);
+            }
+          });
+        });
+      references.forEach((depth, ref) => depths.set(ref, depth));
+
+      return toReached(depths, symbol.id);
     });
+  };
 
-    return result;
+  // Everything that depends on the symbol, directly or through other symbols
+  const getReverseClosure = (reference: string, options: ClosureOptions = {}): SymbolQueryResult<ReachedSymbol[]> => {
+    return querySymbol(reference, symbol => toReached(walkGraph(symbol.id, false, options), symbol.id));
   };
 
-  const getAllSymbols = (): SymbolInfo[] => {
-    return db.prepare('SELECT * FROM symbols').all() as SymbolInfo[];
+  // Why `from` depends on `to`: one of the shortest dependency chains between them
+  const getShortestPath = (from: string, to: string, options: DependencyGraphOptions = {}): SymbolQueryResult<SymbolPath> => {
+    const target = lookupSymbol(to);
+    if (target.status !== 'found') {
+      return target;
+    }
+    return querySymbol(from, source => {
+      const depths = walkGraph(source.id, true, options);
+      if (!depths.has(target.symbol.id)) {
+        return { target: target.symbol, path: null };
+      }
+
+      // Walk back from the target through predecessors one step closer to the source
+      const predecessors = db.prepare(`
+        SELECT dependent_id FROM dependencies d
+        WHERE dependency_id = ? AND ${runtimeEdgeCondition('d', options)}
+        ORDER BY dependent_id
+      `);
+      const path = [target.symbol.id];
+      let depth = depths.get(target.symbol.id)!;
+      while (depth > 0) {
+        const current = path[0]!;
+        const previous = (predecessors.all(current) as Pick<DependencyRow, 'dependent_id'>[])
+          .map(row => row.dependent_id)
+          .find(id => depths.get(id) === depth - 1)!;
+        path.unshift(previous);
+        depth -= 1;
+      }
+      return { target: target.symbol, path };
+    });
   };
 
-  const getDependencies = (symbolName: string): string[] => {
-    const deps = db.prepare('SELECT dependency_symbol FROM dependencies WHERE dependent_symbol = ?').all(symbolName) as any[];
-    return deps.map(d => d.dependency_symbol);
+  /**
+   * Groups of symbols that all depend on each other, i.e. dependency cycles. Symbols
+   * outside any cycle are left out; a symbol depending on itself forms its own group.
+   */
+  const getStronglyConnectedComponents = (options: DependencyGraphOptions = {}): string[][] => {
+    const successors = getAdjacency(true, options);
+
+    // Tarjan's algorithm, with an explicit stack so long dependency chains cannot overflow the call stack
+    const order = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const open: string[] = [];
+    const onOpen = new Set<string>();
+    const components: string[][] = [];
+
+    const enter = (id: string) => {
+      order.set(id, order.size);
+      lowLink.set(id, order.get(id)!);
+      open.push(id);
+      onOpen.add(id);
+    };
+
+    const visit = (rootId: string) => {
+      // Each frame is a symbol and the index of the next successor to follow from it
+      const frames: [string, number][] = [[rootId, 0]];
+      enter(rootId);
+      while (frames.length > 0) {
+        const frame = frames[frames.length - 1]!;
+        const [id, next] = frame;
+        const targets = successors.get(id) ?? [];
+        if (next < targets.length) {
+          frame[1] = next + 1;
+          const target = targets[next]!;
+          if (!order.has(target)) {
+            enter(target);
+            frames.push([target, 0]);
+          } else if (onOpen.has(target)) {
+            lowLink.set(id, Math.min(lowLink.get(id)!, order.get(target)!));
+          }
+          continue;
+        }
+
+        frames.pop();
+        const parent = frames[frames.length - 1];
+        if (parent) {
+          lowLink.set(parent[0], Math.min(lowLink.get(parent[0])!, lowLink.get(id)!));
+        }
+        if (lowLink.get(id) === order.get(id)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = open.pop()!;
+            onOpen.delete(member);
+            component.push(member);
+          } while (member !== id);
+          if (component.length > 1 || targets.includes(id)) {
+            components.push(component.sort());
+          }
+        }
+      }
+    };
+
+    // Only symbols with outgoing edges can start a cycle
+    successors.forEach((_, id) => {
+      if (!order.has(id)) {
+        visit(id);
+      }
+    });
+    return components.sort((a, b) => a[0]!.localeCompare(b[0]!));
   };
 
-  const getDependents = (symbolName: string): string[] => {
-    const deps = db.prepare('SELECT dependent_symbol FROM dependencies WHERE dependency_symbol = ?').all(symbolName) as any[];
-    return deps.map(d => d.dependent_symbol);
+  // Direct subtypes only: classes and interfaces naming the symbol in a heritage clause
+  const getSubtypes = (reference: string): SymbolQueryResult<SymbolSubtype[]> => {
+    return querySymbol(reference, symbol => {
+      const rows = db.prepare('SELECT symbol_id, relation FROM heritage WHERE base_id = ? ORDER BY symbol_id').all(symbol.id) as Pick<HeritageRow, 'symbol_id' | 'relation'>[];
+      return rows.map(row => ({ id: row.symbol_id, relation: row.relation }));
+    });
   };
 
   const close = () => {
@@ -210,10 +1053,32 @@ export const createSymbolDB = (dbPath: string): SymbolDB => {
   return {
     initialize,
     addSymbols,
+    removeFile,
+    getIndexedFiles,
+    onSymbolsChanged,
     getSymbols,
     getAllSymbols,
+    getSymbolChanges,
+    searchSymbols,
+    setInstanceBinding,
+    getInstanceBinding,
+    getInstanceBindings,
+    setBehavior,
+    getBehavior,
+    getBehaviors,
+    deleteBehavior,
+    bindBehavior,
+    unbindBehavior,
+    getBoundBehaviors,
+    getBoundInstances,
+    lookupSymbol,
     getDependencies,
     getDependents,
+    getClosure,
+    getReverseClosure,
+    getShortestPath,
+    getStronglyConnectedComponents,
+    getSubtypes,
     close
   };
 }; 
\ No newline at end of file
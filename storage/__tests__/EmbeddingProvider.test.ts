@@ -0,0 +1,77 @@
+import { describe, it, expect } from "bun:test";
+import { makeHashedEmbeddingProvider, tokenize } from '../HashedEmbeddingProvider';
+import { makeHttpEmbeddingProvider } from '../HttpEmbeddingProvider';
+
+const norm = (vector: Float32Array) => Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+const cosine = (a: Float32Array, b: Float32Array) => {
+  return a.reduce((sum, value, i) => sum + value * b[i]!, 0) / (norm(a) * norm(b));
+};
+
+describe('makeHashedEmbeddingProvider', () => {
+  it('同一文本应该得到相同的向量', async () => {
+    const first = makeHashedEmbeddingProvider({ dimensions: 64 });
+    const second = makeHashedEmbeddingProvider({ dimensions: 64 });
+    const [a] = await first.embed(['parseVectorIndex reads a vector file']);
+    const [b] = await second.embed(['parseVectorIndex reads a vector file']);
+
+    expect(Array.from(a!)).toEqual(Array.from(b!));
+    expect(first.id).toBe('hashed-64');
+  });
+
+  it('应该返回单位长度的向量，空文本返回零向量', async () => {
+    const provider = makeHashedEmbeddingProvider({ dimensions: 128 });
+    const [short, long, empty] = await provider.embed(['Vector', 'Vector '.repeat(50) + 'index of symbols', '']);
+
+    expect(norm(short!)).toBeCloseTo(1, 5);
+    expect(norm(long!)).toBeCloseTo(1, 5);
+    expect(Array.from(empty!).every(value => value === 0)).toBe(true);
+  });
+
+  it('维度很大时也应该能归一化', async () => {
+    const provider = makeHashedEmbeddingProvider({ dimensions: 1_000_000 });
+    const [vector] = await provider.embed(['parseVectorIndex reads a vector file']);
+
+    expect(vector!.length).toBe(1_000_000);
+    expect(norm(vector!)).toBeCloseTo(1, 5);
+  });
+
+  it('相关的拼写应该比无关的文本更相似', async () => {
+    const provider = makeHashedEmbeddingProvider();
+    const [query, related, unrelated] = await provider.embed(['vectors', 'VectorIndex', 'behaviorBinding']);
+
+    expect(cosine(query!, related!)).toBeGreaterThan(cosine(query!, unrelated!));
+  });
+
+  it('应该拒绝非正整数的维度', () => {
+    expect(() => makeHashedEmbeddingProvider({ dimensions: 0 })).toThrow('positive integer');
+    expect(() => makeHashedEmbeddingProvider({ dimensions: -1 })).toThrow('positive integer');
+  });
+});
+
+describe('tokenize', () => {
+  it('应该拆分驼峰、下划线和点号名称并转为小写', () => {
+    expect(tokenize('parseHTTPResponse user_id Geo.Vec')).toEqual(['parse', 'http', 'response', 'user', 'id', 'geo', 'vec']);
+  });
+
+  it('应该去掉停用词', () => {
+    expect(tokenize('the area of a shape')).toEqual(['area', 'shape']);
+  });
+});
+
+describe('makeHttpEmbeddingProvider', () => {
+  it('请求超时时应该失败而不是一直等待', async () => {
+    // Never answers, like an embedding server that hangs
+    const server = Bun.serve({ port: 0, fetch: () => new Promise<Response>(() => {}) });
+    try {
+      const provider = makeHttpEmbeddingProvider({
+        url: `http://localhost:${server.port}/v1/embeddings`,
+        model: 'test',
+        timeoutMs: 100
+      });
+      await expect(provider.embed(['text'])).rejects.toThrow('timed out after 100ms');
+    } finally {
+      server.stop(true);
+    }
+  });
+});
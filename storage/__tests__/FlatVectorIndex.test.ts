@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { makeFlatVectorIndex } from '../FlatVectorIndex';
+
+const vector = (...values: number[]) => Float32Array.from(values);
+
+describe('makeFlatVectorIndex', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flat-vector-index-'));
+    filePath = path.join(dir, 'symbols.vectors');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('flush 后重新打开应该得到相同的键和向量', async () => {
+    const index = await makeFlatVectorIndex(filePath);
+    await index.set(vector(3, 4, 0), 'a');
+    await index.set(vector(0, 0, 2), '符号/b');
+    await index.flush();
+
+    const reopened = await makeFlatVectorIndex(filePath);
+    expect((await reopened.keys()).sort()).toEqual(['a', '符号/b']);
+    const [best] = await reopened.search({ embedding: vector(3, 4, 0) });
+    expect(best?.key).toBe('a');
+    expect(best?.relevance).toBeCloseTo(1, 5);
+  });
+
+  it('flush 之前不应该写入文件', async () => {
+    const index = await makeFlatVectorIndex(filePath);
+    await index.set(vector(1, 0), 'a');
+    expect(fs.existsSync(filePath)).toBe(false);
+
+    await index.flush();
+    expect(fs.existsSync(filePath)).toBe(true);
+  });
+
+  it('应该拒绝维度不一致的向量和查询', async () => {
+    const index = await makeFlatVectorIndex(filePath);
+    await index.set(vector(1, 0, 0), 'a');
+
+    await expect(index.set(vector(1, 0), 'b')).rejects.toThrow('index expects 3');
+    await expect(index.search({ embedding: vector(1, 0) })).rejects.toThrow('index expects 3');
+  });
+
+  it('删除的键在重新打开后不应该再出现', async () => {
+    const index = await makeFlatVectorIndex(filePath);
+    await index.set(vector(1, 0), 'a');
+    await index.set(vector(0, 1), 'b');
+    await index.flush();
+    await index.del('a');
+    await index.flush();
+
+    const reopened = await makeFlatVectorIndex(filePath);
+    expect(await reopened.keys()).toEqual(['b']);
+    expect((await reopened.search({ embedding: vector(1, 0) })).map(result => result.key)).toEqual([]);
+  });
+
+  it('应该按相关性返回前 k 个结果并过滤低相关性的结果', async () => {
+    const index = await makeFlatVectorIndex(filePath);
+    await index.set(vector(1, 0), 'exact');
+    await index.set(vector(1, 1), 'close');
+    await index.set(vector(1, 3), 'far');
+    await index.set(vector(-1, 0), 'opposite');
+
+    const top2 = await index.search({ embedding: vector(1, 0), maxResults: 2 });
+    expect(top2.map(result => result.key)).toEqual(['exact', 'close']);
+
+    const relevant = await index.search({ embedding: vector(1, 0), minRelevance: 0.5 });
+    expect(relevant.map(result => result.key)).toEqual(['exact', 'close']);
+  });
+
+  it('一次写入失败不应该阻止之后的写入', async () => {
+    // A directory in the way of the temp file makes the first write fail
+    fs.mkdirSync(`${filePath}.tmp`);
+    const index = await makeFlatVectorIndex(filePath);
+    await index.set(vector(1, 0), 'a');
+    await expect(index.flush()).rejects.toThrow();
+
+    fs.rmdirSync(`${filePath}.tmp`);
+    await index.flush();
+    expect(await (await makeFlatVectorIndex(filePath)).keys()).toEqual(['a']);
+  });
+});
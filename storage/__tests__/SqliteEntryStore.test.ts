@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { makeSqliteEntryStore } from '../SqliteEntryStore';
+import type { Entry } from '../SemanticDB';
+
+const entry = (exportName: string, subtype?: string): Entry => ({
+  description: `${exportName} 的说明`,
+  kind: 'type',
+  ...(subtype ? { subtype } : {}),
+  exportName,
+  moduleId: `types/Geo/${exportName}.ts`
+});
+
+describe('makeSqliteEntryStore', () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-entry-store-'));
+    dbPath = path.join(dir, 'symbols.sqlite');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('应该保存、读取、覆盖和删除条目', async () => {
+    const store = await makeSqliteEntryStore(dbPath);
+    await store.set('types/Geo/Vec.ts#Vec:type', entry('Vec'));
+    await store.set('types/Geo/Line.ts#Line:type', entry('Line', '{ from: Vec; to: Vec }'));
+
+    expect(await store.get('types/Geo/Vec.ts#Vec:type')).toEqual(entry('Vec'));
+    expect(await store.get('types/Geo/Line.ts#Line:type')).toEqual(entry('Line', '{ from: Vec; to: Vec }'));
+    expect(await store.get('types/Geo/Missing.ts#Missing:type')).toBeNull();
+
+    await store.set('types/Geo/Vec.ts#Vec:type', entry('Vec', '[number, number]'));
+    expect((await store.get('types/Geo/Vec.ts#Vec:type'))?.subtype).toBe('[number, number]');
+
+    await store.del('types/Geo/Vec.ts#Vec:type');
+    expect(await store.get('types/Geo/Vec.ts#Vec:type')).toBeNull();
+    expect(await store.keys()).toEqual(['types/Geo/Line.ts#Line:type']);
+    await store.close();
+  });
+
+  it('关闭后重新打开应该保留条目', async () => {
+    const store = await makeSqliteEntryStore(dbPath);
+    await store.set('b', entry('B'));
+    await store.set('a', entry('A'));
+    await store.close();
+
+    const reopened = await makeSqliteEntryStore(dbPath);
+    expect(await reopened.keys()).toEqual(['a', 'b']);
+    expect(await reopened.get('a')).toEqual(entry('A'));
+    await reopened.close();
+  });
+});
@@ -0,0 +1,362 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from 'bun:sqlite';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import ts from 'typescript';
+import { createSymbolDB, type SymbolDB } from '../SymbolDB';
+import { createAnalysisSession } from '../../server/analysisSession';
+import { getSemanticIndexPath } from '../../common/paths';
+
+const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  strict: true
+};
+
+// A call chain top → middle → leaf, a runtime cycle ping ⇄ pong, a type-only edge top → Shape and a type-only cycle Node ⇄ Edge
+const GRAPH_SOURCE = `
+export type Shape = { size: number };
+export type Node = { edges: Edge[] };
+export type Edge = { to: Node };
+export const leaf = (): number => 1;
+export const middle = (): number => leaf() + 1;
+export const top = (shape: Shape): number => middle() + shape.size;
+export const ping = (n: number): number => (n > 0 ? pong(n - 1) : top({ size: n }));
+export const pong = (n: number): number => (n > 0 ? ping(n - 1) : 0);
+export const isolated = (): number => 0;
+`;
+
+const graphId = (name: string, kind = 'variable') => `graph/chain.ts#${name}:${kind}`;
+
+describe('createSymbolDB', () => {
+  let root: string;
+  let dbPath: string;
+  let symbolDB: SymbolDB;
+
+  const writeSource = (modulePath: string, source: string) => {
+    const filePath = path.join(root, modulePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, source);
+    return filePath;
+  };
+
+  // Extract only the given files, so a test decides the order in which they reach the database
+  const index = (...filePaths: string[]) => {
+    filePaths.forEach(filePath => {
+      const symbols = createAnalysisSession(root, compilerOptions).update([filePath]).analyzed.get(filePath);
+      symbolDB.addSymbols(filePath, symbols!);
+    });
+  };
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'symbol-db-')));
+    dbPath = path.join(root, 'symbols.sqlite');
+    symbolDB = createSymbolDB(dbPath);
+    symbolDB.initialize();
+  });
+
+  afterEach(() => {
+    symbolDB.close();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const writeVec = () => writeSource('types/Geo/Vec.ts', `export type Vec = { x: number; y: number };`);
+  const writeLine = () => writeSource('types/Geo/Line.ts', `import type { Vec } from './Vec';\nexport type Line = { from: Vec; to: Vec };`);
+
+  describe('dependencies', () => {
+    it('目标文件稍后才建立索引时应该补全待解析的依赖', () => {
+      const vecFile = writeVec();
+      index(writeLine());
+
+      // Extraction already names the symbol by its id, so the edge reads the same before Vec is indexed
+      const pending = symbolDB.getDependencies('Line');
+      expect(pending.status === 'found' && pending.result).toEqual(['types/Geo/Vec.ts#Vec:type']);
+      expect(symbolDB.getDependents('Vec').status).toBe('not-found');
+
+      index(vecFile);
+      const resolved = symbolDB.getDependencies('Line');
+      expect(resolved.status === 'found' && resolved.result).toEqual(['types/Geo/Vec.ts#Vec:type']);
+      const dependents = symbolDB.getDependents('Vec');
+      expect(dependents.status === 'found' && dependents.result).toEqual(['types/Geo/Line.ts#Line:type']);
+    });
+
+    it('移除依赖方文件时应该级联删除它的边', () => {
+      const lineFile = writeLine();
+      index(writeVec(), lineFile);
+
+      const changes = symbolDB.removeFile(lineFile);
+      expect(changes.removed.map(symbol => symbol.id)).toEqual(['types/Geo/Line.ts#Line:type']);
+      expect(symbolDB.lookupSymbol('Line').status).toBe('not-found');
+      const dependents = symbolDB.getDependents('Vec');
+      expect(dependents.status === 'found' && dependents.result).toEqual([]);
+    });
+
+    it('移除被依赖的文件时应该把指向它的边退回待解析', () => {
+      const vecFile = writeVec();
+      index(vecFile, writeLine());
+
+      symbolDB.removeFile(vecFile);
+      const pending = symbolDB.getDependencies('Line');
+      expect(pending.status === 'found' && pending.result).toEqual(['types/Geo/Vec.ts#Vec:type']);
+      expect(symbolDB.getDependents('Vec').status).toBe('not-found');
+
+      index(vecFile);
+      const dependents = symbolDB.getDependents('Vec');
+      expect(dependents.status === 'found' && dependents.result).toEqual(['types/Geo/Line.ts#Line:type']);
+    });
+  });
+
+  describe('lookupSymbol', () => {
+    it('应该按名称或 id 找到唯一的符号', () => {
+      index(writeVec());
+
+      expect(symbolDB.lookupSymbol('Vec')).toMatchObject({ status: 'found', symbol: { id: 'types/Geo/Vec.ts#Vec:type' } });
+      expect(symbolDB.lookupSymbol('types/Geo/Vec.ts#Vec:type')).toMatchObject({ status: 'found', symbol: { name: 'Vec' } });
+    });
+
+    it('同名符号应该返回全部候选，未知名称应该返回 not-found', () => {
+      index(writeVec(), writeSource('types/Physics/Vec.ts', `export type Vec = { x: number; y: number; z: number };`));
+
+      const lookup = symbolDB.lookupSymbol('Vec');
+      expect(lookup.status).toBe('ambiguous');
+      expect(lookup.status === 'ambiguous' && lookup.candidates.map(candidate => candidate.id)).toEqual([
+        'types/Geo/Vec.ts#Vec:type',
+        'types/Physics/Vec.ts#Vec:type'
+      ]);
+      // The id still picks one of them
+      expect(symbolDB.lookupSymbol('types/Physics/Vec.ts#Vec:type').status).toBe('found');
+
+      expect(symbolDB.lookupSymbol('Missing')).toEqual({ status: 'not-found', reference: 'Missing' });
+      expect(symbolDB.getDependencies('Missing')).toEqual({ status: 'not-found', reference: 'Missing' });
+    });
+  });
+
+  describe('initialize', () => {
+    it('从旧的 schema 版本升级时应该重建派生的表并删除符号向量', () => {
+      index(writeVec());
+      symbolDB.close();
+
+      const vectorsPath = getSemanticIndexPath(root, 'symbols-hashed-64');
+      fs.mkdirSync(path.dirname(vectorsPath), { recursive: true });
+      fs.writeFileSync(vectorsPath, 'stale vectors');
+      const raw = new Database(dbPath);
+      raw.run('CREATE TABLE IF NOT EXISTS semantic_embeddings (index_name TEXT, key TEXT, content_hash TEXT)');
+      raw.run(`INSERT INTO semantic_embeddings VALUES ('symbols-hashed-64', 'types/Geo/Vec.ts#Vec:type', 'hash')`);
+      raw.run('PRAGMA user_version = 1');
+      raw.close();
+
+      symbolDB = createSymbolDB(dbPath);
+      symbolDB.initialize();
+      expect(symbolDB.getIndexedFiles()).toEqual([]);
+      expect(symbolDB.lookupSymbol('Vec').status).toBe('not-found');
+      expect(fs.existsSync(vectorsPath)).toBe(false);
+
+      const check = new Database(dbPath);
+      try {
+        expect(check.prepare(`SELECT name FROM sqlite_master WHERE name = 'semantic_embeddings'`).get()).toBeNull();
+        expect((check.prepare('PRAGMA user_version').get() as { user_version: number }).user_version).toBeGreaterThan(1);
+      } finally {
+        check.close();
+      }
+
+      // Reopening at the current version keeps what was indexed
+      index(writeVec());
+      symbolDB.close();
+      symbolDB = createSymbolDB(dbPath);
+      symbolDB.initialize();
+      expect(symbolDB.lookupSymbol('Vec').status).toBe('found');
+    });
+  });
+
+  describe('dependency graph', () => {
+    beforeEach(() => {
+      index(writeSource('graph/chain.ts', GRAPH_SOURCE));
+    });
+
+    it('闭包应该记录每个符号的最短深度，并在环上终止', () => {
+      const closure = symbolDB.getClosure('ping');
+      expect(closure.status === 'found' && closure.result).toEqual([
+        { id: graphId('pong'), depth: 1 },
+        { id: graphId('top'), depth: 1 },
+        { id: graphId('middle'), depth: 2 },
+        { id: graphId('Shape', 'type'), depth: 2 },
+        { id: graphId('leaf'), depth: 3 }
+      ]);
+
+      const reverse = symbolDB.getReverseClosure('leaf');
+      expect(reverse.status === 'found' && reverse.result).toEqual([
+        { id: graphId('middle'), depth: 1 },
+        { id: graphId('top'), depth: 2 },
+        { id: graphId('ping'), depth: 3 },
+        { id: graphId('pong'), depth: 4 }
+      ]);
+    });
+
+    it('闭包应该遵守深度限制并可以只跟随运行时边', () => {
+      const limited = symbolDB.getClosure('top', { maxDepth: 1 });
+      expect(limited.status === 'found' && limited.result).toEqual([
+        { id: graphId('middle'), depth: 1 },
+        { id: graphId('Shape', 'type'), depth: 1 }
+      ]);
+
+      const runtime = symbolDB.getClosure('top', { runtimeOnly: true });
+      expect(runtime.status === 'found' && runtime.result).toEqual([
+        { id: graphId('middle'), depth: 1 },
+        { id: graphId('leaf'), depth: 2 }
+      ]);
+    });
+
+    it('应该给出最短的依赖路径，不可达时路径为 null', () => {
+      const found = symbolDB.getShortestPath('pong', 'leaf');
+      expect(found.status === 'found' && found.result.path).toEqual([
+        graphId('pong'),
+        graphId('ping'),
+        graphId('top'),
+        graphId('middle'),
+        graphId('leaf')
+      ]);
+
+      const unreachable = symbolDB.getShortestPath('leaf', 'ping');
+      expect(unreachable.status === 'found' && unreachable.result).toMatchObject({ target: { id: graphId('ping') }, path: null });
+      expect(symbolDB.getShortestPath('isolated', 'leaf')).toMatchObject({ status: 'found', result: { path: null } });
+
+      // Only a type position links top to Shape
+      expect(symbolDB.getShortestPath('ping', 'Shape')).toMatchObject({ status: 'found', result: { path: [graphId('ping'), graphId('top'), graphId('Shape', 'type')] } });
+      expect(symbolDB.getShortestPath('ping', 'Shape', { runtimeOnly: true })).toMatchObject({ status: 'found', result: { path: null } });
+
+      expect(symbolDB.getShortestPath('ping', 'Missing')).toEqual({ status: 'not-found', reference: 'Missing' });
+    });
+
+    it('大的环上每个符号只应该访问一次', () => {
+      // A ring step0 → step1 → … → step0 where every step also calls step0, so there is a cycle
+      // of every length; walking it by (symbol, depth) would revisit each member at every depth
+      const size = 1500;
+      const ring = Array.from({ length: size }, (_, i) => `export const step${i} = (): number => step${(i + 1) % size}() + step0();`).join('\n');
+      index(writeSource('graph/ring.ts', ring));
+      const ringId = (i: number) => `graph/ring.ts#step${i}:variable`;
+
+      const closure = symbolDB.getClosure(ringId(0));
+      expect(closure.status === 'found' && closure.result.length).toBe(size - 1);
+      expect(closure.status === 'found' && closure.result.at(-1)).toEqual({ id: ringId(size - 1), depth: size - 1 });
+
+      const reverse = symbolDB.getReverseClosure(ringId(0));
+      expect(reverse.status === 'found' && reverse.result[0]).toEqual({ id: ringId(1), depth: 1 });
+      expect(reverse.status === 'found' && reverse.result.length).toBe(size - 1);
+
+      expect(symbolDB.getShortestPath(ringId(1), ringId(0))).toMatchObject({ status: 'found', result: { path: expect.any(Array) } });
+      expect(symbolDB.getStronglyConnectedComponents().find(component => component.includes(ringId(0)))).toHaveLength(size);
+    }, 10_000); // Most of this is extracting the ring; a walk that revisits members takes well past it
+
+    it('强连通分量应该只包含环，并可以忽略仅类型的环', () => {
+      expect(symbolDB.getStronglyConnectedComponents()).toEqual([
+        [graphId('Edge', 'type'), graphId('Node', 'type')],
+        [graphId('ping'), graphId('pong')]
+      ]);
+      expect(symbolDB.getStronglyConnectedComponents({ runtimeOnly: true })).toEqual([
+        [graphId('ping'), graphId('pong')]
+      ]);
+    });
+  });
+
+  describe('getSymbols', () => {
+    it('应该把提取的符号和导入保存为可序列化的记录，并原样读回', () => {
+      const vecFile = writeVec();
+      const shapesFile = writeSource('types/Geo/Shapes.ts', `
+        import type { Vec } from './Vec';
+
+        /** Anything with an area */
+        export interface Shape { area(): number }
+
+        export class Circle implements Shape {
+          constructor(public center: Vec, public radius: number) {}
+          area() { return Math.PI * this.radius ** 2; }
+        }
+
+        const unit = (): Circle => new Circle({ x: 0, y: 0 }, 1);
+
+        export { unit as unitCircle };
+      `);
+      const extracted = createAnalysisSession(root, compilerOptions).update([vecFile, shapesFile]).analyzed.get(shapesFile)!;
+      index(vecFile);
+      symbolDB.addSymbols(shapesFile, extracted);
+
+      const stored = symbolDB.getSymbols(shapesFile)!;
+      expect(JSON.parse(JSON.stringify(stored))).toEqual(stored);
+      expect(stored.imports).toEqual(Array.from(extracted.imports.values()));
+
+      const records = new Map(stored.symbols.map(record => [record.name, record]));
+      [...extracted.exports.values(), ...extracted.internal.values()].forEach(symbol => {
+        const record = records.get(symbol.name);
+        expect(record).toMatchObject({
+          name: symbol.name,
+          kind: symbol.kind,
+          type: symbol.type,
+          isExported: symbol.isExported,
+          sourceLocation: symbol.sourceLocation,
+          filePath: shapesFile,
+          modulePath: 'types/Geo/Shapes.ts',
+          dependencies: Array.from(symbol.dependencies).sort(),
+          dependencyKinds: Object.fromEntries(Array.from(symbol.dependencyKinds ?? [], ([reference, kinds]) => [reference, Array.from(kinds).sort()])),
+          extends: Array.from(symbol.extends ?? []),
+          implements: Array.from(symbol.implements ?? [])
+        });
+        expect<string | undefined>(record?.documentation).toBe(symbol.documentation || undefined);
+        expect<string | undefined>(record?.aliasOf).toBe(symbol.aliasOf);
+        expect<string | undefined>(record?.memberOf).toBe(symbol.memberOf);
+      });
+      expect(records.size).toBe(extracted.exports.size + extracted.internal.size);
+
+      // Stored-only fields: export names follow local aliases and dependents come from the other rows
+      expect(records.get('unit')?.exportNames).toEqual(['unitCircle']);
+      expect(records.get('Shape')?.dependents).toEqual(['types/Geo/Shapes.ts#Circle:class']);
+      expect(records.get('Shape')?.documentation).toBe('Anything with an area');
+
+      expect(symbolDB.getAllSymbols()).toEqual([...stored.symbols, ...symbolDB.getSymbols(vecFile)!.symbols]);
+      expect(symbolDB.getSymbols(path.join(root, 'types/Geo/Missing.ts'))).toBeNull();
+    });
+  });
+
+  describe('searchSymbols', () => {
+    it('查询和路径前缀中的 % 与 _ 应该按字面匹配', () => {
+      const underscored = writeSource('types/max_size/Limits.ts', `export const max_size = 1;\nexport const maxXsize = 2;`);
+      const lettered = writeSource('types/maxXsize/Limits.ts', `export const total = 3;`);
+      index(underscored, lettered);
+
+      expect(symbolDB.searchSymbols('max_size').map(result => result.id)).toEqual(['types/max_size/Limits.ts#max_size:variable']);
+      expect(symbolDB.searchSymbols('%')).toEqual([]);
+      expect(symbolDB.searchSymbols('total', path.join(root, 'types/max_size'))).toEqual([]);
+
+      expect(symbolDB.getIndexedFiles(path.join(root, 'types/max_size'))).toEqual([underscored]);
+      expect(symbolDB.getIndexedFiles(path.join(root, 'types/max%'))).toEqual([]);
+      expect(symbolDB.getIndexedFiles()).toEqual([lettered, underscored]);
+    });
+  });
+
+  describe('getSubtypes', () => {
+    it('应该列出直接继承或实现的类和接口', () => {
+      index(writeSource('types/Shapes.ts', `
+        export interface Shape { area(): number }
+        export interface Polygon extends Shape { sides: number }
+        export class Square implements Polygon {
+          sides = 4;
+          area() { return 1; }
+        }
+        export class Tile extends Square {}
+      `));
+
+      const shape = symbolDB.getSubtypes('types/Shapes.ts#Shape:interface');
+      expect(shape.status === 'found' && shape.result).toEqual([{ id: 'types/Shapes.ts#Polygon:interface', relation: 'extends' }]);
+
+      const polygon = symbolDB.getSubtypes('Polygon');
+      expect(polygon.status === 'found' && polygon.result).toEqual([{ id: 'types/Shapes.ts#Square:class', relation: 'implements' }]);
+
+      const square = symbolDB.getSubtypes('Square');
+      expect(square.status === 'found' && square.result).toEqual([{ id: 'types/Shapes.ts#Tile:class', relation: 'extends' }]);
+
+      const tile = symbolDB.getSubtypes('Tile');
+      expect(tile.status === 'found' && tile.result).toEqual([]);
+    });
+  });
+});
@@ -10,6 +10,7 @@
  *   includeDeclarationFiles: false,
  *   includeNodeModules: false,
  *   includeSystemSymbols: false,
+ *   includeMembers: false,
  *   followTypeOnlyImports: true,
  *   maxDepth: 5
  * };
@@ -22,6 +23,8 @@ export type AnalysisOptions = {
   includeNodeModules?: boolean;
   /** 是否包含系统符号（如内置类型），默认为 false */
   includeSystemSymbols?: boolean;
+  /** 是否提取类、接口和枚举的成员符号，默认为 false */
+  includeMembers?: boolean;
   /** 是否跟踪仅类型导入，默认为 true */
   followTypeOnlyImports?: boolean;
   /** 最大分析深度，防止无限递归，默认为 10 */
@@ -1,8 +1,14 @@
+import type ts from 'typescript';
+
 /**
  * 符号提取选项
  */
 export type SymbolExtractionOptions = {
   includeNodeModules: boolean;  // 是否包含 node_modules 中的依赖
   includeSystemSymbols: boolean;  // 是否包含系统符号
+  includeMembers?: boolean;  // 是否提取类、接口和枚举的成员符号，如 `Shape.area`
+  compilerOptions?: ts.CompilerOptions;  // 解析导入时遵循的编译选项（`paths`、`baseUrl` 等），省略时只依赖类型检查器
+  rootDir?: string;  // 符号标识中模块路径相对的根目录，省略时使用完整的文件路径
+  moduleResolutionCache?: ts.ModuleResolutionCache;  // 在多次提取之间复用的模块解析缓存，需与 compilerOptions 一致
 };
 
@@ -0,0 +1,25 @@
+/**
+ * 依赖边的种类
+ *
+ * 描述一个符号以何种方式引用另一个符号，用于区分只在类型层面存在的
+ * 依赖与运行时真正需要的依赖：
+ * - `type`：类型位置的引用，包括接口的 extends
+ * - `typeof`：类型位置的 `typeof x` 查询
+ * - `implements`：类的 implements 子句
+ * - `read`：读取值，如赋值、传参或访问属性
+ * - `call`：函数调用
+ * - `new`：构造实例
+ * - `extends`：类继承另一个类
+ *
+ * 其中 `type`、`typeof` 和 `implements` 仅存在于类型层面，编译后消失。
+ *
+ * @example
+ * ```typescript
+ * // function area(shape: Shape) { return measure(shape); }
+ * const kinds = new Map<string, Set<DependencyKind>>([
+ *   ['shape.ts:Shape', new Set(['type'])],
+ *   ['measure.ts:measure', new Set(['call'])]
+ * ]);
+ * ```
+ */
+export type DependencyKind = 'type' | 'typeof' | 'implements' | 'read' | 'call' | 'new' | 'extends';
@@ -18,7 +18,7 @@ import type { ImportInfo } from './ImportInfo';
  *     ['helper', { name: 'helper', isExported: false, ... }]
  *   ]),
  *   imports: new Map([
- *     ['lodash', { name: 'lodash', fromModule: 'lodash', ... }]
+ *     ['lodash', { name: 'lodash', fromModule: 'lodash', specifier: 'lodash', packageName: 'lodash', ... }]
  *   ])
  * };
  * ```
@@ -20,7 +20,7 @@ import type { ExtractedSymbols } from './ExtractedSymbols';
  * ```
  */
 export type FileSymbols = {
-  /** 文件名，用于标识和引用 */
+  /** 文件名，取编译器中的源文件路径，未指定根目录提取时与符号标识中的模块路径一致 */
   fileName: string;
   /** 从该文件中提取的所有符号信息 */
   symbols: ExtractedSymbols;
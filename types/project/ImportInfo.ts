@@ -3,21 +3,36 @@
  * 
  * 描述从其他模块导入的符号信息，包括本地名称、源模块、
  * 导入类型等。这个信息用于跟踪模块间的依赖关系和
- * 符号的导入来源。
+ * 符号的导入来源。源代码中的说明符与解析结果分开保存，
+ * 别名（如 `@t/*`）和相对路径都会解析到具体文件。
  * 
  * @example
  * ```typescript
  * const importInfo: ImportInfo = {
  *   name: 'calculateTotal',
- *   fromModule: './utils',
+ *   fromModule: '/project/src/utils.ts',
+ *   specifier: './utils',
+ *   resolvedFile: '/project/src/utils.ts',
  *   isDefault: false,
  *   originalName: 'calculateTotal'
  * };
  * 
+ * // 内置模块导入
+ * const builtinImport: ImportInfo = {
+ *   name: 'readFileSync',
+ *   fromModule: 'node:fs',
+ *   specifier: 'fs',
+ *   packageName: 'node:fs',
+ *   isDefault: false,
+ *   originalName: 'readFileSync'
+ * };
+ * 
  * // 重命名导入
  * const renamedImport: ImportInfo = {
  *   name: 'calc',
- *   fromModule: './utils',
+ *   fromModule: '/project/src/utils.ts',
+ *   specifier: './utils',
+ *   resolvedFile: '/project/src/utils.ts',
  *   isDefault: false,
  *   originalName: 'calculateTotal'
  * };
@@ -26,10 +41,18 @@
 export type ImportInfo = {
   /** 本地名称，在当前模块中使用的名称 */
   name: string;
-  /** 源模块路径，导入符号的来源模块 */
+  /** 源模块，依次取解析后的文件、包名和原始说明符（相对说明符按导入文件目录拼接）中第一个可用的值 */
   fromModule: string;
+  /** 源代码中书写的模块说明符，如 `@t/Geometry` 或 `./utils` */
+  specifier: string;
+  /** 说明符解析得到的文件绝对路径，无法解析时为空 */
+  resolvedFile?: string;
+  /** 外部包名或内置模块名，如 `zod`、`node:fs` */
+  packageName?: string;
   /** 是否为默认导入，如 `import calc from './utils'` */
   isDefault: boolean;
   /** 原始名称，在源模块中的实际名称（用于重命名导入） */
   originalName?: string;
+  /** 是否为仅类型导入，如 `import type { A }` 或 `import { type A }` */
+  isTypeOnly?: boolean;
 }; 
\ No newline at end of file
@@ -0,0 +1,33 @@
+/**
+ * 模块解析结果
+ * 
+ * 描述一个导入说明符最终指向的位置。项目内的模块（包括通过
+ * `paths`、`baseUrl` 映射的别名）解析为具体文件；第三方包和
+ * 运行时内置模块则以包名标识。两者都无法确定时字段为空，
+ * 调用方应退回使用原始说明符。
+ * 
+ * @example
+ * ```typescript
+ * // import type { Vec } from '@t/Geometry/Vec'
+ * const aliased: ModuleResolution = {
+ *   resolvedFile: '/work/procbase/types/Geometry/Vec.ts'
+ * };
+ * 
+ * // import { z } from 'zod'
+ * const external: ModuleResolution = {
+ *   resolvedFile: '/work/node_modules/zod/index.d.ts',
+ *   packageName: 'zod'
+ * };
+ * 
+ * // import fs from 'fs'
+ * const builtin: ModuleResolution = {
+ *   packageName: 'node:fs'
+ * };
+ * ```
+ */
+export type ModuleResolution = {
+  /** 解析得到的源文件或声明文件的绝对路径 */
+  resolvedFile?: string;
+  /** 外部包名或内置模块名，如 `zod`、`@scope/pkg`、`node:fs` */
+  packageName?: string;
+};
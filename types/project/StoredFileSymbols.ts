@@ -0,0 +1,31 @@
+import type { SymbolRecord } from './SymbolRecord';
+import type { ImportInfo } from './ImportInfo';
+
+/**
+ * 符号库中保存的单个文件的符号
+ *
+ * ExtractedSymbols 的持久化形式：符号以 SymbolRecord 表示并按标识排序，
+ * 导入按本地名称排序，整体可以直接序列化为 JSON。导出与否由记录的
+ * exportNames 表示，不再分成两个映射。
+ *
+ * @example
+ * ```typescript
+ * const stored: StoredFileSymbols = {
+ *   filePath: '/procbase/types/Shop/Cart.ts',
+ *   symbols: [
+ *     { id: 'types/Shop/Cart.ts#calculateTotal:function', name: 'calculateTotal', exportNames: ['calculateTotal'], ... }
+ *   ],
+ *   imports: [
+ *     { name: 'Price', fromModule: '/procbase/types/Shop/Price.ts', specifier: './Price', ... }
+ *   ]
+ * };
+ * ```
+ */
+export type StoredFileSymbols = {
+  /** 文件的绝对路径 */
+  filePath: string;
+  /** 文件中声明或重新导出的符号 */
+  symbols: SymbolRecord[];
+  /** 文件的导入，按本地名称排序 */
+  imports: ImportInfo[];
+};
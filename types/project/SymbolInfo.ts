@@ -1,5 +1,6 @@
 import ts from 'typescript';
 import type { SourceLocation } from './SourceLocation';
+import type { DependencyKind } from './DependencyKind';
 
 /**
  * 符号信息
@@ -19,9 +20,27 @@ import type { SourceLocation } from './SourceLocation';
  *   documentation: '计算包含税费的总价',
  *   sourceLocation: { start: 100, end: 150, line: 5, column: 10 },
  *   fileName: 'utils.ts',
- *   dependencies: new Set(['Price', 'TaxRate']),
+ *   dependencies: new Set(['utils.ts#Price:type', 'utils.ts#TaxRate:type']),
  *   dependents: new Set(['main', 'test'])
  * };
+ *
+ * // 重新导出的别名符号：export { calculateTotal as total } from './utils'
+ * const aliasInfo: SymbolInfo = {
+ *   ...symbolInfo,
+ *   name: 'total',
+ *   kind: ts.SymbolFlags.Alias,
+ *   aliasOf: 'utils.ts#calculateTotal:function',
+ *   dependencies: new Set(['utils.ts#calculateTotal:function'])
+ * };
+ *
+ * // 成员符号以所属符号名限定：class Cart { total(): number }
+ * const memberInfo: SymbolInfo = {
+ *   ...symbolInfo,
+ *   name: 'Cart.total',
+ *   kind: ts.SymbolFlags.Method,
+ *   type: '() => number',
+ *   memberOf: 'Cart'
+ * };
  * ```
  */
 export type SymbolInfo = {
@@ -41,8 +60,20 @@ export type SymbolInfo = {
   sourceLocation: SourceLocation;
   /** 符号所在的文件名 */
   fileName: string;
-  /** 符号的依赖项集合，该符号依赖的其他符号 */
+  /** 符号的依赖项集合，该符号依赖的其他符号的标识，见 getSymbolReference */
   dependencies: Set<string>;
   /** 依赖于此符号的其他符号集合 */
   dependents: Set<string>;
+  /** 每个依赖项的引用方式，键与 dependencies 中的标识一致 */
+  dependencyKinds?: Map<string, Set<DependencyKind>>;
+  /** 别名符号（重新导出）指向的源符号标识，如 `vec.ts#Vec:type` */
+  aliasOf?: string;
+  /** 成员符号所属的类、接口、枚举或命名空间的名称 */
+  memberOf?: string;
+  /** 类或接口通过 extends 继承的符号标识 */
+  extends?: Set<string>;
+  /** 类通过 implements 实现的符号标识 */
+  implements?: Set<string>;
+  /** 模块增强所增强的目标模块，以模块路径标识，如 `types/Geo/Vec.ts`；`declare global` 为 `global` */
+  augments?: string;
 }; 
\ No newline at end of file
@@ -0,0 +1,76 @@
+import ts from 'typescript';
+import type { SourceLocation } from './SourceLocation';
+import type { DependencyKind } from './DependencyKind';
+
+/**
+ * 持久化的符号记录
+ *
+ * 符号库（symbols.sqlite）中保存的一个符号。与 SymbolInfo 不同，记录不持有
+ * AST 节点，只包含可序列化的数据：声明节点以签名文本代替，集合与映射
+ * 以数组和普通对象表示，因此可以直接转换为 JSON 在进程间传递。
+ *
+ * @example
+ * ```typescript
+ * const record: SymbolRecord = {
+ *   id: 'types/Shop/Cart.ts#calculateTotal:function',
+ *   name: 'calculateTotal',
+ *   kind: ts.SymbolFlags.Function,
+ *   declarationKind: 'function',
+ *   type: '(price: number, tax: number) => number',
+ *   signature: 'export function calculateTotal(price: number, tax: number): number',
+ *   isExported: true,
+ *   exportNames: ['calculateTotal', 'total'],
+ *   documentation: '计算包含税费的总价',
+ *   sourceLocation: { start: 100, end: 150, line: 5, column: 10 },
+ *   filePath: '/procbase/types/Shop/Cart.ts',
+ *   modulePath: 'types/Shop/Cart.ts',
+ *   dependencies: ['/procbase/types/Shop/Price.ts:Price'],
+ *   dependencyKinds: { '/procbase/types/Shop/Price.ts:Price': ['type'] },
+ *   dependents: ['types/Shop/Checkout.ts#checkout:function'],
+ *   extends: [],
+ *   implements: []
+ * };
+ * ```
+ */
+export type SymbolRecord = {
+  /** 符号的稳定标识：`模块路径#名称:声明种类` */
+  id: string;
+  /** 符号的名称，成员符号以所属符号名限定，如 `Cart.total` */
+  name: string;
+  /** 符号的类型标志，与提取时的 ts.SymbolFlags 一致 */
+  kind: ts.SymbolFlags;
+  /** 由类型标志归纳的声明种类，如 `function`、`interface`、`variable` */
+  declarationKind: string;
+  /** 符号的类型字符串表示 */
+  type: string;
+  /** 去掉函数体与成员列表后的声明文本，如 `class Cart extends Base` */
+  signature: string;
+  /** 声明本身是否带有导出修饰 */
+  isExported: boolean;
+  /** 模块导出该符号所用的名称，包括本文件中 `export { a as b }` 形式的别名 */
+  exportNames: string[];
+  /** 符号的文档注释 */
+  documentation?: string;
+  /** 符号在源码中的位置信息 */
+  sourceLocation: SourceLocation;
+  /** 符号所在文件的绝对路径 */
+  filePath: string;
+  /** 符号所在文件相对于 procbase 根目录的路径 */
+  modulePath: string;
+  /** 符号依赖的其他符号的标识，如 `types/Geo/Vec.ts#Vec:type` */
+  dependencies: string[];
+  /** 每个依赖项的引用方式，键与 dependencies 中的标识一致 */
+  dependencyKinds: Record<string, DependencyKind[]>;
+  /** 依赖于此符号的已索引符号的标识 */
+  dependents: string[];
+  /** 别名符号（重新导出）指向的源符号标识 */
+  aliasOf?: string;
+  /** 成员符号所属的类、接口、枚举或命名空间的名称 */
+  memberOf?: string;
+  /** 类或接口通过 extends 继承的符号标识 */
+  extends: string[];
+  /** 类通过 implements 实现的符号标识 */
+  implements: string[];
+  /** 模块增强所增强的目标模块 */
+  augments?: string;
+};
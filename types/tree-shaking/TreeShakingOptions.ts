@@ -17,7 +17,7 @@
 export type TreeShakingOptions = {
   /** 是否包含内部符号，默认为 false */
   includeInternalSymbols?: boolean;
-  /** 是否跟踪仅类型导入，默认为 true */
+  /** 是否跟踪仅类型导入，默认为 true；为 false 时只沿运行时依赖计算闭包，忽略类型位置的引用 */
   followTypeOnlyImports?: boolean;
   /** 最大分析深度，防止无限递归，默认为 10 */
   maxDepth?: number;
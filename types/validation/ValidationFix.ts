@@ -0,0 +1,24 @@
+/**
+ * 校验问题的自动修复
+ *
+ * 描述一次机械式的文本替换：将源文件中 `[start, end)` 区间的文本
+ * 替换为 `newText`。插入文本时 `start` 与 `end` 相同。
+ *
+ * @example
+ * ```typescript
+ * // 将 `import fs from 'fs'` 中的 'fs' 改为 'node:fs'
+ * const fix: ValidationFix = {
+ *   start: 15,
+ *   end: 19,
+ *   newText: "'node:fs'"
+ * };
+ * ```
+ */
+export type ValidationFix = {
+  /** 替换区间的起始字符偏移量 */
+  start: number;
+  /** 替换区间的结束字符偏移量（不包含） */
+  end: number;
+  /** 替换后的文本 */
+  newText: string;
+};
@@ -0,0 +1,34 @@
+import type { ValidationFix } from './ValidationFix';
+
+/**
+ * 校验问题
+ *
+ * 描述 procbase 文件在校验过程中发现的一个问题，包括违反的规则、
+ * 问题描述以及在源码中的位置。位置信息用于以 `file:line:column`
+ * 的形式向用户报告问题。可以机械修复的问题附带自动修复。
+ *
+ * @example
+ * ```typescript
+ * const issue: ValidationIssue = {
+ *   rule: 'type-only-declarations',
+ *   message: 'types 目录中只允许类型声明，发现函数声明',
+ *   fileName: '/procbase/types/Shape/Point.ts',
+ *   line: 3,
+ *   column: 1
+ * };
+ * ```
+ */
+export type ValidationIssue = {
+  /** 违反的规则标识 */
+  rule: string;
+  /** 问题描述 */
+  message: string;
+  /** 问题所在的文件名 */
+  fileName: string;
+  /** 行号，从 1 开始计数 */
+  line: number;
+  /** 列号，从 1 开始计数 */
+  column: number;
+  /** 自动修复，仅在问题可以机械修复时提供 */
+  fix?: ValidationFix;
+};